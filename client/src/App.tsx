@@ -10,9 +10,28 @@ import Orders from "@/pages/orders";
 import Customers from "@/pages/customers";
 import Reports from "@/pages/reports";
 import NewSale from "@/pages/new-sale";
+import StockConflicts from "@/pages/stock-conflicts";
+import Suppliers from "@/pages/suppliers";
+import PurchaseOrders from "@/pages/purchase-orders";
+import AuthPage from "@/pages/auth";
 import MobileLayout from "@/components/layout/mobile-layout";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" data-testid="auth-loading">
+        <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <MobileLayout>
       <Switch>
@@ -22,6 +41,9 @@ function Router() {
         <Route path="/customers" component={Customers} />
         <Route path="/reports" component={Reports} />
         <Route path="/new-sale" component={NewSale} />
+        <Route path="/stock-conflicts" component={StockConflicts} />
+        <Route path="/suppliers" component={Suppliers} />
+        <Route path="/purchase-orders" component={PurchaseOrders} />
         <Route component={NotFound} />
       </Switch>
     </MobileLayout>
@@ -31,10 +53,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
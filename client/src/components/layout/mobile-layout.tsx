@@ -1,8 +1,12 @@
 import { useState, useEffect } from "react";
-import { Store, Wifi, WifiOff } from "lucide-react";
+import { Store, Wifi, WifiOff, LogOut, Settings, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import BottomNavigation from "./bottom-navigation";
 import LanguageToggle from "@/components/ui/language-toggle";
 import { useOffline } from "@/hooks/use-offline";
+import { useAuth } from "@/hooks/use-auth";
+import { useServiceWorker } from "@/hooks/use-service-worker";
+import ShopSettingsModal from "@/components/ui/shop-settings-modal";
 
 interface MobileLayoutProps {
   children: React.ReactNode;
@@ -10,7 +14,10 @@ interface MobileLayoutProps {
 
 export default function MobileLayout({ children }: MobileLayoutProps) {
   const { isOffline } = useOffline();
+  const { user, logoutMutation } = useAuth();
+  const { updateAvailable, updateApp, dismissUpdate } = useServiceWorker();
   const [showOfflineIndicator, setShowOfflineIndicator] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   useEffect(() => {
     if (isOffline) {
@@ -34,7 +41,7 @@ export default function MobileLayout({ children }: MobileLayoutProps) {
               <Store className="text-primary h-5 w-5" />
             </div>
             <div>
-              <h1 className="font-medium text-lg" data-testid="text-app-title">RetailSahayak</h1>
+              <h1 className="font-medium text-lg" data-testid="text-app-title">{user?.shopName || "RetailSahayak"}</h1>
               <p className="text-blue-100 text-xs font-devanagari" data-testid="text-app-subtitle">
                 स्मार्ट दुकान प्रबंधन
               </p>
@@ -59,6 +66,27 @@ export default function MobileLayout({ children }: MobileLayoutProps) {
                 )}
               </span>
             </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-white hover:bg-white hover:bg-opacity-20"
+              onClick={() => setShowSettings(true)}
+              data-testid="button-shop-settings"
+              title="Shop Settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-white hover:bg-white hover:bg-opacity-20"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+              title="Logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </header>
@@ -74,6 +102,33 @@ export default function MobileLayout({ children }: MobileLayoutProps) {
         </div>
       )}
 
+      {/* Update Prompt */}
+      {updateAvailable && (
+        <div
+          className="fixed bottom-20 left-1/2 transform -translate-x-1/2 w-[90%] max-w-sm bg-gray-900 text-white px-4 py-3 rounded-lg text-sm z-50 shadow-lg flex items-center justify-between"
+          data-testid="update-available-prompt"
+        >
+          <span className="flex items-center">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            A new version is available
+          </span>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-gray-300 hover:bg-white hover:bg-opacity-10"
+              onClick={dismissUpdate}
+              data-testid="button-dismiss-update"
+            >
+              Later
+            </Button>
+            <Button size="sm" className="h-7" onClick={updateApp} data-testid="button-update-app">
+              Update
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto" data-testid="main-content">
         {children}
@@ -81,6 +136,8 @@ export default function MobileLayout({ children }: MobileLayoutProps) {
 
       {/* Bottom Navigation */}
       <BottomNavigation />
+
+      <ShopSettingsModal open={showSettings} onOpenChange={setShowSettings} />
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CollectPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  balanceDue: number;
+}
+
+export default function CollectPaymentModal({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  balanceDue,
+}: CollectPaymentModalProps) {
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [upiTransactionId, setUpiTransactionId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setAmount(balanceDue.toFixed(2));
+      setPaymentMethod("cash");
+      setUpiTransactionId("");
+    }
+  }, [open, balanceDue]);
+
+  const collectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/payments`, {
+        amount: parseFloat(amount),
+        paymentMethod,
+        upiTransactionId: paymentMethod === "upi" && upiTransactionId.trim() ? upiTransactionId.trim() : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: "Payment recorded" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const parsedAmount = parseFloat(amount);
+  const isValidAmount = parsedAmount > 0 && parsedAmount <= balanceDue + 0.005;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid="collect-payment-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Wallet className="h-5 w-5 mr-2" />
+            Collect Payment
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-between p-2 bg-gray-50 rounded text-sm">
+            <span>Due on #{orderNumber}</span>
+            <span className="font-medium text-red-600" data-testid="text-collect-balance-due">
+              {formatCurrency(balanceDue)}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collect-amount">Amount</Label>
+            <Input
+              id="collect-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              max={balanceDue}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-collect-amount"
+            />
+            {amount && !isValidAmount && (
+              <p className="text-xs text-red-600">Enter an amount up to {formatCurrency(balanceDue)}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Payment Method</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger data-testid="select-collect-payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="upi">UPI</SelectItem>
+                <SelectItem value="card">Card</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {paymentMethod === "upi" && (
+            <div className="space-y-2">
+              <Label htmlFor="collect-utr">UTR (Optional)</Label>
+              <Input
+                id="collect-utr"
+                value={upiTransactionId}
+                onChange={(e) => setUpiTransactionId(e.target.value)}
+                placeholder="12 digit UPI reference"
+                data-testid="input-collect-utr"
+              />
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={() => collectMutation.mutate()}
+            disabled={!isValidAmount || collectMutation.isPending}
+            data-testid="button-submit-collect-payment"
+          >
+            {collectMutation.isPending ? "Recording..." : `Record ${isValidAmount ? formatCurrency(parsedAmount) : "Payment"}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
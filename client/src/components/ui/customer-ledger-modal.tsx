@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BookOpen } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface LedgerEntry {
+  id: string;
+  type: string;
+  orderId?: string;
+  description?: string;
+  createdAt: string;
+  debit: string;
+  credit: string;
+  balance: string;
+}
+
+interface CustomerLedger {
+  customer: {
+    id: string;
+    name: string;
+    creditLimit: string;
+    outstandingAmount: string;
+  };
+  openingBalance: string;
+  entries: LedgerEntry[];
+  balance: string;
+}
+
+interface CustomerLedgerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string;
+}
+
+const entryLabels: Record<string, string> = {
+  credit_sale: "Credit Sale",
+  credit_payment: "Payment",
+  credit_note: "Credit Note",
+};
+
+export default function CustomerLedgerModal({ open, onOpenChange, customerId }: CustomerLedgerModalProps) {
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: ledger, isLoading } = useQuery<CustomerLedger>({
+    queryKey: ["/api/customers", customerId, "ledger"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setAmount("");
+      setPaymentMethod("cash");
+    }
+  }, [open]);
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/customers/${customerId}/payments`, {
+        amount: parseFloat(amount),
+        paymentMethod,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setAmount("");
+      toast({ title: "Payment recorded successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (value: string) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(parseFloat(value));
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+    });
+  };
+
+  const outstanding = parseFloat(ledger?.balance || "0");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto" data-testid="customer-ledger-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <BookOpen className="h-5 w-5 mr-2" />
+            Khata{ledger ? ` - ${ledger.customer.name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !ledger ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="p-2 bg-red-50 rounded">
+                <p className="text-lg font-bold text-red-600" data-testid="text-ledger-balance">
+                  {formatCurrency(ledger.balance)}
+                </p>
+                <p className="text-xs text-gray-600">Outstanding</p>
+              </div>
+              <div className="p-2 bg-gray-50 rounded">
+                <p className="text-lg font-bold" data-testid="text-ledger-credit-limit">
+                  {parseFloat(ledger.customer.creditLimit) > 0 ? formatCurrency(ledger.customer.creditLimit) : "No limit"}
+                </p>
+                <p className="text-xs text-gray-600">Credit Limit</p>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between text-xs text-gray-500 px-2">
+                <span>Entry</span>
+                <span>Balance</span>
+              </div>
+              {parseFloat(ledger.openingBalance) !== 0 && (
+                <div className="flex justify-between p-2 bg-gray-50 rounded" data-testid="ledger-opening-balance">
+                  <span className="text-gray-600">Opening balance</span>
+                  <span className="font-medium">{formatCurrency(ledger.openingBalance)}</span>
+                </div>
+              )}
+              {ledger.entries.length > 0 ? (
+                ledger.entries.map((entry) => {
+                  const isDebit = parseFloat(entry.debit) > 0;
+                  return (
+                    <div key={entry.id} className="flex justify-between p-2 bg-gray-50 rounded" data-testid={`ledger-entry-${entry.id}`}>
+                      <div>
+                        <p className="font-medium">{entryLabels[entry.type] ?? entry.type}</p>
+                        <p className="text-xs text-gray-600">
+                          {formatDate(entry.createdAt)}
+                          {entry.description && ` • ${entry.description}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className={isDebit ? "text-red-600" : "text-green-600"}>
+                          {isDebit ? "+" : "-"}{formatCurrency(isDebit ? entry.debit : entry.credit)}
+                        </p>
+                        <p className="text-xs text-gray-600">{formatCurrency(entry.balance)}</p>
+                      </div>
+                    </div>
+                  );
+                })
+              ) : (
+                <p className="text-center text-gray-600 py-4">No khata entries yet</p>
+              )}
+            </div>
+
+            {outstanding > 0 && (
+              <div className="space-y-2 border-t pt-3">
+                <Label>Record Payment</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={outstanding}
+                    placeholder="Amount"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="flex-1"
+                    data-testid="input-ledger-payment-amount"
+                  />
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger className="w-28" data-testid="select-ledger-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="upi">UPI</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => paymentMutation.mutate()}
+                  disabled={!(parseFloat(amount) > 0) || paymentMutation.isPending}
+                  data-testid="button-record-ledger-payment"
+                >
+                  Record Payment
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Printer, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getPaperWidth,
+  getPrinterConnection,
+  isConnectionSupported,
+  printReceipt,
+  setPaperWidth as savePaperWidth,
+  setPrinterConnection as savePrinterConnection,
+  type PaperWidth,
+  type PrinterConnection,
+} from "@/lib/thermal-printer";
+
+interface PrintReceiptButtonProps {
+  orderId: string;
+  className?: string;
+}
+
+const CONNECTION_LABELS: Record<PrinterConnection, string> = {
+  bluetooth: "Bluetooth printer",
+  usb: "USB printer",
+  browser: "Browser print",
+};
+
+export default function PrintReceiptButton({ orderId, className }: PrintReceiptButtonProps) {
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(getPaperWidth);
+  const [connection, setConnection] = useState<PrinterConnection>(getPrinterConnection);
+  const { toast } = useToast();
+
+  const printMutation = useMutation({
+    mutationFn: () => printReceipt(orderId, { paperWidth, connection }),
+    onSuccess: () => {
+      if (connection !== "browser") {
+        toast({ title: "Receipt sent to printer" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to print receipt", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className={`flex space-x-2 ${className ?? ""}`}>
+      <Button
+        variant="outline"
+        className="flex-1"
+        onClick={() => printMutation.mutate()}
+        disabled={printMutation.isPending}
+        data-testid="button-print-receipt"
+      >
+        <Printer className="h-4 w-4 mr-2" />
+        {printMutation.isPending ? "Printing..." : `Print Receipt (${paperWidth}mm)`}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" data-testid="button-printer-options">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Paper width</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={paperWidth.toString()}
+            onValueChange={(value) => {
+              const width = parseInt(value) as PaperWidth;
+              setPaperWidth(width);
+              savePaperWidth(width);
+            }}
+          >
+            <DropdownMenuRadioItem value="58" data-testid="option-paper-58">58mm (32 columns)</DropdownMenuRadioItem>
+            <DropdownMenuRadioItem value="80" data-testid="option-paper-80">80mm (48 columns)</DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Printer</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={connection}
+            onValueChange={(value) => {
+              setConnection(value as PrinterConnection);
+              savePrinterConnection(value as PrinterConnection);
+            }}
+          >
+            {(Object.keys(CONNECTION_LABELS) as PrinterConnection[]).map((option) => (
+              <DropdownMenuRadioItem
+                key={option}
+                value={option}
+                disabled={!isConnectionSupported(option)}
+                data-testid={`option-printer-${option}`}
+              >
+                {CONNECTION_LABELS[option]}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
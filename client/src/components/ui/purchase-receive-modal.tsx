@@ -0,0 +1,145 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { PackageCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ReceivableItem {
+  id: string;
+  quantity: string;
+  receivedQuantity: string;
+  unitCost: string;
+  product: {
+    name: string;
+    unit: string;
+  };
+}
+
+interface PurchaseReceiveModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrderId: string;
+  poNumber: string;
+  items: ReceivableItem[];
+}
+
+const stillDue = (item: ReceivableItem) => parseFloat(item.quantity) - parseFloat(item.receivedQuantity);
+
+export default function PurchaseReceiveModal({
+  open,
+  onOpenChange,
+  purchaseOrderId,
+  poNumber,
+  items,
+}: PurchaseReceiveModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Starts from everything still due; the owner lowers what didn't arrive
+  useEffect(() => {
+    if (open) {
+      setQuantities(Object.fromEntries(
+        items.filter((item) => stillDue(item) > 0).map((item) => [item.id, String(stillDue(item))])
+      ));
+    }
+  }, [open, items]);
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const receivedItems = Object.entries(quantities)
+        .filter(([, quantity]) => parseFloat(quantity) > 0)
+        .map(([itemId, quantity]) => ({ itemId, quantity: parseFloat(quantity) }));
+
+      const response = await apiRequest("POST", `/api/purchase-orders/${purchaseOrderId}/receive`, {
+        items: receivedItems,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: "Stock received" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to receive stock", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const receivingValue = items.reduce(
+    (sum, item) => sum + (parseFloat(quantities[item.id] ?? "") || 0) * parseFloat(item.unitCost),
+    0,
+  );
+  const isValid = items.every((item) => !((parseFloat(quantities[item.id] ?? "") || 0) > stillDue(item) + 1e-9))
+    && Object.values(quantities).some((quantity) => parseFloat(quantity) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto" data-testid="purchase-receive-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <PackageCheck className="h-5 w-5 mr-2" />
+            Receive {poNumber}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {items.map((item) => {
+            const due = stillDue(item);
+            return (
+              <div key={item.id} className="p-2 bg-gray-50 rounded space-y-2" data-testid={`receive-line-${item.id}`}>
+                <div className="flex justify-between">
+                  <p className="font-medium text-sm">{item.product.name}</p>
+                  <p className="text-gray-600 text-xs">
+                    {parseFloat(item.receivedQuantity)} of {parseFloat(item.quantity)} {item.product.unit} received
+                  </p>
+                </div>
+                {due > 0 && (
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    max={due}
+                    placeholder="Qty"
+                    value={quantities[item.id] ?? ""}
+                    onChange={(e) => setQuantities((current) => ({ ...current, [item.id]: e.target.value }))}
+                    className="w-28"
+                    data-testid={`input-receive-quantity-${item.id}`}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex justify-between p-2 bg-gray-50 rounded text-sm">
+            <span>Added to payable</span>
+            <span className="font-medium" data-testid="text-receiving-value">{formatCurrency(receivingValue)}</span>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => receiveMutation.mutate()}
+            disabled={!isValid || receiveMutation.isPending}
+            data-testid="button-submit-receive"
+          >
+            {receiveMutation.isPending ? "Receiving..." : "Receive Stock"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
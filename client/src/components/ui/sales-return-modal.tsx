@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Undo2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ReturnableItem {
+  id: string;
+  quantity: string;
+  returnedQuantity: number;
+  product: {
+    name: string;
+    unit: string;
+  };
+}
+
+interface SalesReturnModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  hasCustomer: boolean;
+  items: ReturnableItem[];
+}
+
+interface LineState {
+  quantity: string;
+  condition: "restock" | "damage";
+}
+
+export default function SalesReturnModal({
+  open,
+  onOpenChange,
+  orderId,
+  hasCustomer,
+  items,
+}: SalesReturnModalProps) {
+  const [lines, setLines] = useState<Record<string, LineState>>({});
+  const [settlement, setSettlement] = useState<"refund" | "credit_note">("refund");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setLines({});
+      setSettlement("refund");
+      setPaymentMethod("cash");
+      setReason("");
+    }
+  }, [open]);
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const returnItems = Object.entries(lines)
+        .filter(([, line]) => parseFloat(line.quantity) > 0)
+        .map(([orderItemId, line]) => ({
+          orderItemId,
+          quantity: parseFloat(line.quantity),
+          condition: line.condition,
+        }));
+
+      const response = await apiRequest("POST", `/api/orders/${orderId}/returns`, {
+        settlement,
+        paymentMethod: settlement === "refund" ? paymentMethod : undefined,
+        reason: reason || undefined,
+        items: returnItems,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: "Return recorded successfully" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record return", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (itemId: string, update: Partial<LineState>) => {
+    setLines((current) => {
+      const existing: LineState = current[itemId] ?? { quantity: "", condition: "restock" };
+      return { ...current, [itemId]: { ...existing, ...update } };
+    });
+  };
+
+  const hasSelection = Object.values(lines).some((line) => parseFloat(line.quantity) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto" data-testid="sales-return-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Undo2 className="h-5 w-5 mr-2" />
+            Return Items
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {items.map((item) => {
+            const returnable = parseFloat(item.quantity) - item.returnedQuantity;
+            const line = lines[item.id];
+
+            return (
+              <div key={item.id} className="p-2 bg-gray-50 rounded space-y-2" data-testid={`return-line-${item.id}`}>
+                <div className="flex justify-between">
+                  <p className="font-medium text-sm">{item.product.name}</p>
+                  <p className="text-gray-600 text-xs">
+                    {returnable} of {item.quantity} {item.product.unit} returnable
+                  </p>
+                </div>
+                {returnable > 0 && (
+                  <div className="flex space-x-2">
+                    <Input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      max={returnable}
+                      placeholder="Qty"
+                      value={line?.quantity ?? ""}
+                      onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                      className="w-24"
+                      data-testid={`input-return-quantity-${item.id}`}
+                    />
+                    <Select
+                      value={line?.condition ?? "restock"}
+                      onValueChange={(value) => updateLine(item.id, { condition: value as LineState["condition"] })}
+                    >
+                      <SelectTrigger className="flex-1" data-testid={`select-return-condition-${item.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="restock">Back to stock</SelectItem>
+                        <SelectItem value="damage">Damaged</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="space-y-2">
+            <Label>Settlement</Label>
+            <Select value={settlement} onValueChange={(value) => setSettlement(value as typeof settlement)}>
+              <SelectTrigger data-testid="select-return-settlement">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="refund">Refund</SelectItem>
+                {hasCustomer && <SelectItem value="credit_note">Credit Note</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settlement === "refund" && (
+            <div className="space-y-2">
+              <Label>Refund Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger data-testid="select-return-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="upi">UPI</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason (Optional)</Label>
+            <Textarea
+              id="return-reason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-return-reason"
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => returnMutation.mutate()}
+            disabled={!hasSelection || returnMutation.isPending}
+            data-testid="button-submit-return"
+          >
+            Record Return
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
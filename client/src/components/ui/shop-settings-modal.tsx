@@ -0,0 +1,255 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Settings } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
+import { INDIAN_STATES } from "@shared/gst";
+import { isValidVpa } from "@shared/upi";
+
+const shopSchema = z.object({
+  shopName: z.string().min(1, "Shop name is required"),
+  shopNameHindi: z.string().optional(),
+  address: z.string().optional(),
+  phone: z.string().min(10, "Phone number must be at least 10 digits"),
+  upiId: z.string().optional().refine((value) => !value || isValidVpa(value), "Enter a valid UPI ID, e.g. shopname@upi"),
+  gstNumber: z.string().optional(),
+  state: z.string().optional(),
+  invoicePrefix: z.string().regex(/^[A-Za-z0-9-]{1,5}$/, "Prefix must be 1-5 letters, digits or hyphens"),
+  offlineStockPolicy: z.enum(["allow_negative", "hold"]),
+});
+
+type ShopFormData = z.infer<typeof shopSchema>;
+
+interface ShopSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ShopSettingsModal({ open, onOpenChange }: ShopSettingsModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<ShopFormData>({
+    resolver: zodResolver(shopSchema),
+  });
+
+  useEffect(() => {
+    if (open && user) {
+      form.reset({
+        shopName: user.shopName,
+        shopNameHindi: user.shopNameHindi || "",
+        address: user.address || "",
+        phone: user.phone,
+        upiId: user.upiId || "",
+        gstNumber: user.gstNumber || "",
+        state: user.state || "",
+        invoicePrefix: user.invoicePrefix || "INV",
+        offlineStockPolicy: user.offlineStockPolicy === "hold" ? "hold" : "allow_negative",
+      });
+    }
+  }, [open, user]);
+
+  const updateShopMutation = useMutation({
+    mutationFn: async (data: ShopFormData) => {
+      const response = await apiRequest("PUT", "/api/user", {
+        ...data,
+        shopNameHindi: data.shopNameHindi || null,
+        address: data.address || null,
+        upiId: data.upiId || null,
+        gstNumber: data.gstNumber || null,
+        state: data.state || null,
+      });
+      return response.json();
+    },
+    onSuccess: (updatedUser: AuthUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({ title: "Shop details saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save shop details", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto" data-testid="shop-settings-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Settings className="h-5 w-5 mr-2" />
+            Shop Settings
+          </DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateShopMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="shopName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shop Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-settings-shop-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="shopNameHindi"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shop Name in Hindi (Optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="font-devanagari" data-testid="input-settings-shop-name-hindi" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address (Optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-settings-address" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} data-testid="input-settings-phone" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="upiId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>UPI ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="shopname@upi" data-testid="input-settings-upi-id" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>State</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-settings-state">
+                          <SelectValue placeholder="Select state" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INDIAN_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="gstNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-settings-gst-number" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="invoicePrefix"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Invoice Prefix</FormLabel>
+                  <FormControl>
+                    <Input {...field} maxLength={5} data-testid="input-settings-invoice-prefix" />
+                  </FormControl>
+                  <FormDescription>
+                    Invoices are numbered {field.value || "INV"}/YY-YY/0001 and restart every April 1
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="offlineStockPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Offline Sales Beyond Stock</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-settings-offline-stock-policy">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="allow_negative">Record the sale and flag it</SelectItem>
+                      <SelectItem value="hold">Hold the sale for my review</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    When a sale made offline syncs and there isn't enough stock left
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={updateShopMutation.isPending} data-testid="button-save-settings">
+              Save
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
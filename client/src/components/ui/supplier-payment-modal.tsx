@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SupplierPayment {
+  id: string;
+  amount: string;
+  paymentMethod: string;
+  createdAt: string;
+}
+
+interface SupplierPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplierId: string;
+  supplierName: string;
+  payable: number;
+}
+
+export default function SupplierPaymentModal({
+  open,
+  onOpenChange,
+  supplierId,
+  supplierName,
+  payable,
+}: SupplierPaymentModalProps) {
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [upiTransactionId, setUpiTransactionId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: payments } = useQuery<SupplierPayment[]>({
+    queryKey: ["/api/suppliers", supplierId, "payments"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setAmount(payable.toFixed(2));
+      setPaymentMethod("cash");
+      setUpiTransactionId("");
+    }
+  }, [open, payable]);
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/suppliers/${supplierId}/payments`, {
+        amount: parseFloat(amount),
+        paymentMethod,
+        upiTransactionId: paymentMethod === "upi" && upiTransactionId.trim() ? upiTransactionId.trim() : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: "Payment recorded" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const parsedAmount = parseFloat(amount);
+  const isValidAmount = parsedAmount > 0 && parsedAmount <= payable + 0.005;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid="supplier-payment-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Wallet className="h-5 w-5 mr-2" />
+            Pay {supplierName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-between p-2 bg-gray-50 rounded text-sm">
+            <span>Payable</span>
+            <span className="font-medium text-red-600" data-testid="text-supplier-payable">
+              {formatCurrency(payable)}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier-payment-amount">Amount</Label>
+            <Input
+              id="supplier-payment-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              max={payable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-supplier-payment-amount"
+            />
+            {amount && !isValidAmount && (
+              <p className="text-xs text-red-600">Enter an amount up to {formatCurrency(payable)}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Payment Method</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger data-testid="select-supplier-payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="upi">UPI</SelectItem>
+                <SelectItem value="card">Card</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {paymentMethod === "upi" && (
+            <div className="space-y-2">
+              <Label htmlFor="supplier-payment-utr">UTR (Optional)</Label>
+              <Input
+                id="supplier-payment-utr"
+                value={upiTransactionId}
+                onChange={(e) => setUpiTransactionId(e.target.value)}
+                placeholder="12 digit UPI reference"
+                data-testid="input-supplier-payment-utr"
+              />
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={() => payMutation.mutate()}
+            disabled={!isValidAmount || payMutation.isPending}
+            data-testid="button-submit-supplier-payment"
+          >
+            {payMutation.isPending ? "Recording..." : `Pay ${isValidAmount ? formatCurrency(parsedAmount) : ""}`}
+          </Button>
+
+          {payments && payments.length > 0 && (
+            <div className="space-y-1 border-t pt-3">
+              <p className="text-xs font-medium text-gray-500">Recent payments</p>
+              {payments.slice(0, 5).map((payment) => (
+                <div key={payment.id} className="flex justify-between text-sm" data-testid={`text-supplier-payment-${payment.id}`}>
+                  <span className="text-gray-600">{formatDate(payment.createdAt)} · {payment.paymentMethod.toUpperCase()}</span>
+                  <span className="font-medium">{formatCurrency(parseFloat(payment.amount))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,13 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { QrCode, Share, Printer, X, Copy, Check } from "lucide-react";
+import { useState, useMemo, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { QrCode, Share, Printer, X, Copy, Check, RefreshCw } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { generateUPIQRCode, formatUPIAmount } from "@/lib/upi-utils";
 
 interface UPIQRModalProps {
@@ -25,6 +26,9 @@ interface UPIData {
   upiId: string;
   amount?: number;
   description?: string;
+  orderNumber?: string;
+  transactionRef?: string;
+  expiresAt?: string;
 }
 
 export default function UPIQRModal({ 
@@ -35,34 +39,63 @@ export default function UPIQRModal({
   onPaymentComplete 
 }: UPIQRModalProps) {
   const [customAmount, setCustomAmount] = useState<string>(amount?.toString() || "");
-  const [description, setDescription] = useState<string>(orderId ? `Order ${orderId}` : "Payment");
-  const [qrCodeUrl, setQrCodeUrl] = useState<string>("");
+  const [description, setDescription] = useState<string>("Payment");
+  const [utr, setUtr] = useState("");
+  const [now, setNow] = useState(Date.now());
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
+  // For an order the server decides the amount (what is still due) and ties
+  // the link's reference to the order
   const { data: upiData, isLoading, refetch } = useQuery<UPIData>({
-    queryKey: ["/api/upi/generate-qr", customAmount, description],
-    enabled: open && !!customAmount,
+    queryKey: orderId ? ["/api/orders", orderId, "upi-intent"] : ["/api/upi/generate-qr", customAmount, description],
+    enabled: open && (!!orderId || !!customAmount),
     queryFn: async () => {
-      const response = await fetch("/api/upi/generate-qr", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      const response = orderId
+        ? await apiRequest("POST", `/api/orders/${orderId}/upi-intent`)
+        : await apiRequest("POST", "/api/upi/generate-qr", {
           amount: parseFloat(customAmount),
           description,
-        }),
-      });
-      if (!response.ok) throw new Error("Failed to generate UPI QR");
+        });
       return response.json();
     },
   });
 
+  // Encoded on the device, so the QR is available offline
+  const qrCodeUrl = useMemo(() => upiData?.qrData ? generateUPIQRCode(upiData.qrData) : "", [upiData]);
+  const payableAmount = orderId ? upiData?.amount : parseFloat(customAmount) || undefined;
+  const secondsLeft = upiData?.expiresAt
+    ? Math.max(0, Math.floor((new Date(upiData.expiresAt).getTime() - now) / 1000))
+    : null;
+
   useEffect(() => {
-    if (upiData?.qrData) {
-      // Generate QR code using a QR code library or service
-      generateUPIQRCode(upiData.qrData).then(setQrCodeUrl);
-    }
-  }, [upiData]);
+    if (!open || !upiData?.expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open, upiData?.expiresAt]);
+
+  useEffect(() => {
+    if (open) setUtr("");
+  }, [open]);
+
+  const markPaidMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/upi-payment`, {
+        utr: utr.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      handlePaymentComplete();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to mark payment", description: error.message, variant: "destructive" });
+    },
+  });
 
   const handleAmountChange = (value: string) => {
     setCustomAmount(value);
@@ -78,7 +111,7 @@ export default function UPIQRModal({
       if (navigator.share) {
         await navigator.share({
           title: `Payment to ${upiData.shopName}`,
-          text: `Pay ₹${formatUPIAmount(parseFloat(customAmount))} to ${upiData.shopName}`,
+          text: `Pay ₹${formatUPIAmount(payableAmount ?? 0)} to ${upiData.shopName}`,
           url: upiData.upiUrl,
         });
       } else {
@@ -151,7 +184,7 @@ export default function UPIQRModal({
               <div class="shop-name">${upiData?.shopName}</div>
               ${upiData?.shopNameHindi ? `<div class="shop-name-hindi">${upiData.shopNameHindi}</div>` : ''}
               <div class="upi-id">${upiData?.upiId}</div>
-              ${customAmount ? `<div class="amount">₹${formatUPIAmount(parseFloat(customAmount))}</div>` : ''}
+              ${payableAmount ? `<div class="amount">₹${formatUPIAmount(payableAmount)}</div>` : ''}
               <div style="margin-top: 10px; font-size: 14px;">Scan to pay with any UPI app</div>
             </div>
           </body>
@@ -190,31 +223,34 @@ export default function UPIQRModal({
         </DialogHeader>
 
         <div className="space-y-4">
-          {/* Amount Input */}
-          <div className="space-y-2">
-            <Label htmlFor="amount">Amount (₹)</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              value={customAmount}
-              onChange={(e) => handleAmountChange(e.target.value)}
-              placeholder="Enter amount"
-              data-testid="input-upi-amount"
-            />
-          </div>
+          {/* Amount and description are fixed by the order */}
+          {!orderId && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount (₹)</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  value={customAmount}
+                  onChange={(e) => handleAmountChange(e.target.value)}
+                  placeholder="Enter amount"
+                  data-testid="input-upi-amount"
+                />
+              </div>
 
-          {/* Description Input */}
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Input
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Payment description"
-              data-testid="input-upi-description"
-            />
-          </div>
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Payment description"
+                  data-testid="input-upi-description"
+                />
+              </div>
+            </>
+          )}
 
           {/* QR Code Display */}
           {isLoading ? (
@@ -269,11 +305,34 @@ export default function UPIQRModal({
                         )}
                       </Button>
                     </div>
-                    {customAmount && (
+                    {payableAmount && (
                       <p className="text-xl font-bold text-blue-600" data-testid="text-payment-amount">
-                        ₹{formatUPIAmount(parseFloat(customAmount))}
+                        ₹{formatUPIAmount(payableAmount)}
                       </p>
                     )}
+                    {upiData.orderNumber && (
+                      <p className="text-xs text-gray-500" data-testid="text-upi-reference">
+                        Order {upiData.orderNumber} • Ref {upiData.transactionRef}
+                      </p>
+                    )}
+                    {secondsLeft !== null && (
+                      secondsLeft > 0 ? (
+                        <p className="text-xs text-gray-500" data-testid="text-qr-expiry">
+                          Expires in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, "0")}
+                        </p>
+                      ) : (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => refetch()}
+                          data-testid="button-refresh-qr"
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          QR expired - generate again
+                        </Button>
+                      )
+                    )}
                   </div>
 
                   {/* Action Buttons */}
@@ -300,15 +359,28 @@ export default function UPIQRModal({
                     </Button>
                   </div>
 
-                  {/* Payment Complete Button */}
+                  {/* Payment Complete */}
                   {orderId && (
-                    <Button
-                      className="w-full"
-                      onClick={handlePaymentComplete}
-                      data-testid="button-payment-complete"
-                    >
-                      Mark Payment Complete
-                    </Button>
+                    <div className="space-y-2 text-left">
+                      <Label htmlFor="utr">UTR / UPI Ref No.</Label>
+                      <Input
+                        id="utr"
+                        value={utr}
+                        onChange={(e) => setUtr(e.target.value)}
+                        placeholder="12-digit number from the customer's app"
+                        data-testid="input-upi-utr"
+                      />
+                      <Button
+                        className="w-full"
+                        onClick={() => markPaidMutation.mutate()}
+                        disabled={markPaidMutation.isPending}
+                        data-testid="button-payment-complete"
+                      >
+                        {markPaidMutation.isPending
+                          ? "Saving..."
+                          : utr.trim() ? "Mark Paid" : "Mark Paid (verify UTR later)"}
+                      </Button>
+                    </div>
                   )}
 
                   <p className="text-xs text-gray-500 mt-2">
@@ -317,7 +389,7 @@ export default function UPIQRModal({
                 </div>
               </CardContent>
             </Card>
-          ) : customAmount && parseFloat(customAmount) > 0 ? (
+          ) : orderId || (customAmount && parseFloat(customAmount) > 0) ? (
             <Card>
               <CardContent className="p-6 text-center">
                 <p className="text-gray-600">Failed to generate QR code</p>
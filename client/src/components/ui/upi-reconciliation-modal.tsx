@@ -0,0 +1,269 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileUp, Landmark } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface StatementEntry {
+  id: string;
+  utr: string;
+  amount: string;
+  receivedAt: string;
+  payerVpa?: string;
+  reference?: string;
+  status: string;
+}
+
+interface UnreconciledOrder {
+  order: {
+    id: string;
+    orderNumber: string;
+    totalAmount: string;
+    createdAt: string;
+  };
+  balanceDue: string;
+  unverifiedSales: string[];
+}
+
+interface ImportResult {
+  imported: number;
+  duplicates: number;
+  matched: StatementEntry[];
+  unmatched: StatementEntry[];
+  errors: string[];
+}
+
+interface UPIReconciliationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNMATCHED_ENTRIES_KEY = ["/api/reconciliation/entries?status=unmatched"];
+const UNRECONCILED_ORDERS_KEY = ["/api/reconciliation/orders"];
+
+export default function UPIReconciliationModal({ open, onOpenChange }: UPIReconciliationModalProps) {
+  const [lastImport, setLastImport] = useState<ImportResult | null>(null);
+  const [selectedOrders, setSelectedOrders] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entries, isLoading: entriesLoading } = useQuery<StatementEntry[]>({
+    queryKey: UNMATCHED_ENTRIES_KEY,
+    enabled: open,
+  });
+
+  const { data: unreconciledOrders } = useQuery<UnreconciledOrder[]>({
+    queryKey: UNRECONCILED_ORDERS_KEY,
+    enabled: open,
+  });
+
+  const refreshAfterMatching = () => {
+    queryClient.invalidateQueries({ queryKey: UNMATCHED_ENTRIES_KEY });
+    queryClient.invalidateQueries({ queryKey: UNRECONCILED_ORDERS_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await apiRequest("POST", "/api/reconciliation/imports", { csv });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      refreshAfterMatching();
+      setLastImport(result);
+      toast({
+        title: "Statement imported",
+        description: `${result.matched.length} payment${result.matched.length === 1 ? "" : "s"} matched automatically`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to import statement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async ({ entryId, orderId }: { entryId: string; orderId: string }) => {
+      const response = await apiRequest("POST", `/api/reconciliation/entries/${entryId}/match`, { orderId });
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshAfterMatching();
+      toast({ title: "Payment matched to order" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to match payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("POST", `/api/reconciliation/entries/${entryId}/ignore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: UNMATCHED_ENTRIES_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to ignore entry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    importMutation.mutate(await file.text());
+  };
+
+  const formatCurrency = (value: string | number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(typeof value === "string" ? parseFloat(value) : value);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  // Orders whose open amount equals the credit are listed first
+  const getOrderOptions = (entry: StatementEntry) => {
+    const amount = parseFloat(entry.amount);
+    const fits = (candidate: UnreconciledOrder) =>
+      [candidate.balanceDue, ...candidate.unverifiedSales].some((open) => Math.abs(parseFloat(open) - amount) < 0.005);
+    return [...(unreconciledOrders ?? [])].sort((a, b) => Number(fits(b)) - Number(fits(a)));
+  };
+
+  const describeOpenAmount = (candidate: UnreconciledOrder) => {
+    if (parseFloat(candidate.balanceDue) > 0) return `${formatCurrency(candidate.balanceDue)} due`;
+    return `${candidate.unverifiedSales.map(formatCurrency).join(" + ")} without UTR`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto" data-testid="upi-reconciliation-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Landmark className="h-5 w-5 mr-2" />
+            UPI Reconciliation
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Import a bank or UPI app statement (CSV with UTR, amount and date) to match credits to orders.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+              data-testid="input-statement-file"
+            />
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-statement"
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import Statement"}
+            </Button>
+
+            {lastImport && (
+              <div className="p-2 bg-gray-50 rounded text-sm space-y-1" data-testid="statement-import-summary">
+                <p>
+                  {lastImport.imported} new credit{lastImport.imported === 1 ? "" : "s"}, {lastImport.matched.length} matched
+                  {lastImport.duplicates > 0 && `, ${lastImport.duplicates} already imported`}
+                </p>
+                {lastImport.errors.slice(0, 5).map((error) => (
+                  <p key={error} className="text-xs text-red-600">{error}</p>
+                ))}
+                {lastImport.errors.length > 5 && (
+                  <p className="text-xs text-red-600">and {lastImport.errors.length - 5} more rows skipped</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t pt-3">
+            <Label>Unmatched Credits</Label>
+            {entriesLoading ? (
+              [...Array(2)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded animate-pulse"></div>
+              ))
+            ) : entries && entries.length > 0 ? (
+              entries.map((entry) => (
+                <div key={entry.id} className="p-2 bg-gray-50 rounded space-y-2 text-sm" data-testid={`statement-entry-${entry.id}`}>
+                  <div className="flex justify-between">
+                    <div>
+                      <p className="font-medium">UTR {entry.utr}</p>
+                      <p className="text-xs text-gray-600">
+                        {formatDate(entry.receivedAt)}
+                        {entry.payerVpa && ` • ${entry.payerVpa}`}
+                      </p>
+                      {entry.reference && <p className="text-xs text-gray-500">{entry.reference}</p>}
+                    </div>
+                    <p className="font-medium text-green-600">{formatCurrency(entry.amount)}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Select
+                      value={selectedOrders[entry.id] ?? ""}
+                      onValueChange={(orderId) => setSelectedOrders((current) => ({ ...current, [entry.id]: orderId }))}
+                    >
+                      <SelectTrigger className="flex-1" data-testid={`select-match-order-${entry.id}`}>
+                        <SelectValue placeholder="Select order" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getOrderOptions(entry).map((candidate) => (
+                          <SelectItem key={candidate.order.id} value={candidate.order.id}>
+                            {candidate.order.orderNumber} • {describeOpenAmount(candidate)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={() => matchMutation.mutate({ entryId: entry.id, orderId: selectedOrders[entry.id] })}
+                      disabled={!selectedOrders[entry.id] || matchMutation.isPending}
+                      data-testid={`button-match-entry-${entry.id}`}
+                    >
+                      Match
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => ignoreMutation.mutate(entry.id)}
+                      disabled={ignoreMutation.isPending}
+                      data-testid={`button-ignore-entry-${entry.id}`}
+                    >
+                      Ignore
+                    </Button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-center text-gray-600 py-4">All imported credits are matched</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
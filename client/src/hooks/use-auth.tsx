@@ -0,0 +1,119 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { resetCatalogSync } from "@/lib/catalog-sync";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  shopName: string;
+  shopNameHindi?: string;
+  ownerName: string;
+  phone: string;
+  upiId?: string;
+  address?: string;
+  gstNumber?: string;
+  state?: string;
+  invoicePrefix?: string;
+  offlineStockPolicy?: string;
+  language?: string;
+}
+
+export interface LoginData {
+  username: string;
+  password: string;
+}
+
+export interface RegisterData extends LoginData {
+  shopName: string;
+  shopNameHindi?: string;
+  ownerName: string;
+  phone: string;
+  upiId?: string;
+  gstNumber?: string;
+  state?: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  registerMutation: UseMutationResult<AuthUser, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authUser: AuthUser) => {
+    // Anything cached belongs to the previous session
+    queryClient.clear();
+    resetCatalogSync().catch((error) => console.error("Failed to reset catalogue sync:", error));
+    queryClient.setQueryData(["/api/user"], authUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: () => {
+      toast({ title: "Invalid username or password", variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const response = await apiRequest("POST", "/api/register", data);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: () => {
+      toast({ title: "Failed to create account", variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: () => {
+      toast({ title: "Failed to log out", variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
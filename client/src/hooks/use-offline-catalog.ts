@@ -0,0 +1,42 @@
+import { useState, useEffect } from "react";
+import { getCachedCustomers, getOfflineProducts, getQueuedOrders, type CachedCustomer, type CachedProduct } from "@/lib/offline-storage";
+import { subscribeToOfflineQueue } from "@/lib/offline-sync";
+
+// Products and customers as last fetched, read from IndexedDB while offline,
+// plus how many sales are waiting to sync. Reloads whenever the queue changes
+// so stock reflects sales made on this device.
+export function useOfflineCatalog(isOffline: boolean) {
+  const [products, setProducts] = useState<CachedProduct[] | undefined>(undefined);
+  const [customers, setCustomers] = useState<CachedCustomer[] | undefined>(undefined);
+  const [queuedSalesCount, setQueuedSalesCount] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+
+    const load = async () => {
+      try {
+        const pending = await getQueuedOrders("pending");
+        if (!active) return;
+        setQueuedSalesCount(pending.length);
+
+        if (isOffline) {
+          const [cachedProducts, cachedCustomers] = await Promise.all([getOfflineProducts(), getCachedCustomers()]);
+          if (!active) return;
+          setProducts(cachedProducts);
+          setCustomers(cachedCustomers);
+        }
+      } catch (error) {
+        console.error("Failed to load offline catalog:", error);
+      }
+    };
+
+    load();
+    const unsubscribe = subscribeToOfflineQueue(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [isOffline]);
+
+  return { products, customers, queuedSalesCount };
+}
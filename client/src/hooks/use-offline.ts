@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { flushOfflineQueue } from "@/lib/offline-sync";
 
 export function useOffline() {
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
@@ -17,6 +18,11 @@ export function useOffline() {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
+    // Sales queued in an earlier session are picked up on load
+    if (navigator.onLine) {
+      syncOfflineData();
+    }
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
@@ -25,29 +31,11 @@ export function useOffline() {
 
   const syncOfflineData = async () => {
     try {
-      // Get offline data from IndexedDB
-      const { getOfflineTransactions, clearOfflineTransactions } = await import("@/lib/offline-storage");
-      const offlineTransactions = await getOfflineTransactions();
-      
-      // Sync each transaction
-      for (const transaction of offlineTransactions) {
-        try {
-          await fetch("/api/transactions", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(transaction),
-          });
-        } catch (error) {
-          console.error("Failed to sync transaction:", error);
-          // Keep failed transactions for retry
-          continue;
-        }
+      const summary = await flushOfflineQueue();
+      if (summary.synced > 0 || summary.rejected > 0) {
+        console.log(`Synced ${summary.synced} offline orders, ${summary.rejected} rejected, ${summary.pending} pending`);
       }
-      
-      // Clear successfully synced transactions
-      await clearOfflineTransactions();
-      
-      console.log(`Synced ${offlineTransactions.length} offline transactions`);
+      return summary;
     } catch (error) {
       console.error("Failed to sync offline data:", error);
     }
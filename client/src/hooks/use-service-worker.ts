@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { notifyOfflineQueueChanged, type SyncSummary } from "@/lib/offline-sync";
+
+// Registers the service worker and reports when a new version is waiting.
+// A background sync run by the worker is passed on to the queue listeners.
+export function useServiceWorker() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError: (error) => console.error("Service worker registration failed:", error),
+  });
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const handleMessage = (event: MessageEvent<{ type?: string; summary?: SyncSummary }>) => {
+      if (event.data?.type === "offline-queue-synced") {
+        notifyOfflineQueueChanged(event.data.summary);
+      }
+    };
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, []);
+
+  return {
+    updateAvailable: needRefresh,
+    updateApp: () => updateServiceWorker(true),
+    dismissUpdate: () => setNeedRefresh(false),
+  };
+}
@@ -0,0 +1,48 @@
+// Keeps the offline copy of products, categories and customers current by
+// asking the server only for what changed since the last sync. The first sync
+// on a device, or after a different shop signs in, downloads everything.
+
+import { applyCatalogChanges, clearCatalogCursor, getCatalogCursor, type CachedCatalogChanges } from "./offline-storage";
+
+let inFlight: Promise<void> | null = null;
+let rerun = false;
+let forceFull = false;
+
+async function runCatalogSync(): Promise<void> {
+  const full = forceFull;
+  const cursor = full ? undefined : await getCatalogCursor();
+  const response = await fetch(`/api/sync/changes${cursor ? `?since=${encodeURIComponent(cursor)}` : ""}`, {
+    credentials: "include",
+  });
+  if (response.status === 401) return;
+  if (!response.ok) {
+    throw new Error(`Catalogue sync failed: ${response.status}`);
+  }
+
+  await applyCatalogChanges(await response.json() as CachedCatalogChanges);
+  if (full) forceFull = false;
+}
+
+// Only one sync runs at a time; a call arriving meanwhile runs another one
+// afterwards so changes made during the first aren't missed
+export function syncCatalog(): Promise<void> {
+  if (!navigator.onLine) return Promise.resolve();
+  if (inFlight) {
+    rerun = true;
+    return inFlight;
+  }
+  inFlight = runCatalogSync().finally(() => {
+    inFlight = null;
+    if (rerun) {
+      rerun = false;
+      syncCatalog().catch((error) => console.error("Failed to sync catalogue:", error));
+    }
+  });
+  return inFlight;
+}
+
+// For a new session: the cache may hold another shop's catalogue
+export async function resetCatalogSync(): Promise<void> {
+  forceFull = true;
+  await clearCatalogCursor();
+}
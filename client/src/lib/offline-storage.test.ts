@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import type { CachedProduct, QueuedOrder } from "./offline-storage";
+
+const DB_NAME = "RetailSahayakDB";
+
+// The stores each version of the app created, as devices still have them
+const SHIPPED_VERSIONS: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    const transactionStore = db.createObjectStore("offline_transactions", { keyPath: "id" });
+    transactionStore.createIndex("timestamp", "timestamp", { unique: false });
+    transactionStore.createIndex("synced", "synced", { unique: false });
+    db.createObjectStore("products_cache", { keyPath: "id" }).createIndex("name", "name", { unique: false });
+    db.createObjectStore("customers_cache", { keyPath: "id" }).createIndex("phone", "phone", { unique: false });
+  },
+  (db) => {
+    const orderStore = db.createObjectStore("offline_orders", { keyPath: "clientId" });
+    orderStore.createIndex("status", "status", { unique: false });
+    orderStore.createIndex("capturedAt", "capturedAt", { unique: false });
+  },
+  (db) => {
+    db.createObjectStore("sync_meta", { keyPath: "key" });
+  },
+];
+
+const CURRENT_STORES = [
+  "categories_cache",
+  "customers_cache",
+  "offline_orders",
+  "offline_transactions",
+  "products_cache",
+  "sync_meta",
+];
+
+const product = { id: "p1", name: "Rice", price: "50.00", stock: "10.000" } as CachedProduct;
+
+const queuedOrder: QueuedOrder = {
+  clientId: "sale-0001",
+  capturedAt: 1_000,
+  order: { totalAmount: "100.00", paymentMethod: "cash" },
+  items: [{ productId: "p1", name: "Rice", quantity: 2, unitPrice: 50 }],
+  tenders: [{ paymentMethod: "cash", amount: 100 }],
+  status: "pending",
+  attempts: 0,
+  nextAttemptAt: 1_000,
+};
+
+function openDatabase(version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+  });
+}
+
+// A database left behind by the app at `version`, holding `records` by store
+async function createShippedDatabase(version: number, records: Record<string, object[]> = {}) {
+  const db = await openDatabase(version, (db) => {
+    SHIPPED_VERSIONS.slice(0, version).forEach((createStores) => createStores(db));
+  });
+  for (const [storeName, values] of Object.entries(records)) {
+    const tx = db.transaction([storeName], "readwrite");
+    values.forEach((value) => tx.objectStore(storeName).put(value));
+    await new Promise((resolve) => { tx.oncomplete = resolve; });
+  }
+  db.close();
+}
+
+// Each test gets an empty IndexedDB and a fresh copy of the module, so the
+// upgrade runs when the module first opens the database
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("IDBKeyRange", IDBKeyRange);
+});
+
+describe("RetailSahayakDB migrations", () => {
+  it.each([0, 1, 2, 3])("upgrades a version %i database to the current stores", async (version) => {
+    if (version > 0) await createShippedDatabase(version);
+
+    const offlineStorage = await import("./offline-storage");
+    expect(await offlineStorage.getCachedCategories()).toEqual([]);
+
+    const db = await openDatabase();
+    expect(db.version).toBe(SHIPPED_VERSIONS.length + 1);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(CURRENT_STORES);
+    const orderIndexes = db.transaction(["offline_orders"]).objectStore("offline_orders").indexNames;
+    expect(Array.from(orderIndexes).sort()).toEqual(["capturedAt", "status"]);
+  });
+
+  it("keeps what a version 1 database had queued and cached", async () => {
+    await createShippedDatabase(1, {
+      offline_transactions: [{ id: "t1", type: "sale", amount: "50.00", paymentMethod: "cash", timestamp: 1, synced: false }],
+      products_cache: [product],
+    });
+
+    const offlineStorage = await import("./offline-storage");
+    expect(await offlineStorage.getOfflineTransactions()).toEqual([expect.objectContaining({ id: "t1", amount: "50.00" })]);
+    expect(await offlineStorage.getCachedProducts()).toEqual([product]);
+    expect(await offlineStorage.getCatalogCursor()).toBeUndefined();
+
+    // The stores added since then work too
+    await offlineStorage.queueOfflineOrder({ order: queuedOrder.order, items: queuedOrder.items });
+    expect(await offlineStorage.getQueuedOrders("pending")).toHaveLength(1);
+    expect((await offlineStorage.getOfflineProducts())[0].stock).toBe("8.000");
+  });
+
+  it("keeps the sales a version 2 database had queued", async () => {
+    await createShippedDatabase(2, { products_cache: [product], offline_orders: [queuedOrder] });
+
+    const offlineStorage = await import("./offline-storage");
+    expect(await offlineStorage.getQueuedOrders("pending")).toEqual([queuedOrder]);
+    expect((await offlineStorage.getOfflineProducts())[0].stock).toBe("8.000");
+  });
+
+  it("keeps the catalogue cursor of a version 3 database", async () => {
+    await createShippedDatabase(3, { sync_meta: [{ key: "catalogCursor", value: "2026-10-01T00:00:00.000Z", updatedAt: 1 }] });
+
+    const offlineStorage = await import("./offline-storage");
+    expect(await offlineStorage.getCatalogCursor()).toBe("2026-10-01T00:00:00.000Z");
+  });
+});
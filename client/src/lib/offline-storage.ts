@@ -1,10 +1,15 @@
 // IndexedDB utilities for offline storage
 
+import type { Category, CreateOrder, Customer, OrderTender, Product } from "@shared/schema";
+
 const DB_NAME = "RetailSahayakDB";
-const DB_VERSION = 1;
 const TRANSACTIONS_STORE = "offline_transactions";
 const PRODUCTS_STORE = "products_cache";
 const CUSTOMERS_STORE = "customers_cache";
+const CATEGORIES_STORE = "categories_cache";
+const ORDERS_QUEUE_STORE = "offline_orders";
+const SYNC_META_STORE = "sync_meta";
+const CATALOG_CURSOR_KEY = "catalogCursor";
 
 interface OfflineTransaction {
   id: string;
@@ -17,6 +22,103 @@ interface OfflineTransaction {
   synced: boolean;
 }
 
+// A record as the API sends it: timestamps arrive as ISO strings
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+export type CachedProduct = Serialized<Product>;
+export type CachedCustomer = Serialized<Customer>;
+export type CachedCategory = Serialized<Category>;
+
+// GET /api/sync/changes as it arrives
+export interface CachedCatalogChanges {
+  cursor: string;
+  full: boolean;
+  products: { updated: CachedProduct[]; deleted: string[] };
+  categories: { updated: CachedCategory[]; deleted: string[] };
+  customers: { updated: CachedCustomer[]; deleted: string[] };
+}
+
+// pending: waiting to sync (attempts/nextAttemptAt drive the backoff);
+// synced: the server has the order; held: the server is waiting for the
+// owner to review a stock or price conflict; rejected: the server refused it
+// for good
+export type QueuedOrderStatus = "pending" | "synced" | "held" | "rejected";
+
+// A sale captured without a connection, with everything needed to create the
+// order later. clientId is generated here and is the sync idempotency key.
+export interface QueuedOrder {
+  clientId: string;
+  capturedAt: number;
+  order: CreateOrder;
+  items: Array<{ productId: string; name: string; quantity: number; unitPrice: number }>;
+  tenders?: OrderTender[];
+  status: QueuedOrderStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  orderId?: string;
+  orderNumber?: string;
+  syncedAt?: number;
+}
+
+// Small named values the sync code keeps between runs, such as cursors
+export interface SyncMetadata {
+  key: string;
+  value: string | number;
+  updatedAt: number;
+}
+
+// What each object store holds, so reads and writes are typed by store name
+interface OfflineStores {
+  [TRANSACTIONS_STORE]: OfflineTransaction;
+  [PRODUCTS_STORE]: CachedProduct;
+  [CUSTOMERS_STORE]: CachedCustomer;
+  [CATEGORIES_STORE]: CachedCategory;
+  [ORDERS_QUEUE_STORE]: QueuedOrder;
+  [SYNC_META_STORE]: SyncMetadata;
+}
+
+type StoreName = keyof OfflineStores;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Migration N upgrades the database to version N; the database version is
+// the length of this list. A device runs only the migrations it has not seen,
+// so a shipped migration must never change: add a new one at the end. The
+// version change transaction is passed in for migrations that rewrite records.
+const MIGRATIONS: Migration[] = [
+  // 1: offline transactions and the catalogue caches
+  (db) => {
+    const transactionStore = db.createObjectStore(TRANSACTIONS_STORE, { keyPath: "id" });
+    transactionStore.createIndex("timestamp", "timestamp", { unique: false });
+    transactionStore.createIndex("synced", "synced", { unique: false });
+
+    const productStore = db.createObjectStore(PRODUCTS_STORE, { keyPath: "id" });
+    productStore.createIndex("name", "name", { unique: false });
+
+    const customerStore = db.createObjectStore(CUSTOMERS_STORE, { keyPath: "id" });
+    customerStore.createIndex("phone", "phone", { unique: false });
+  },
+  // 2: offline orders queue
+  (db) => {
+    const orderStore = db.createObjectStore(ORDERS_QUEUE_STORE, { keyPath: "clientId" });
+    orderStore.createIndex("status", "status", { unique: false });
+    orderStore.createIndex("capturedAt", "capturedAt", { unique: false });
+  },
+  // 3: sync metadata, such as the catalogue cursor
+  (db) => {
+    db.createObjectStore(SYNC_META_STORE, { keyPath: "key" });
+  },
+  // 4: categories cache, kept with products and customers by the delta sync
+  (db) => {
+    db.createObjectStore(CATEGORIES_STORE, { keyPath: "id" });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
 let dbInstance: IDBDatabase | null = null;
 
 const openDB = (): Promise<IDBDatabase> => {
@@ -31,40 +133,71 @@ const openDB = (): Promise<IDBDatabase> => {
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
       dbInstance = request.result;
+      // A newer version of the app opened in another tab: step aside so its
+      // upgrade isn't blocked, and reopen on the next call
+      dbInstance.onversionchange = () => {
+        dbInstance?.close();
+        dbInstance = null;
+      };
       resolve(dbInstance);
     };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      // Create offline transactions store
-      if (!db.objectStoreNames.contains(TRANSACTIONS_STORE)) {
-        const transactionStore = db.createObjectStore(TRANSACTIONS_STORE, { keyPath: "id" });
-        transactionStore.createIndex("timestamp", "timestamp", { unique: false });
-        transactionStore.createIndex("synced", "synced", { unique: false });
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version - 1](db, tx);
       }
+    };
+  });
+};
 
-      // Create products cache store
-      if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
-        const productStore = db.createObjectStore(PRODUCTS_STORE, { keyPath: "id" });
-        productStore.createIndex("name", "name", { unique: false });
-      }
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+};
 
-      // Create customers cache store
-      if (!db.objectStoreNames.contains(CUSTOMERS_STORE)) {
-        const customerStore = db.createObjectStore(CUSTOMERS_STORE, { keyPath: "id" });
-        customerStore.createIndex("phone", "phone", { unique: false });
-      }
-    };
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
   });
 };
 
-// Transaction functions
-export const saveOfflineTransaction = async (transaction: Omit<OfflineTransaction, "id" | "timestamp" | "synced">): Promise<void> => {
+// Every record in a store, or those whose index matches a key
+const getAllRecords = async <S extends StoreName>(
+  storeName: S,
+  index?: { name: string; key: IDBValidKey },
+): Promise<OfflineStores[S][]> => {
   const db = await openDB();
-  const tx = db.transaction([TRANSACTIONS_STORE], "readwrite");
-  const store = tx.objectStore(TRANSACTIONS_STORE);
+  const store = db.transaction([storeName], "readonly").objectStore(storeName);
+  const request = index ? store.index(index.name).getAll(IDBKeyRange.only(index.key)) : store.getAll();
+  return requestResult(request);
+};
 
+const putRecords = async <S extends StoreName>(
+  storeName: S,
+  records: OfflineStores[S][],
+  options: { replaceAll?: boolean } = {},
+): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([storeName], "readwrite");
+  const store = tx.objectStore(storeName);
+
+  if (options.replaceAll) {
+    store.clear();
+  }
+  for (const record of records) {
+    store.put(record);
+  }
+  return transactionDone(tx);
+};
+
+// Transaction functions
+export const saveOfflineTransaction = async (transaction: Omit<OfflineTransaction, "id" | "timestamp" | "synced">): Promise<void> => {
   const offlineTransaction: OfflineTransaction = {
     ...transaction,
     id: `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -72,24 +205,14 @@ export const saveOfflineTransaction = async (transaction: Omit<OfflineTransactio
     synced: false,
   };
 
-  await store.add(offlineTransaction);
-  return new Promise<void>((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+  return putRecords(TRANSACTIONS_STORE, [offlineTransaction]);
 };
 
+// Booleans are not valid IndexedDB keys, so the synced index never matches
+// anything; the flag is filtered here instead
 export const getOfflineTransactions = async (): Promise<OfflineTransaction[]> => {
-  const db = await openDB();
-  const tx = db.transaction([TRANSACTIONS_STORE], "readonly");
-  const store = tx.objectStore(TRANSACTIONS_STORE);
-  const index = store.index("synced");
-
-  return new Promise((resolve, reject) => {
-    const request = index.getAll(IDBKeyRange.only(false)); // Get unsynced transactions
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-  });
+  const transactions = await getAllRecords(TRANSACTIONS_STORE);
+  return transactions.filter((transaction) => !transaction.synced);
 };
 
 export const markTransactionSynced = async (transactionId: string): Promise<void> => {
@@ -97,101 +220,148 @@ export const markTransactionSynced = async (transactionId: string): Promise<void
   const tx = db.transaction([TRANSACTIONS_STORE], "readwrite");
   const store = tx.objectStore(TRANSACTIONS_STORE);
 
-  return new Promise<void>((resolve, reject) => {
-    const getRequest = store.get(transactionId);
-    getRequest.onsuccess = () => {
-      const transaction = getRequest.result;
-      if (transaction) {
-        transaction.synced = true;
-        const putRequest = store.put(transaction);
-        putRequest.onsuccess = () => {
-          tx.oncomplete = () => resolve();
-          tx.onerror = () => reject(tx.error);
-        };
-        putRequest.onerror = () => reject(putRequest.error);
-      } else {
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      }
-    };
-    getRequest.onerror = () => reject(getRequest.error);
-  });
+  const transaction: OfflineTransaction | undefined = await requestResult(store.get(transactionId));
+  if (transaction) {
+    store.put({ ...transaction, synced: true });
+  }
+  return transactionDone(tx);
 };
 
 export const clearOfflineTransactions = async (): Promise<void> => {
   const db = await openDB();
   const tx = db.transaction([TRANSACTIONS_STORE], "readwrite");
-  const store = tx.objectStore(TRANSACTIONS_STORE);
-  const index = store.index("synced");
-
-  return new Promise<void>((resolve, reject) => {
-    const request = index.openCursor(IDBKeyRange.only(true));
-    request.onsuccess = (event) => {
-      const cursor = (event.target as IDBRequest).result;
-      if (cursor) {
-        store.delete(cursor.primaryKey);
-        cursor.continue();
-      }
-    };
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+  const request = tx.objectStore(TRANSACTIONS_STORE).openCursor();
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if ((cursor.value as OfflineTransaction).synced) {
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+  return transactionDone(tx);
+};
+
+// Offline order queue functions
+// A sale that already tried the server passes the clientId it was sent with
+export const queueOfflineOrder = async (
+  sale: Pick<QueuedOrder, "order" | "items" | "tenders"> & { clientId?: string },
+): Promise<QueuedOrder> => {
+  const now = Date.now();
+  const queuedOrder: QueuedOrder = {
+    ...sale,
+    clientId: sale.clientId ?? crypto.randomUUID(),
+    capturedAt: now,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await putRecords(ORDERS_QUEUE_STORE, [queuedOrder]);
+  return queuedOrder;
 };
 
-// Product cache functions
-export const cacheProducts = async (products: any[]): Promise<void> => {
+export const getQueuedOrders = async (status?: QueuedOrderStatus): Promise<QueuedOrder[]> => {
+  const queuedOrders = await getAllRecords(ORDERS_QUEUE_STORE, status && { name: "status", key: status });
+  return queuedOrders.sort((a, b) => a.capturedAt - b.capturedAt);
+};
+
+export const updateQueuedOrders = (queuedOrders: QueuedOrder[]): Promise<void> => {
+  return putRecords(ORDERS_QUEUE_STORE, queuedOrders);
+};
+
+// Synced orders are kept for a while so the device can still show them
+export const pruneSyncedOrders = async (syncedBefore: number): Promise<void> => {
   const db = await openDB();
-  const tx = db.transaction([PRODUCTS_STORE], "readwrite");
-  const store = tx.objectStore(PRODUCTS_STORE);
+  const tx = db.transaction([ORDERS_QUEUE_STORE], "readwrite");
+  const request = tx.objectStore(ORDERS_QUEUE_STORE).index("status").openCursor(IDBKeyRange.only("synced"));
 
-  await store.clear();
-  for (const product of products) {
-    await store.add(product);
-  }
-  return new Promise<void>((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if ((cursor.value as QueuedOrder).syncedAt! < syncedBefore) {
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+  return transactionDone(tx);
 };
 
-export const getCachedProducts = async (): Promise<any[]> => {
+// Sync metadata functions
+export const getSyncMetadata = async (key: string): Promise<SyncMetadata | undefined> => {
   const db = await openDB();
-  const tx = db.transaction([PRODUCTS_STORE], "readonly");
-  const store = tx.objectStore(PRODUCTS_STORE);
+  return requestResult(db.transaction([SYNC_META_STORE], "readonly").objectStore(SYNC_META_STORE).get(key));
+};
 
-  return new Promise((resolve, reject) => {
-    const request = store.getAll();
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-  });
+// Catalogue cache functions
+// Applies one response from the delta sync: a full one replaces the cache, a
+// delta upserts and deletes. The cursor is saved in the same transaction, so
+// it never gets ahead of the records.
+export const applyCatalogChanges = async (changes: CachedCatalogChanges): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([PRODUCTS_STORE, CATEGORIES_STORE, CUSTOMERS_STORE, SYNC_META_STORE], "readwrite");
+
+  const apply = <S extends typeof PRODUCTS_STORE | typeof CATEGORIES_STORE | typeof CUSTOMERS_STORE>(
+    storeName: S,
+    { updated, deleted }: { updated: OfflineStores[S][]; deleted: string[] },
+  ) => {
+    const store = tx.objectStore(storeName);
+    if (changes.full) {
+      store.clear();
+    }
+    updated.forEach((record) => store.put(record));
+    deleted.forEach((id) => store.delete(id));
+  };
+
+  apply(PRODUCTS_STORE, changes.products);
+  apply(CATEGORIES_STORE, changes.categories);
+  apply(CUSTOMERS_STORE, changes.customers);
+  const cursor: SyncMetadata = { key: CATALOG_CURSOR_KEY, value: changes.cursor, updatedAt: Date.now() };
+  tx.objectStore(SYNC_META_STORE).put(cursor);
+  return transactionDone(tx);
 };
 
-// Customer cache functions
-export const cacheCustomers = async (customers: any[]): Promise<void> => {
+export const getCatalogCursor = async (): Promise<string | undefined> => {
+  const cursor = await getSyncMetadata(CATALOG_CURSOR_KEY);
+  return cursor ? String(cursor.value) : undefined;
+};
+
+// The next sync then downloads the whole catalogue again
+export const clearCatalogCursor = async (): Promise<void> => {
   const db = await openDB();
-  const tx = db.transaction([CUSTOMERS_STORE], "readwrite");
-  const store = tx.objectStore(CUSTOMERS_STORE);
+  const tx = db.transaction([SYNC_META_STORE], "readwrite");
+  tx.objectStore(SYNC_META_STORE).delete(CATALOG_CURSOR_KEY);
+  return transactionDone(tx);
+};
 
-  await store.clear();
-  for (const customer of customers) {
-    await store.add(customer);
+export const getCachedProducts = (): Promise<CachedProduct[]> => {
+  return getAllRecords(PRODUCTS_STORE);
+};
+
+// Cached products less what the sales still waiting to sync have sold, which
+// is the stock this device can sell from while offline
+export const getOfflineProducts = async (): Promise<CachedProduct[]> => {
+  const [products, queuedOrders] = await Promise.all([getCachedProducts(), getQueuedOrders()]);
+  const sold = new Map<string, number>();
+  for (const queuedOrder of queuedOrders) {
+    if (queuedOrder.status !== "pending" && queuedOrder.status !== "held") continue;
+    for (const item of queuedOrder.items) {
+      sold.set(item.productId, (sold.get(item.productId) ?? 0) + item.quantity);
+    }
   }
-  return new Promise<void>((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+
+  return products.map((product) => sold.has(product.id)
+    ? { ...product, stock: (parseFloat(product.stock) - sold.get(product.id)!).toFixed(3) }
+    : product
+  );
 };
 
-export const getCachedCustomers = async (): Promise<any[]> => {
-  const db = await openDB();
-  const tx = db.transaction([CUSTOMERS_STORE], "readonly");
-  const store = tx.objectStore(CUSTOMERS_STORE);
+export const getCachedCategories = (): Promise<CachedCategory[]> => {
+  return getAllRecords(CATEGORIES_STORE);
+};
 
-  return new Promise((resolve, reject) => {
-    const request = store.getAll();
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-  });
+export const getCachedCustomers = (): Promise<CachedCustomer[]> => {
+  return getAllRecords(CUSTOMERS_STORE);
 };
 
 // Utility function to check if offline storage is available
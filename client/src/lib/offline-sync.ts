@@ -0,0 +1,222 @@
+// Replays sales captured offline to the server. Every queued order carries
+// its own attempt count and next attempt time, so a failing record backs off
+// without holding up the rest, and the server's idempotency on clientId makes
+// a retry after a lost response harmless.
+//
+// Nothing here touches the page, so the service worker runs the same flush
+// from a background sync.
+
+import type { OfflineSyncResult } from "@shared/schema";
+import {
+  getOfflineTransactions,
+  markTransactionSynced,
+  clearOfflineTransactions,
+  getQueuedOrders,
+  updateQueuedOrders,
+  pruneSyncedOrders,
+  type QueuedOrder,
+} from "./offline-storage";
+
+const BATCH_SIZE = 20;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+const HELD_RECHECK_DELAY_MS = 15 * 60 * 1000;
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const OFFLINE_QUEUE_SYNC_TAG = "offline-orders";
+
+export interface SyncSummary {
+  synced: number;
+  held: number;
+  rejected: number;
+  pending: number;
+}
+
+let inFlight: Promise<SyncSummary> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(summary?: SyncSummary) => void>();
+
+// Called whenever the queue changes, e.g. to refresh a queued sales count.
+// After a flush the listener also gets what the flush settled.
+export function subscribeToOfflineQueue(listener: (summary?: SyncSummary) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyOfflineQueueChanged(summary?: SyncSummary) {
+  listeners.forEach((listener) => listener(summary));
+}
+
+// Asks the browser to wake the service worker and flush the queue once the
+// connection is back, even if the app has been closed by then
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const sync = (registration as { sync?: { register(tag: string): Promise<void> } } | undefined)?.sync;
+  try {
+    await sync?.register(OFFLINE_QUEUE_SYNC_TAG);
+  } catch {
+    // Background sync can be turned off; the queue still flushes in the app
+  }
+}
+
+// Exponential backoff with jitter: 5s, 10s, 20s ... capped at 15 minutes
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function scheduleRetry(queuedOrders: QueuedOrder[]) {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const pending = queuedOrders.filter((queuedOrder) => queuedOrder.status === "pending");
+  if (pending.length === 0) return;
+  const nextAttemptAt = Math.min(...pending.map((queuedOrder) => queuedOrder.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOfflineQueue();
+  }, Math.max(1000, nextAttemptAt - Date.now()));
+}
+
+function backOff(queuedOrder: QueuedOrder, error: string): QueuedOrder {
+  const attempts = queuedOrder.attempts + 1;
+  return { ...queuedOrder, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts), lastError: error };
+}
+
+function applyResult(queuedOrder: QueuedOrder, result: OfflineSyncResult | undefined): QueuedOrder {
+  if (!result) return backOff(queuedOrder, "No result from server");
+  switch (result.status) {
+    case "synced":
+    case "duplicate":
+      return {
+        ...queuedOrder,
+        status: "synced",
+        attempts: queuedOrder.attempts + 1,
+        orderId: result.orderId,
+        orderNumber: result.orderNumber,
+        syncedAt: Date.now(),
+        lastError: undefined,
+      };
+    // Asked about again later to learn whether the owner accepted it
+    case "held":
+      return {
+        ...queuedOrder,
+        status: "held",
+        attempts: queuedOrder.attempts + 1,
+        nextAttemptAt: Date.now() + HELD_RECHECK_DELAY_MS,
+        lastError: result.error,
+      };
+    case "rejected":
+      return { ...queuedOrder, status: "rejected", attempts: queuedOrder.attempts + 1, lastError: result.error };
+    default:
+      return backOff(queuedOrder, result.error || "Sync failed");
+  }
+}
+
+// Sends one batch; network errors and server errors leave the whole batch
+// to be retried later, a signed-out session leaves it untouched
+async function syncBatch(batch: QueuedOrder[]): Promise<QueuedOrder[]> {
+  let response: Response;
+  try {
+    response = await fetch("/api/sync/orders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        orders: batch.map(({ clientId, capturedAt, order, items, tenders }) => ({
+          clientId,
+          capturedAt: new Date(capturedAt).toISOString(),
+          order,
+          items: items.map(({ productId, quantity, unitPrice }) => ({ productId, quantity, unitPrice })),
+          tenders,
+        })),
+      }),
+    });
+  } catch {
+    return batch.map((queuedOrder) => backOff(queuedOrder, "Network error"));
+  }
+
+  if (response.status === 401) return batch;
+  if (!response.ok) {
+    return batch.map((queuedOrder) => backOff(queuedOrder, `Server error ${response.status}`));
+  }
+
+  const { results } = await response.json() as { results: OfflineSyncResult[] };
+  return batch.map((queuedOrder) =>
+    applyResult(queuedOrder, results.find((result) => result.clientId === queuedOrder.clientId))
+  );
+}
+
+// Legacy queue of bare transactions; a row is only marked synced once the
+// server has accepted it
+async function syncOfflineTransactions(): Promise<void> {
+  const offlineTransactions = await getOfflineTransactions();
+  for (const { id, timestamp, synced, ...transaction } of offlineTransactions) {
+    try {
+      const response = await fetch("/api/transactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...transaction, isOfflineTransaction: true }),
+      });
+      if (response.ok) {
+        await markTransactionSynced(id);
+      }
+    } catch {
+      break;
+    }
+  }
+  await clearOfflineTransactions();
+}
+
+async function runSync(): Promise<SyncSummary> {
+  const now = Date.now();
+  const queued = [...await getQueuedOrders("pending"), ...await getQueuedOrders("held")]
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+  const due = queued.filter((queuedOrder) => queuedOrder.nextAttemptAt <= now);
+
+  const settled: QueuedOrder[] = [];
+  for (let start = 0; start < due.length; start += BATCH_SIZE) {
+    const batch = await syncBatch(due.slice(start, start + BATCH_SIZE));
+    await updateQueuedOrders(batch);
+    settled.push(...batch);
+    // Don't keep hammering a server that just failed
+    if (batch.some((queuedOrder) => queuedOrder.status === "pending")) break;
+  }
+
+  await syncOfflineTransactions();
+  await pruneSyncedOrders(now - SYNCED_RETENTION_MS);
+
+  const stillPending = await getQueuedOrders("pending");
+  scheduleRetry(stillPending);
+  if (stillPending.length > 0) {
+    requestBackgroundSync();
+  }
+
+  const countSettled = (status: QueuedOrder["status"]) =>
+    settled.filter((queuedOrder) => queuedOrder.status === status).length;
+  const summary = {
+    synced: countSettled("synced"),
+    held: countSettled("held"),
+    rejected: countSettled("rejected"),
+    pending: stillPending.length,
+  };
+  notifyOfflineQueueChanged(summary);
+  return summary;
+}
+
+// Only one flush runs at a time; callers arriving meanwhile share its result
+export function flushOfflineQueue(): Promise<SyncSummary> {
+  if (!navigator.onLine) {
+    return getQueuedOrders("pending").then((pending) => ({ synced: 0, held: 0, rejected: 0, pending: pending.length }));
+  }
+  if (!inFlight) {
+    inFlight = runSync().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
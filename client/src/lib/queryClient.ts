@@ -1,4 +1,6 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+import { syncCatalog } from "./catalog-sync";
+import { subscribeToOfflineQueue } from "./offline-sync";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -41,7 +43,27 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+export const isUnauthorizedError = (error: unknown): boolean => {
+  return error instanceof Error && error.message.startsWith("401:");
+};
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error) => {
+      // Session expired mid-use: drop the cached user so the login page shows
+      if (isUnauthorizedError(error)) {
+        queryClient.setQueryData(["/api/user"], null);
+      }
+    },
+    onSuccess: (_data, query) => {
+      // A catalogue fetch means it may have changed; the offline copy New Sale
+      // falls back on catches up with just the changes
+      const url = query.queryKey.join("/");
+      if (url === "/api/products" || url === "/api/categories" || url === "/api/customers") {
+        syncCatalog().catch((error) => console.error("Failed to sync catalogue:", error));
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -55,3 +77,19 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Sales synced from the offline queue, by the page or the service worker,
+// change orders, stock and balances; held or flagged ones add stock conflicts
+subscribeToOfflineQueue((summary) => {
+  if (!summary) return;
+  if (summary.synced > 0) {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  }
+  if (summary.synced + summary.held + summary.rejected > 0) {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-conflicts?status=open"] });
+  }
+});
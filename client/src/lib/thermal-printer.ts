@@ -0,0 +1,178 @@
+// Thermal receipt printing: sends the ESC/POS payload from the server to a
+// Bluetooth or USB printer, or prints the plain-text layout through the browser
+
+import { apiRequest } from "./queryClient";
+
+export type PaperWidth = 58 | 80;
+export type PrinterConnection = "bluetooth" | "usb" | "browser";
+
+export interface ReceiptPayload {
+  paperWidth: PaperWidth;
+  columns: number;
+  text: string;
+  escpos: string;
+}
+
+const PAPER_WIDTH_KEY = "receiptPaperWidth";
+const CONNECTION_KEY = "receiptPrinterConnection";
+
+// GATT services used by the common Bluetooth receipt printers
+const BLUETOOTH_PRINTER_SERVICES = [
+  "000018f0-0000-1000-8000-00805f9b34fb",
+  "0000ff00-0000-1000-8000-00805f9b34fb",
+  "e7810a71-73ae-499d-8c15-faa9aef0c3f2",
+];
+
+// Small writes keep within the MTU of cheap printers
+const BLUETOOTH_CHUNK_SIZE = 100;
+
+const USB_PRINTER_CLASS = 7;
+
+let bluetoothCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+let usbPrinter: { device: USBDevice; endpointNumber: number } | null = null;
+
+export const isConnectionSupported = (connection: PrinterConnection): boolean => {
+  if (connection === "bluetooth") return "bluetooth" in navigator;
+  if (connection === "usb") return "usb" in navigator;
+  return true;
+};
+
+export const getPaperWidth = (): PaperWidth => {
+  return localStorage.getItem(PAPER_WIDTH_KEY) === "80" ? 80 : 58;
+};
+
+export const setPaperWidth = (paperWidth: PaperWidth): void => {
+  localStorage.setItem(PAPER_WIDTH_KEY, paperWidth.toString());
+};
+
+export const getPrinterConnection = (): PrinterConnection => {
+  const saved = localStorage.getItem(CONNECTION_KEY) as PrinterConnection | null;
+  if (saved && isConnectionSupported(saved)) return saved;
+  if (isConnectionSupported("bluetooth")) return "bluetooth";
+  if (isConnectionSupported("usb")) return "usb";
+  return "browser";
+};
+
+export const setPrinterConnection = (connection: PrinterConnection): void => {
+  localStorage.setItem(CONNECTION_KEY, connection);
+};
+
+export const fetchReceipt = async (orderId: string, paperWidth: PaperWidth): Promise<ReceiptPayload> => {
+  const response = await apiRequest("GET", `/api/orders/${orderId}/receipt?paperWidth=${paperWidth}`);
+  return response.json();
+};
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// The printer chooser only appears the first time; later receipts reuse the connection
+const getBluetoothCharacteristic = async (): Promise<BluetoothRemoteGATTCharacteristic> => {
+  if (bluetoothCharacteristic?.service.device.gatt?.connected) {
+    return bluetoothCharacteristic;
+  }
+
+  const device = bluetoothCharacteristic?.service.device ?? await navigator.bluetooth.requestDevice({
+    filters: BLUETOOTH_PRINTER_SERVICES.map((service) => ({ services: [service] })),
+    optionalServices: BLUETOOTH_PRINTER_SERVICES,
+  });
+  const server = await device.gatt!.connect();
+
+  for (const serviceId of BLUETOOTH_PRINTER_SERVICES) {
+    try {
+      const service = await server.getPrimaryService(serviceId);
+      const characteristics = await service.getCharacteristics();
+      const writable = characteristics.find((c) => c.properties.write || c.properties.writeWithoutResponse);
+      if (writable) {
+        bluetoothCharacteristic = writable;
+        return writable;
+      }
+    } catch {
+      // The printer doesn't expose this service; try the next one
+    }
+  }
+  throw new Error("This Bluetooth device doesn't accept print data");
+};
+
+const printOverBluetooth = async (data: Uint8Array): Promise<void> => {
+  const characteristic = await getBluetoothCharacteristic();
+  for (let offset = 0; offset < data.length; offset += BLUETOOTH_CHUNK_SIZE) {
+    const chunk = data.slice(offset, offset + BLUETOOTH_CHUNK_SIZE);
+    if (characteristic.properties.writeWithoutResponse) {
+      await characteristic.writeValueWithoutResponse(chunk);
+    } else {
+      await characteristic.writeValueWithResponse(chunk);
+    }
+  }
+};
+
+const getUsbPrinter = async (): Promise<{ device: USBDevice; endpointNumber: number }> => {
+  if (usbPrinter?.device.opened) return usbPrinter;
+
+  const device = usbPrinter?.device ?? await navigator.usb.requestDevice({
+    filters: [{ classCode: USB_PRINTER_CLASS }],
+  });
+  await device.open();
+  if (!device.configuration) {
+    await device.selectConfiguration(1);
+  }
+
+  for (const usbInterface of device.configuration!.interfaces) {
+    const endpoint = usbInterface.alternate.endpoints.find((e) => e.direction === "out");
+    if (usbInterface.alternate.interfaceClass === USB_PRINTER_CLASS && endpoint) {
+      await device.claimInterface(usbInterface.interfaceNumber);
+      usbPrinter = { device, endpointNumber: endpoint.endpointNumber };
+      return usbPrinter;
+    }
+  }
+  throw new Error("This USB device isn't a printer");
+};
+
+const printOverUsb = async (data: Uint8Array): Promise<void> => {
+  const { device, endpointNumber } = await getUsbPrinter();
+  await device.transferOut(endpointNumber, data);
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const printInBrowser = (receipt: ReceiptPayload): void => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error("Allow pop-ups to print receipts");
+  }
+  printWindow.document.write(`
+    <html>
+      <head>
+        <title>Receipt</title>
+        <style>
+          @page { size: ${receipt.paperWidth}mm auto; margin: 0; }
+          body { margin: 0; padding: 2mm; }
+          pre { font-family: "Courier New", monospace; font-size: ${receipt.paperWidth === 80 ? 11 : 10}px; margin: 0; }
+        </style>
+      </head>
+      <body><pre>${escapeHtml(receipt.text)}</pre></body>
+    </html>
+  `);
+  printWindow.document.close();
+  printWindow.print();
+};
+
+export const printReceipt = async (
+  orderId: string,
+  { paperWidth, connection }: { paperWidth: PaperWidth; connection: PrinterConnection },
+): Promise<void> => {
+  const receipt = await fetchReceipt(orderId, paperWidth);
+  if (connection === "bluetooth") {
+    await printOverBluetooth(decodeBase64(receipt.escpos));
+  } else if (connection === "usb") {
+    await printOverUsb(decodeBase64(receipt.escpos));
+  } else {
+    printInBrowser(receipt);
+  }
+};
@@ -1,16 +1,19 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, Users, Phone, MapPin } from "lucide-react";
+import { Plus, Search, Users, Phone, MapPin, BookOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import CustomerLedgerModal from "@/components/ui/customer-ledger-modal";
+import { INDIAN_STATES } from "@shared/gst";
 
 interface Customer {
   id: string;
@@ -21,6 +24,8 @@ interface Customer {
   creditLimit: string;
   outstandingAmount: string;
   whatsappNumber?: string;
+  gstNumber?: string;
+  state?: string;
   createdAt: string;
 }
 
@@ -31,6 +36,8 @@ const customerSchema = z.object({
   landmark: z.string().optional(),
   creditLimit: z.string().min(0, "Credit limit cannot be negative").optional(),
   whatsappNumber: z.string().optional(),
+  gstNumber: z.string().optional(),
+  state: z.string().optional(),
 });
 
 type CustomerFormData = z.infer<typeof customerSchema>;
@@ -38,6 +45,7 @@ type CustomerFormData = z.infer<typeof customerSchema>;
 export default function Customers() {
   const [searchTerm, setSearchTerm] = useState("");
   const [showAddCustomer, setShowAddCustomer] = useState(false);
+  const [ledgerCustomerId, setLedgerCustomerId] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -50,6 +58,8 @@ export default function Customers() {
       const response = await apiRequest("POST", "/api/customers", {
         ...data,
         creditLimit: data.creditLimit || "0",
+        gstNumber: data.gstNumber || undefined,
+        state: data.state || undefined,
       });
       return response.json();
     },
@@ -73,6 +83,8 @@ export default function Customers() {
       landmark: "",
       creditLimit: "0",
       whatsappNumber: "",
+      gstNumber: "",
+      state: "",
     },
   });
 
@@ -194,6 +206,45 @@ export default function Customers() {
                   )}
                 />
 
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State (Optional)</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-customer-state">
+                              <SelectValue placeholder="Same as shop" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INDIAN_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="gstNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GSTIN (Optional)</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-customer-gst-number" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <FormField
                   control={form.control}
                   name="creditLimit"
@@ -327,6 +378,15 @@ export default function Customers() {
                       <p className="text-xs text-gray-500" data-testid={`text-customer-since-${customer.id}`}>
                         Since {formatDate(customer.createdAt)}
                       </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLedgerCustomerId(customer.id)}
+                        data-testid={`button-khata-${customer.id}`}
+                      >
+                        <BookOpen className="h-3 w-3 mr-1" />
+                        Khata
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -351,6 +411,14 @@ export default function Customers() {
           </Card>
         )}
       </div>
+
+      {ledgerCustomerId && (
+        <CustomerLedgerModal
+          open={!!ledgerCustomerId}
+          onOpenChange={(open) => !open && setLedgerCustomerId(null)}
+          customerId={ledgerCustomerId}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, Package, AlertTriangle, Edit } from "lucide-react";
+import { Plus, Search, Package, AlertTriangle, Edit, ChevronRight, ClipboardList, Truck } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -14,6 +15,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { GST_RATES } from "@shared/gst";
 
 interface Product {
   id: string;
@@ -25,6 +27,9 @@ interface Product {
   unit: string;
   minStock: string;
   barcode?: string;
+  hsnCode?: string;
+  gstRate: string;
+  priceIncludesTax: boolean;
   isPackaged: boolean;
   description?: string;
 }
@@ -44,6 +49,9 @@ const productSchema = z.object({
   unit: z.string().min(1, "Unit is required"),
   minStock: z.string().min(0, "Min stock cannot be negative"),
   barcode: z.string().optional(),
+  hsnCode: z.string().regex(/^(\d{4}|\d{6}|\d{8})?$/, "HSN code must be 4, 6 or 8 digits").optional(),
+  gstRate: z.string().default("0"),
+  priceIncludesTax: z.boolean().default(false),
   isPackaged: z.boolean().default(true),
   description: z.string().optional(),
 });
@@ -65,6 +73,12 @@ export default function Inventory() {
     queryKey: ["/api/categories"],
   });
 
+  const { data: stockConflicts } = useQuery<{ clientId: string }[]>({
+    queryKey: ["/api/stock-conflicts?status=open"],
+  });
+
+  const conflictedSalesCount = new Set(stockConflicts?.map((conflict) => conflict.clientId)).size;
+
   const createProductMutation = useMutation({
     mutationFn: async (data: ProductFormData) => {
       const response = await apiRequest("POST", "/api/products", data);
@@ -121,6 +135,8 @@ export default function Inventory() {
       stock: "0",
       unit: "pcs",
       minStock: "10",
+      gstRate: "0",
+      priceIncludesTax: false,
       isPackaged: true,
     },
   });
@@ -164,6 +180,9 @@ export default function Inventory() {
       unit: product.unit,
       minStock: product.minStock,
       barcode: product.barcode || "",
+      hsnCode: product.hsnCode || "",
+      gstRate: parseFloat(product.gstRate).toString(),
+      priceIncludesTax: product.priceIncludesTax,
       isPackaged: product.isPackaged,
       description: product.description || "",
     });
@@ -343,6 +362,63 @@ export default function Inventory() {
                   )}
                 />
 
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="gstRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GST Rate</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-gst-rate">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={rate.toString()}>{rate}%</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="hsnCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>HSN Code</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" {...field} data-testid="input-hsn-code" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="priceIncludesTax"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Price Includes GST</FormLabel>
+                        <div className="text-sm text-gray-600">
+                          Turn on if the price is the MRP inclusive of tax
+                        </div>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-price-includes-tax" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="isPackaged"
@@ -391,6 +467,39 @@ export default function Inventory() {
         />
       </div>
 
+      {/* Purchasing */}
+      <div className="grid grid-cols-2 gap-3">
+        <Link href="/purchase-orders">
+          <Button variant="outline" className="w-full" data-testid="link-purchase-orders">
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Purchases
+          </Button>
+        </Link>
+        <Link href="/suppliers">
+          <Button variant="outline" className="w-full" data-testid="link-suppliers">
+            <Truck className="h-4 w-4 mr-2" />
+            Suppliers
+          </Button>
+        </Link>
+      </div>
+
+      {/* Offline sales that oversold stock */}
+      {conflictedSalesCount > 0 && (
+        <Link href="/stock-conflicts">
+          <Card className="border-orange-200 bg-orange-50 cursor-pointer" data-testid="link-stock-conflicts">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-orange-800 flex items-center justify-between text-sm">
+                <span className="flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  {conflictedSalesCount} offline {conflictedSalesCount === 1 ? "sale" : "sales"} oversold stock
+                </span>
+                <ChevronRight className="h-4 w-4" />
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </Link>
+      )}
+
       {/* Low Stock Alert */}
       {lowStockProducts.length > 0 && (
         <Card className="border-red-200 bg-red-50">
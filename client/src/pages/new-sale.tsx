@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Minus, Search, ShoppingCart, User, CreditCard, Phone, MapPin } from "lucide-react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Plus, Minus, Search, ShoppingCart, User, CreditCard, Phone, MapPin, CheckCircle, CloudOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -16,22 +16,42 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import UPIQRModal from "@/components/ui/upi-qr-modal";
+import PrintReceiptButton from "@/components/ui/print-receipt-button";
+import { queueOfflineOrder } from "@/lib/offline-storage";
+import { flushOfflineQueue, notifyOfflineQueueChanged, requestBackgroundSync } from "@/lib/offline-sync";
+import { useOffline } from "@/hooks/use-offline";
+import { useOfflineCatalog } from "@/hooks/use-offline-catalog";
+import { useAuth } from "@/hooks/use-auth";
+import { priceOrderLines, resolveStateCode } from "@shared/gst";
+import type { CreateOrder, InsertOrderItem, OrderPricing, OrderTender } from "@shared/schema";
+
+// Body of POST /api/orders; queued as is when the sale can't be sent
+interface NewSale {
+  order: CreateOrder;
+  items: Omit<InsertOrderItem, "orderId">[];
+  tenders?: OrderTender[];
+}
 
 interface Product {
   id: string;
   name: string;
-  nameHindi?: string;
+  nameHindi?: string | null;
   price: string;
   stock: string;
   unit: string;
+  gstRate: string;
+  hsnCode?: string | null;
+  priceIncludesTax: boolean;
 }
 
 interface Customer {
   id: string;
   name: string;
   phone: string;
-  address?: string;
-  landmark?: string;
+  address?: string | null;
+  landmark?: string | null;
+  state?: string | null;
+  gstNumber?: string | null;
 }
 
 interface CartItem {
@@ -57,6 +77,14 @@ const orderFormSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Ways a split payment can be made up at the counter
+const SPLIT_TENDERS = [
+  { paymentMethod: "cash", label: "Cash" },
+  { paymentMethod: "upi", label: "UPI" },
+  { paymentMethod: "card", label: "Card" },
+  { paymentMethod: "credit", label: "Credit (khata)" },
+];
+
 type CustomerFormData = z.infer<typeof customerFormSchema>;
 type OrderFormData = z.infer<typeof orderFormSchema>;
 
@@ -68,17 +96,32 @@ export default function NewSale() {
   const [showCustomerForm, setShowCustomerForm] = useState(false);
   const [showUPIModal, setShowUPIModal] = useState(false);
   const [currentOrderId, setCurrentOrderId] = useState<string | null>(null);
+  const [completedOrder, setCompletedOrder] = useState<{ id: string; orderNumber: string; totalAmount: string } | null>(null);
+  const [showSaleComplete, setShowSaleComplete] = useState(false);
+  const [discount, setDiscount] = useState("");
+  const [splitAmounts, setSplitAmounts] = useState<Record<string, string>>({});
+  const [saleClientId, setSaleClientId] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { isOffline } = useOffline();
+  const offlineCatalog = useOfflineCatalog(isOffline);
 
-  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
+  const { data: onlineProducts, isLoading: onlineProductsLoading } = useQuery<Product[]>({
     queryKey: ["/api/products"],
+    enabled: !isOffline,
   });
 
-  const { data: customers } = useQuery<Customer[]>({
+  const { data: onlineCustomers } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
+    enabled: !isOffline,
   });
 
+  // Offline, the page sells from the catalogue cached in IndexedDB
+  const products = isOffline ? offlineCatalog.products : onlineProducts;
+  const customers = isOffline ? offlineCatalog.customers : onlineCustomers;
+  const productsLoading = isOffline ? !offlineCatalog.products : onlineProductsLoading;
+
   const createCustomerMutation = useMutation({
     mutationFn: async (data: CustomerFormData) => {
       const response = await apiRequest("POST", "/api/customers", data);
@@ -96,25 +139,63 @@ export default function NewSale() {
     },
   });
 
+  const queueSale = async (data: NewSale) => {
+    const queued = await queueOfflineOrder({
+      clientId: saleClientId,
+      order: data.order,
+      items: data.items.map((item) => ({
+        productId: item.productId,
+        name: cart.find((cartItem) => cartItem.product.id === item.productId)?.product.name ?? "",
+        quantity: parseFloat(item.quantity),
+        unitPrice: parseFloat(item.unitPrice),
+      })),
+      tenders: data.tenders,
+    });
+    return { queued };
+  };
+
   const createOrderMutation = useMutation({
-    mutationFn: async (data: { order: any; items: any[] }) => {
-      const response = await apiRequest("POST", "/api/orders", data);
-      return response.json();
+    mutationFn: async (data: NewSale) => {
+      if (isOffline) return queueSale(data);
+      try {
+        const response = await apiRequest("POST", "/api/orders", { ...data, clientId: saleClientId });
+        return response.json();
+      } catch (error) {
+        // fetch only throws a TypeError when no response came back. The sale
+        // is queued under the same clientId, so if the server did get it the
+        // sync returns that order instead of creating another.
+        if (!(error instanceof TypeError)) throw error;
+        return queueSale(data);
+      }
     },
     onSuccess: (order) => {
+      // Every sale attempt after this one gets its own idempotency key
+      setSaleClientId(crypto.randomUUID());
+      if (order.queued) {
+        notifyOfflineQueueChanged();
+        requestBackgroundSync();
+        flushOfflineQueue();
+        toast({ title: "Sale saved offline", description: "It will sync when the connection is back" });
+        startNewSale();
+        return;
+      }
+
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setCurrentOrderId(order.id);
+      setCompletedOrder(order);
       
       if (orderForm.getValues("paymentMethod") === "upi") {
         setShowUPIModal(true);
       } else {
         toast({ title: "Order created successfully" });
-        setLocation("/orders");
+        setShowSaleComplete(true);
       }
     },
-    onError: () => {
-      toast({ title: "Failed to create order", variant: "destructive" });
+    onError: (error: Error) => {
+      // Prices may have changed since the cart was quoted
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/quote"] });
+      toast({ title: "Failed to create order", description: error.message, variant: "destructive" });
     },
   });
 
@@ -190,9 +271,44 @@ export default function NewSale() {
     ));
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + item.totalPrice, 0);
-  const gstAmount = cartTotal * 0.18; // 18% GST
-  const finalTotal = cartTotal + gstAmount;
+  // Totals come from the server, which prices the cart from the catalogue.
+  // Offline they are worked out here the same way from the cached catalogue,
+  // and the server reprices the sale when it syncs.
+  const quoteRequest = {
+    customerId: selectedCustomer?.id,
+    discountAmount: parseFloat(discount) || 0,
+    items: cart.map(item => ({ productId: item.product.id, quantity: item.quantity })),
+  };
+  const { data: quotedPricing, isFetching: quoteFetching } = useQuery<OrderPricing>({
+    queryKey: ["/api/orders/quote", quoteRequest],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/quote", quoteRequest);
+      return response.json();
+    },
+    enabled: cart.length > 0 && !isOffline,
+    placeholderData: keepPreviousData,
+  });
+  const localPricing = isOffline && cart.length > 0
+    ? priceOrderLines(
+      cart.map((item) => ({
+        productId: item.product.id,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        gstRate: item.product.gstRate,
+        hsnCode: item.product.hsnCode ?? null,
+        priceIncludesTax: item.product.priceIncludesTax,
+      })),
+      {
+        shopState: resolveStateCode(user?.state, user?.gstNumber),
+        customerState: selectedCustomer ? resolveStateCode(selectedCustomer.state, selectedCustomer.gstNumber) : null,
+        discountAmount: parseFloat(discount) || 0,
+      },
+    )
+    : undefined;
+  const pricing = isOffline ? localPricing : quotedPricing;
+  const pricingFetching = !isOffline && quoteFetching;
+  const finalTotal = parseFloat(pricing?.totalAmount || "0");
+  const splitTotal = Object.values(splitAmounts).reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-IN", {
@@ -202,13 +318,15 @@ export default function NewSale() {
     }).format(amount);
   };
 
-  const generateOrderNumber = () => {
-    const now = new Date();
-    const year = now.getFullYear().toString().slice(-2);
-    const month = (now.getMonth() + 1).toString().padStart(2, '0');
-    const day = now.getDate().toString().padStart(2, '0');
-    const time = now.getTime().toString().slice(-4);
-    return `ORD-${year}${month}${day}-${time}`;
+  const startNewSale = () => {
+    setShowSaleComplete(false);
+    setCompletedOrder(null);
+    setCurrentOrderId(null);
+    setCart([]);
+    setSelectedCustomer(null);
+    setDiscount("");
+    setSplitAmounts({});
+    orderForm.reset();
   };
 
   const onCustomerSubmit = (data: CustomerFormData) => {
@@ -220,33 +338,82 @@ export default function NewSale() {
       toast({ title: "Please add items to cart", variant: "destructive" });
       return;
     }
+    if (!pricing || pricingFetching) {
+      return;
+    }
+
+    if (data.paymentMethod === "split") {
+      submitSplitOrder(data);
+      return;
+    }
+
+    // Credit sales go on the customer's khata instead of being collected now
+    const isCredit = data.paymentMethod === "credit";
+    if (isCredit && !selectedCustomer) {
+      toast({ title: "Select a customer for credit sales", variant: "destructive" });
+      return;
+    }
+    // UPI orders stay unpaid until the payment is marked from the QR screen,
+    // and the server puts a credit order's total on the khata
+    const isPaidNow = !isCredit && data.paymentMethod !== "upi";
 
     const orderData = {
-      orderNumber: generateOrderNumber(),
-      customerId: selectedCustomer?.id,
-      status: "completed",
-      paymentStatus: "paid",
+      ...getOrderDetails(data),
       paymentMethod: data.paymentMethod,
       upiApp: data.upiApp,
-      totalAmount: finalTotal.toString(),
-      paidAmount: finalTotal.toString(),
-      gstAmount: gstAmount.toString(),
-      deliveryAddress: data.deliveryAddress,
-      deliveryLandmark: data.deliveryLandmark,
-      notes: data.notes,
     };
 
-    const orderItems = cart.map(item => ({
-      productId: item.product.id,
-      quantity: item.quantity.toString(),
-      unitPrice: item.unitPrice.toString(),
-      totalPrice: item.totalPrice.toString(),
-      gstRate: "18",
-    }));
+    createOrderMutation.mutate({
+      order: orderData,
+      items: getOrderItems(),
+      tenders: isPaidNow ? [{ paymentMethod: data.paymentMethod, amount: finalTotal }] : undefined,
+    });
+  };
+
+  // Each part of a split payment becomes its own tender; the server derives
+  // the payment status, and anything not covered stays pending on the order
+  const submitSplitOrder = (data: OrderFormData) => {
+    if (!pricing) return;
+    const tenders = SPLIT_TENDERS
+      .map(({ paymentMethod }) => ({ paymentMethod, amount: parseFloat(splitAmounts[paymentMethod]) || 0 }))
+      .filter((tender) => tender.amount > 0);
+    if (tenders.length === 0) {
+      toast({ title: "Enter how much was paid each way", variant: "destructive" });
+      return;
+    }
+    if (splitTotal > finalTotal + 0.005) {
+      toast({ title: "Payments add up to more than the total", variant: "destructive" });
+      return;
+    }
+    if (tenders.some((tender) => tender.paymentMethod === "credit") && !selectedCustomer) {
+      toast({ title: "Select a customer for credit sales", variant: "destructive" });
+      return;
+    }
 
-    createOrderMutation.mutate({ order: orderData, items: orderItems });
+    createOrderMutation.mutate({
+      order: getOrderDetails(data),
+      items: getOrderItems(),
+      tenders: tenders.map((tender) => tender.paymentMethod === "upi" ? { ...tender, upiApp: data.upiApp } : tender),
+    });
   };
 
+  const getOrderDetails = (data: OrderFormData) => ({
+    customerId: selectedCustomer?.id,
+    totalAmount: pricing!.totalAmount,
+    discountAmount: pricing!.discountAmount,
+    gstAmount: pricing!.gstAmount,
+    deliveryAddress: data.deliveryAddress,
+    deliveryLandmark: data.deliveryLandmark,
+    notes: data.notes,
+  });
+
+  const getOrderItems = () => pricing!.items.map(line => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    totalPrice: line.totalPrice,
+  }));
+
   return (
     <div className="p-4 pb-20 space-y-4">
       {/* Header */}
@@ -264,6 +431,19 @@ export default function NewSale() {
         </Button>
       </div>
 
+      {/* Offline / queued sales */}
+      {(isOffline || offlineCatalog.queuedSalesCount > 0) && (
+        <div className="flex items-center p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800" data-testid="banner-offline-sales">
+          <CloudOff className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>
+            {isOffline ? "Offline: selling from saved products. " : ""}
+            {offlineCatalog.queuedSalesCount > 0
+              ? `${offlineCatalog.queuedSalesCount} ${offlineCatalog.queuedSalesCount === 1 ? "sale" : "sales"} waiting to sync`
+              : "Sales will sync when you're back online"}
+          </span>
+        </div>
+      )}
+
       {/* Customer Selection */}
       <Card>
         <CardHeader className="pb-3">
@@ -321,6 +501,7 @@ export default function NewSale() {
                 variant="outline"
                 className="w-full"
                 onClick={() => setShowCustomerForm(true)}
+                disabled={isOffline}
                 data-testid="button-add-new-customer"
               >
                 <Plus className="h-4 w-4 mr-2" />
@@ -446,15 +627,45 @@ export default function NewSale() {
               </div>
             ))}
 
-            <div className="border-t pt-3 space-y-2">
+            <div className={`border-t pt-3 space-y-2 ${pricingFetching ? "opacity-60" : ""}`}>
               <div className="flex justify-between text-sm">
                 <span>Subtotal:</span>
-                <span data-testid="text-cart-subtotal">{formatCurrency(cartTotal)}</span>
+                <span data-testid="text-cart-subtotal">{formatCurrency(parseFloat(pricing?.subtotal || "0"))}</span>
+              </div>
+              <div className="flex justify-between items-center text-sm">
+                <span>Discount:</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                  className="h-7 w-24 text-right"
+                  data-testid="input-cart-discount"
+                />
               </div>
               <div className="flex justify-between text-sm">
-                <span>GST (18%):</span>
-                <span data-testid="text-cart-gst">{formatCurrency(gstAmount)}</span>
+                <span>Taxable Value:</span>
+                <span data-testid="text-cart-taxable">{formatCurrency(parseFloat(pricing?.taxableAmount || "0"))}</span>
               </div>
+              {pricing?.isInterState ? (
+                <div className="flex justify-between text-sm">
+                  <span>IGST:</span>
+                  <span data-testid="text-cart-igst">{formatCurrency(parseFloat(pricing.igstAmount))}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span>CGST:</span>
+                    <span data-testid="text-cart-cgst">{formatCurrency(parseFloat(pricing?.cgstAmount || "0"))}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>SGST:</span>
+                    <span data-testid="text-cart-sgst">{formatCurrency(parseFloat(pricing?.sgstAmount || "0"))}</span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between font-medium text-base border-t pt-2">
                 <span>Total:</span>
                 <span data-testid="text-cart-final-total">{formatCurrency(finalTotal)}</span>
@@ -490,6 +701,7 @@ export default function NewSale() {
                           <SelectItem value="upi">UPI</SelectItem>
                           <SelectItem value="card">Card</SelectItem>
                           <SelectItem value="credit">Credit</SelectItem>
+                          <SelectItem value="split">Split</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -497,7 +709,34 @@ export default function NewSale() {
                   )}
                 />
 
-                {orderForm.watch("paymentMethod") === "upi" && (
+                {orderForm.watch("paymentMethod") === "split" && (
+                  <div className="space-y-2" data-testid="split-tenders">
+                    {SPLIT_TENDERS.map(({ paymentMethod, label }) => (
+                      <div key={paymentMethod} className="flex items-center space-x-2">
+                        <span className="text-sm w-28">{label}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="0"
+                          value={splitAmounts[paymentMethod] ?? ""}
+                          onChange={(e) => setSplitAmounts((current) => ({ ...current, [paymentMethod]: e.target.value }))}
+                          disabled={paymentMethod === "credit" && !selectedCustomer}
+                          data-testid={`input-split-${paymentMethod}`}
+                        />
+                      </div>
+                    ))}
+                    <div
+                      className={`flex justify-between text-sm ${splitTotal > finalTotal + 0.005 ? "text-red-600" : "text-gray-600"}`}
+                      data-testid="text-split-remaining"
+                    >
+                      <span>{splitTotal > finalTotal + 0.005 ? "Over by:" : "Remaining:"}</span>
+                      <span>{formatCurrency(Math.abs(finalTotal - splitTotal))}</span>
+                    </div>
+                  </div>
+                )}
+
+                {["upi", "split"].includes(orderForm.watch("paymentMethod")) && (
                   <FormField
                     control={orderForm.control}
                     name="upiApp"
@@ -568,7 +807,7 @@ export default function NewSale() {
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={createOrderMutation.isPending}
+                  disabled={createOrderMutation.isPending || !pricing || pricingFetching}
                   data-testid="button-complete-sale"
                 >
                   Complete Sale - {formatCurrency(finalTotal)}
@@ -664,9 +903,40 @@ export default function NewSale() {
         orderId={currentOrderId}
         onPaymentComplete={() => {
           toast({ title: "Payment completed successfully" });
-          setLocation("/orders");
+          setShowSaleComplete(true);
         }}
       />
+
+      {/* Sale Complete */}
+      <Dialog open={showSaleComplete} onOpenChange={(open) => !open && startNewSale()}>
+        <DialogContent className="max-w-sm" data-testid="sale-complete-modal">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+              Sale Complete
+            </DialogTitle>
+          </DialogHeader>
+          {completedOrder && (
+            <div className="space-y-4">
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground">#{completedOrder.orderNumber}</p>
+                <p className="text-2xl font-bold" data-testid="text-completed-total">
+                  {formatCurrency(parseFloat(completedOrder.totalAmount))}
+                </p>
+              </div>
+              <PrintReceiptButton orderId={completedOrder.id} />
+              <div className="flex space-x-2">
+                <Button className="flex-1" onClick={startNewSale} data-testid="button-start-new-sale">
+                  New Sale
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => setLocation("/orders")} data-testid="button-view-orders">
+                  View Orders
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,12 +1,27 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Search, Filter, Receipt, Eye } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Search, Filter, Receipt, Eye, XCircle, Undo2, FileDown, Wallet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import SalesReturnModal from "@/components/ui/sales-return-modal";
+import CollectPaymentModal from "@/components/ui/collect-payment-modal";
+import PrintReceiptButton from "@/components/ui/print-receipt-button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 interface Order {
   id: string;
@@ -20,6 +35,9 @@ interface Order {
   paidAmount: string;
   discountAmount: string;
   gstAmount: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
   deliveryAddress?: string;
   notes?: string;
   createdAt: string;
@@ -40,6 +58,34 @@ interface OrderWithItems {
       unit: string;
     };
   }>;
+  returns: Array<{
+    id: string;
+    settlement: string;
+    paymentMethod?: string;
+    amount: string;
+    reason?: string;
+    createdAt: string;
+    items: Array<{
+      id: string;
+      orderItemId: string;
+      quantity: string;
+      amount: string;
+      condition: string;
+      product: {
+        name: string;
+        unit: string;
+      };
+    }>;
+  }>;
+  payments: Array<{
+    id: string;
+    type: string;
+    amount: string;
+    paymentMethod?: string;
+    upiApp?: string;
+    upiTransactionId?: string;
+    createdAt: string;
+  }>;
 }
 
 export default function Orders() {
@@ -47,6 +93,11 @@ export default function Orders() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [paymentFilter, setPaymentFilter] = useState<string>("all");
   const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
+  const [showCancelConfirm, setShowCancelConfirm] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [showCollectModal, setShowCollectModal] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: orders, isLoading: ordersLoading } = useQuery<Order[]>({
     queryKey: ["/api/orders"],
@@ -57,6 +108,40 @@ export default function Orders() {
     enabled: !!selectedOrder,
   });
 
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setShowCancelConfirm(false);
+      toast({ title: "Order cancelled and stock restored" });
+    },
+    onError: () => {
+      setShowCancelConfirm(false);
+      toast({ title: "Failed to cancel order", variant: "destructive" });
+    },
+  });
+
+  const getReturnedQuantity = (orderItemId: string) => {
+    return (orderDetails?.returns || [])
+      .flatMap((salesReturn) => salesReturn.items)
+      .filter((item) => item.orderItemId === orderItemId)
+      .reduce((sum, item) => sum + parseFloat(item.quantity), 0);
+  };
+
+  // Credit notes settle part of what was owed, so they reduce what can be collected
+  const getBalanceDue = (details: OrderWithItems) => {
+    if (details.order.paymentStatus === "paid" || details.order.status === "cancelled") return 0;
+    const creditNotes = details.returns
+      .filter((salesReturn) => salesReturn.settlement === "credit_note")
+      .reduce((sum, salesReturn) => sum + parseFloat(salesReturn.amount), 0);
+    return Math.max(0, parseFloat(details.order.totalAmount) - parseFloat(details.order.paidAmount || "0") - creditNotes);
+  };
+
   const filteredOrders = orders?.filter(order => {
     const matchesSearch = order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          order.customerId?.toLowerCase().includes(searchTerm.toLowerCase());
@@ -310,6 +395,11 @@ export default function Orders() {
                         <p className="text-gray-600 text-xs">
                           {item.quantity} {item.product.unit} × {formatCurrency(item.unitPrice)}
                         </p>
+                        {getReturnedQuantity(item.id) > 0 && (
+                          <p className="text-orange-600 text-xs" data-testid={`text-returned-quantity-${item.id}`}>
+                            Returned: {getReturnedQuantity(item.id)} {item.product.unit}
+                          </p>
+                        )}
                       </div>
                       <p className="font-medium text-sm">{formatCurrency(item.totalPrice)}</p>
                     </div>
@@ -317,6 +407,34 @@ export default function Orders() {
                 </div>
               </div>
 
+              {/* Returns */}
+              {orderDetails.returns.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-3">Returns</h4>
+                  <div className="space-y-2">
+                    {orderDetails.returns.map((salesReturn) => (
+                      <div key={salesReturn.id} className="p-2 bg-orange-50 rounded" data-testid={`return-${salesReturn.id}`}>
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-xs text-gray-600">{formatDate(salesReturn.createdAt)}</span>
+                          <span className="text-sm font-medium">
+                            {salesReturn.settlement === "credit_note" ? "Credit Note" : "Refund"}: {formatCurrency(salesReturn.amount)}
+                          </span>
+                        </div>
+                        {salesReturn.items.map((item) => (
+                          <p key={item.id} className="text-xs text-gray-700">
+                            {item.product.name} × {item.quantity} {item.product.unit}
+                            {item.condition === "damage" && " (damaged)"}
+                          </p>
+                        ))}
+                        {salesReturn.reason && (
+                          <p className="text-xs text-gray-600 mt-1">{salesReturn.reason}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Payment Summary */}
               <div className="border-t pt-4">
                 <h4 className="font-medium mb-3">Payment Summary</h4>
@@ -325,7 +443,20 @@ export default function Orders() {
                     <span>Subtotal:</span>
                     <span>{formatCurrency((parseFloat(orderDetails.order.totalAmount) - parseFloat(orderDetails.order.gstAmount || "0")).toString())}</span>
                   </div>
-                  {parseFloat(orderDetails.order.gstAmount || "0") > 0 && (
+                  {[
+                    { label: "CGST", amount: orderDetails.order.cgstAmount },
+                    { label: "SGST", amount: orderDetails.order.sgstAmount },
+                    { label: "IGST", amount: orderDetails.order.igstAmount },
+                  ].filter(({ amount }) => parseFloat(amount || "0") > 0).map(({ label, amount }) => (
+                    <div key={label} className="flex justify-between" data-testid={`text-order-${label.toLowerCase()}`}>
+                      <span>{label}:</span>
+                      <span>{formatCurrency(amount)}</span>
+                    </div>
+                  ))}
+                  {/* Orders saved before the tax split only carry the total GST */}
+                  {parseFloat(orderDetails.order.gstAmount || "0") > 0 &&
+                    [orderDetails.order.cgstAmount, orderDetails.order.sgstAmount, orderDetails.order.igstAmount]
+                      .every((amount) => parseFloat(amount || "0") === 0) && (
                     <div className="flex justify-between">
                       <span>GST:</span>
                       <span>{formatCurrency(orderDetails.order.gstAmount || "0")}</span>
@@ -366,8 +497,72 @@ export default function Orders() {
                       {orderDetails.order.paymentStatus}
                     </Badge>
                   </div>
+                  {orderDetails.payments.length > 0 && (
+                    <div className="border-t mt-2 pt-2 space-y-1" data-testid="order-tenders">
+                      {orderDetails.payments.map((payment) => (
+                        <div key={payment.id} className="flex justify-between text-sm" data-testid={`order-tender-${payment.id}`}>
+                          <div>
+                            <span>
+                              {payment.type === "credit_sale"
+                                ? "Khata (credit)"
+                                : getPaymentMethodDisplay(payment.paymentMethod, payment.upiApp)}
+                              {payment.type === "credit_payment" && " (khata payment)"}
+                            </span>
+                            {payment.upiTransactionId && (
+                              <span className="block text-xs text-gray-500">UTR {payment.upiTransactionId}</span>
+                            )}
+                          </div>
+                          <span className={payment.type === "credit_sale" ? "text-orange-600" : ""}>
+                            {formatCurrency(payment.amount)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
+
+              {/* Actions */}
+              <Button asChild variant="outline" className="w-full" data-testid="button-download-invoice">
+                <a href={`/api/orders/${orderDetails.order.id}/invoice`} download>
+                  <FileDown className="h-4 w-4 mr-2" />
+                  Download Invoice
+                </a>
+              </Button>
+              <PrintReceiptButton orderId={orderDetails.order.id} />
+              {getBalanceDue(orderDetails) > 0 && (
+                <Button
+                  className="w-full"
+                  onClick={() => setShowCollectModal(true)}
+                  data-testid="button-collect-payment"
+                >
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Collect Payment
+                </Button>
+              )}
+              {orderDetails.order.status !== "cancelled" && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowReturnModal(true)}
+                  data-testid="button-return-items"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Return Items
+                </Button>
+              )}
+              {orderDetails.order.status !== "cancelled" && (
+                <Button
+                  variant="outline"
+                  className="w-full text-red-600 border-red-200 hover:bg-red-50"
+                  onClick={() => setShowCancelConfirm(true)}
+                  disabled={cancelOrderMutation.isPending}
+                  data-testid="button-cancel-order"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Order
+                </Button>
+              )}
             </div>
           ) : (
             <div className="text-center py-4">
@@ -376,6 +571,54 @@ export default function Orders() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Return Items Modal */}
+      {orderDetails && (
+        <SalesReturnModal
+          open={showReturnModal}
+          onOpenChange={setShowReturnModal}
+          orderId={orderDetails.order.id}
+          hasCustomer={!!orderDetails.order.customerId}
+          items={orderDetails.items.map((item) => ({
+            ...item,
+            returnedQuantity: getReturnedQuantity(item.id),
+          }))}
+        />
+      )}
+
+      {/* Collect Payment Modal */}
+      {orderDetails && (
+        <CollectPaymentModal
+          open={showCollectModal}
+          onOpenChange={setShowCollectModal}
+          orderId={orderDetails.order.id}
+          orderNumber={orderDetails.order.orderNumber}
+          balanceDue={getBalanceDue(orderDetails)}
+        />
+      )}
+
+      {/* Cancel Confirmation */}
+      <AlertDialog open={showCancelConfirm} onOpenChange={setShowCancelConfirm}>
+        <AlertDialogContent className="max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Items will be returned to stock and any amount paid will be recorded as a refund.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-order-dismiss">Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => selectedOrder && cancelOrderMutation.mutate(selectedOrder)}
+              data-testid="button-cancel-order-confirm"
+            >
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, ClipboardList, PackageCheck, Plus, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import PurchaseReceiveModal, { type ReceivableItem } from "@/components/ui/purchase-receive-modal";
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: string;
+  totalAmount: string;
+  receivedAmount: string;
+  createdAt: string;
+  supplier: Supplier;
+  items: ReceivableItem[];
+}
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const emptyLine: DraftLine = { productId: "", quantity: "", unitCost: "" };
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  ordered: { label: "Ordered", className: "bg-blue-100 text-blue-800" },
+  partially_received: { label: "Partly received", className: "bg-yellow-100 text-yellow-800" },
+  received: { label: "Received", className: "bg-green-100 text-green-800" },
+};
+
+export default function PurchaseOrders() {
+  const [showCreate, setShowCreate] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine]);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: purchaseOrders, isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const resetDraft = () => {
+    setSupplierId("");
+    setNotes("");
+    setLines([emptyLine]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        supplierId,
+        notes: notes || undefined,
+        items: lines.map((line) => ({
+          productId: line.productId,
+          quantity: parseFloat(line.quantity),
+          unitCost: parseFloat(line.unitCost),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      setShowCreate(false);
+      resetDraft();
+      toast({ title: "Purchase order created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create purchase order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (index: number, update: Partial<DraftLine>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...update } : line)));
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const draftTotal = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unitCost) || 0),
+    0,
+  );
+  const isDraftValid = !!supplierId && lines.every((line) =>
+    line.productId && parseFloat(line.quantity) > 0 && parseFloat(line.unitCost) >= 0
+  );
+
+  return (
+    <div className="p-4 pb-20 space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Link href="/inventory">
+            <Button variant="ghost" size="sm" className="p-1" data-testid="button-back-to-inventory">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Purchases</h1>
+            <p className="text-gray-600">Stock ordered from suppliers</p>
+          </div>
+        </div>
+        <Dialog open={showCreate} onOpenChange={(open) => {
+          setShowCreate(open);
+          if (!open) resetDraft();
+        }}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-new-purchase-order">
+              <Plus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Purchase Order</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger data-testid="select-po-supplier">
+                    <SelectValue placeholder={suppliers?.length ? "Select supplier" : "Add a supplier first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Items</Label>
+                {lines.map((line, index) => (
+                  <div key={index} className="p-2 bg-gray-50 rounded space-y-2" data-testid={`po-line-${index}`}>
+                    <div className="flex space-x-2">
+                      <Select value={line.productId} onValueChange={(productId) => updateLine(index, { productId })}>
+                        <SelectTrigger className="flex-1" data-testid={`select-po-product-${index}`}>
+                          <SelectValue placeholder="Product" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products?.map((product) => (
+                            <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {lines.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                          data-testid={`button-remove-po-line-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        placeholder="Qty"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        data-testid={`input-po-quantity-${index}`}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Cost per unit (₹)"
+                        value={line.unitCost}
+                        onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                        data-testid={`input-po-unit-cost-${index}`}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setLines((current) => [...current, emptyLine])}
+                  data-testid="button-add-po-line"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="po-notes">Notes (Optional)</Label>
+                <Input id="po-notes" value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-po-notes" />
+              </div>
+
+              <div className="flex justify-between p-2 bg-gray-50 rounded text-sm">
+                <span>Order total</span>
+                <span className="font-medium" data-testid="text-po-draft-total">{formatCurrency(draftTotal)}</span>
+              </div>
+
+              <Button
+                className="w-full"
+                onClick={() => createMutation.mutate()}
+                disabled={!isDraftValid || createMutation.isPending}
+                data-testid="button-save-purchase-order"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Purchase Order"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Purchase Orders List */}
+      <div className="space-y-3">
+        {isLoading ? (
+          [...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-4">
+                <div className="h-4 bg-gray-200 rounded mb-2 w-32"></div>
+                <div className="h-3 bg-gray-200 rounded w-48"></div>
+              </CardContent>
+            </Card>
+          ))
+        ) : purchaseOrders && purchaseOrders.length > 0 ? (
+          purchaseOrders.map((purchaseOrder) => {
+            const status = statusStyles[purchaseOrder.status] ?? { label: purchaseOrder.status, className: "" };
+            return (
+              <Card key={purchaseOrder.id} className="shadow-sm border border-gray-100" data-testid={`card-purchase-order-${purchaseOrder.id}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="font-medium" data-testid={`text-po-number-${purchaseOrder.id}`}>{purchaseOrder.poNumber}</h3>
+                      <p className="text-sm text-gray-600">{purchaseOrder.supplier.name}</p>
+                      <p className="text-xs text-gray-500">{formatDate(purchaseOrder.createdAt)}</p>
+                    </div>
+                    <div className="text-right space-y-1">
+                      <Badge className={status.className}>{status.label}</Badge>
+                      <p className="font-medium">{formatCurrency(parseFloat(purchaseOrder.totalAmount))}</p>
+                      {purchaseOrder.status === "partially_received" && (
+                        <p className="text-xs text-gray-500">
+                          {formatCurrency(parseFloat(purchaseOrder.receivedAmount))} received
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    {purchaseOrder.items.map((item) => (
+                      <div key={item.id} className="flex justify-between text-sm">
+                        <span>{item.product.name}</span>
+                        <span className="text-gray-600">
+                          {parseFloat(item.receivedQuantity)}/{parseFloat(item.quantity)} {item.product.unit}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {purchaseOrder.status !== "received" && (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setReceivingOrder(purchaseOrder)}
+                      data-testid={`button-receive-po-${purchaseOrder.id}`}
+                    >
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Receive Stock
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        ) : (
+          <Card className="shadow-sm border border-gray-100">
+            <CardContent className="p-6 text-center text-gray-500">
+              <ClipboardList className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              No purchase orders yet
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {receivingOrder && (
+        <PurchaseReceiveModal
+          open={!!receivingOrder}
+          onOpenChange={(open) => !open && setReceivingOrder(null)}
+          purchaseOrderId={receivingOrder.id}
+          poNumber={receivingOrder.poNumber}
+          items={receivingOrder.items}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Calendar, TrendingUp, Download, Filter } from "lucide-react";
+import { Calendar, TrendingUp, Download, Filter, Landmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import StatsCard from "@/components/ui/stats-card";
+import UPIReconciliationModal from "@/components/ui/upi-reconciliation-modal";
 
 interface Transaction {
   id: string;
@@ -19,6 +20,7 @@ interface Transaction {
 export default function Reports() {
   const [reportType, setReportType] = useState("daily");
   const [dateRange, setDateRange] = useState("today");
+  const [showReconciliation, setShowReconciliation] = useState(false);
 
   const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
     queryKey: ["/api/transactions"],
@@ -84,10 +86,16 @@ export default function Reports() {
           <h1 className="text-2xl font-bold">Reports</h1>
           <p className="text-gray-600">Business analytics and insights</p>
         </div>
-        <Button variant="outline" size="sm" data-testid="button-export-report">
-          <Download className="h-4 w-4 mr-2" />
-          Export
-        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setShowReconciliation(true)} data-testid="button-upi-reconciliation">
+            <Landmark className="h-4 w-4 mr-2" />
+            Reconcile
+          </Button>
+          <Button variant="outline" size="sm" data-testid="button-export-report">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -254,6 +262,8 @@ export default function Reports() {
           </Button>
         </CardContent>
       </Card>
+
+      <UPIReconciliationModal open={showReconciliation} onOpenChange={setShowReconciliation} />
     </div>
   );
 }
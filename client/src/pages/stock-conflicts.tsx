@@ -0,0 +1,173 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, ArrowLeft, Check, X } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface StockConflict {
+  id: string;
+  productId: string;
+  clientId: string;
+  orderId?: string;
+  reason: "stock" | "price";
+  quantity: string;
+  availableStock: string;
+  unitPrice: string | null;
+  catalogPrice: string | null;
+  policy: string;
+  createdAt: string;
+  product: {
+    name: string;
+    unit: string;
+  };
+}
+
+const OPEN_CONFLICTS_KEY = ["/api/stock-conflicts?status=open"];
+
+export default function StockConflicts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: conflicts, isLoading } = useQuery<StockConflict[]>({
+    queryKey: OPEN_CONFLICTS_KEY,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "accept" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/stock-conflicts/${id}/resolve`, { action });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: OPEN_CONFLICTS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: "Stock conflict resolved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to resolve conflict", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // A sale that oversold several products is resolved as a whole
+  const sales = Array.from(
+    (conflicts ?? []).reduce((grouped, conflict) => {
+      grouped.set(conflict.clientId, [...(grouped.get(conflict.clientId) ?? []), conflict]);
+      return grouped;
+    }, new Map<string, StockConflict[]>()).values()
+  );
+
+  const formatQuantity = (value: string) => parseFloat(value).toString();
+
+  const formatPrice = (value: string | null) => `₹${parseFloat(value ?? "0").toFixed(2)}`;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="p-4 pb-20 space-y-4">
+      {/* Header */}
+      <div className="flex items-center space-x-2">
+        <Link href="/inventory">
+          <Button variant="ghost" size="sm" className="p-1" data-testid="button-back-to-inventory">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Stock Conflicts</h1>
+          <p className="text-gray-600">Offline sales that sold more than was in stock or at another price</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          [...Array(2)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-4">
+                <div className="h-4 bg-gray-200 rounded mb-2 w-32"></div>
+                <div className="h-3 bg-gray-200 rounded w-48"></div>
+              </CardContent>
+            </Card>
+          ))
+        ) : sales.length > 0 ? (
+          sales.map((lines) => {
+            const [first] = lines;
+            const isHeld = first.policy === "hold";
+            return (
+              <Card key={first.clientId} className="shadow-sm border border-gray-100 border-l-4 border-l-orange-500" data-testid={`card-stock-conflict-${first.id}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Badge className={isHeld ? "bg-orange-100 text-orange-800" : "bg-yellow-100 text-yellow-800"}>
+                      {isHeld ? "Held for review" : "Recorded, stock negative"}
+                    </Badge>
+                    <span className="text-xs text-gray-500">Synced {formatDate(first.createdAt)}</span>
+                  </div>
+
+                  <div className="space-y-1">
+                    {lines.map((conflict) => (
+                      <div key={conflict.id} className="flex justify-between text-sm" data-testid={`text-conflict-line-${conflict.id}`}>
+                        <span className="font-medium">{conflict.product.name}</span>
+                        <span className="text-gray-600">
+                          {conflict.reason === "price"
+                            ? `charged ${formatPrice(conflict.unitPrice)}, catalogue ${formatPrice(conflict.catalogPrice)}`
+                            : `sold ${formatQuantity(conflict.quantity)} ${conflict.product.unit}, had ${formatQuantity(conflict.availableStock)}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    {isHeld
+                      ? "Accepting creates the order as it was rung up, at the prices charged; rejecting discards the sale."
+                      : "Keep the sale and correct the stock count, or cancel the order to put the stock back and refund it."}
+                  </p>
+
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => resolveMutation.mutate({ id: first.id, action: "accept" })}
+                      disabled={resolveMutation.isPending}
+                      data-testid={`button-accept-conflict-${first.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      {isHeld ? "Accept Sale" : "Keep Sale"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1 text-red-600"
+                      onClick={() => resolveMutation.mutate({ id: first.id, action: "reject" })}
+                      disabled={resolveMutation.isPending}
+                      data-testid={`button-reject-conflict-${first.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      {isHeld ? "Reject Sale" : "Cancel Order"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        ) : (
+          <Card className="shadow-sm border border-gray-100">
+            <CardContent className="p-6 text-center text-gray-500">
+              <AlertTriangle className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              No stock conflicts to review
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Plus, Truck, Phone, User, Wallet } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import SupplierPaymentModal from "@/components/ui/supplier-payment-modal";
+import { INDIAN_STATES, isValidGstin } from "@shared/gst";
+
+interface Supplier {
+  id: string;
+  name: string;
+  contactPerson?: string | null;
+  phone: string;
+  email?: string | null;
+  address?: string | null;
+  gstNumber?: string | null;
+  state?: string | null;
+  outstandingAmount: string;
+}
+
+const supplierSchema = z.object({
+  name: z.string().min(1, "Supplier name is required"),
+  contactPerson: z.string().optional(),
+  phone: z.string().min(10, "Phone number must be at least 10 digits"),
+  email: z.string().email("Enter a valid email").or(z.literal("")).optional(),
+  address: z.string().optional(),
+  gstNumber: z.string().refine((value) => !value || isValidGstin(value.toUpperCase()), "Enter a valid 15 character GSTIN").optional(),
+  state: z.string().optional(),
+});
+
+type SupplierFormData = z.infer<typeof supplierSchema>;
+
+export default function Suppliers() {
+  const [showAddSupplier, setShowAddSupplier] = useState(false);
+  const [payingSupplier, setPayingSupplier] = useState<Supplier | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: suppliers, isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: {
+      name: "",
+      contactPerson: "",
+      phone: "",
+      email: "",
+      address: "",
+      gstNumber: "",
+      state: "",
+    },
+  });
+
+  const createSupplierMutation = useMutation({
+    mutationFn: async (data: SupplierFormData) => {
+      const response = await apiRequest("POST", "/api/suppliers", {
+        name: data.name,
+        phone: data.phone,
+        contactPerson: data.contactPerson || undefined,
+        email: data.email || undefined,
+        address: data.address || undefined,
+        gstNumber: data.gstNumber || undefined,
+        state: data.state || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setShowAddSupplier(false);
+      form.reset();
+      toast({ title: "Supplier added successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add supplier", variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const payableOf = (supplier: Supplier) => parseFloat(supplier.outstandingAmount);
+  const totalPayable = suppliers?.reduce((sum, supplier) => sum + payableOf(supplier), 0) || 0;
+
+  return (
+    <div className="p-4 pb-20 space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Link href="/inventory">
+            <Button variant="ghost" size="sm" className="p-1" data-testid="button-back-to-inventory">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Suppliers</h1>
+            <p className="text-gray-600">Who you buy stock from</p>
+          </div>
+        </div>
+        <Dialog open={showAddSupplier} onOpenChange={setShowAddSupplier}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-supplier">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add New Supplier</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createSupplierMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-supplier-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="contactPerson"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contact (Optional)</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-supplier-contact" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone Number</FormLabel>
+                        <FormControl>
+                          <Input type="tel" {...field} data-testid="input-supplier-phone" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} data-testid="input-supplier-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address (Optional)</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-supplier-address" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State (Optional)</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-supplier-state">
+                              <SelectValue placeholder="From GSTIN" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INDIAN_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="gstNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GSTIN (Optional)</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="uppercase" data-testid="input-supplier-gst-number" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button type="submit" className="flex-1" disabled={createSupplierMutation.isPending} data-testid="button-save-supplier">
+                    Add Supplier
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => {
+                    setShowAddSupplier(false);
+                    form.reset();
+                  }} data-testid="button-cancel">
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 gap-3">
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-blue-600" data-testid="text-total-suppliers">
+              {suppliers?.length || 0}
+            </div>
+            <div className="text-sm text-gray-600">Suppliers</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-red-600" data-testid="text-total-payable">
+              {formatCurrency(totalPayable)}
+            </div>
+            <div className="text-sm text-gray-600">Total Payable</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Suppliers List */}
+      <div className="space-y-3">
+        {isLoading ? (
+          [...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-4">
+                <div className="h-4 bg-gray-200 rounded mb-2 w-32"></div>
+                <div className="h-3 bg-gray-200 rounded w-48"></div>
+              </CardContent>
+            </Card>
+          ))
+        ) : suppliers && suppliers.length > 0 ? (
+          suppliers.map((supplier) => (
+            <Card key={supplier.id} className="shadow-sm border border-gray-100" data-testid={`card-supplier-${supplier.id}`}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <h3 className="font-medium" data-testid={`text-supplier-name-${supplier.id}`}>{supplier.name}</h3>
+                    {supplier.contactPerson && (
+                      <p className="text-sm text-gray-600 flex items-center">
+                        <User className="h-3 w-3 mr-1" />
+                        {supplier.contactPerson}
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <Phone className="h-3 w-3 mr-1" />
+                      {supplier.phone}
+                    </p>
+                    {supplier.gstNumber && (
+                      <p className="text-xs text-gray-500">GSTIN: {supplier.gstNumber}</p>
+                    )}
+                  </div>
+                  <div className="text-right space-y-2">
+                    <div>
+                      <p className={`font-medium ${payableOf(supplier) > 0 ? "text-red-600" : "text-gray-500"}`} data-testid={`text-supplier-payable-${supplier.id}`}>
+                        {formatCurrency(payableOf(supplier))}
+                      </p>
+                      <p className="text-xs text-gray-500">payable</p>
+                    </div>
+                    {payableOf(supplier) > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPayingSupplier(supplier)}
+                        data-testid={`button-pay-supplier-${supplier.id}`}
+                      >
+                        <Wallet className="h-4 w-4 mr-1" />
+                        Pay
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <Card className="shadow-sm border border-gray-100">
+            <CardContent className="p-6 text-center text-gray-500">
+              <Truck className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              No suppliers yet
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {payingSupplier && (
+        <SupplierPaymentModal
+          open={!!payingSupplier}
+          onOpenChange={(open) => !open && setPayingSupplier(null)}
+          supplierId={payingSupplier.id}
+          supplierName={payingSupplier.name}
+          payable={payableOf(payingSupplier)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+/// <reference lib="webworker" />
+// Service worker, built by vite-plugin-pwa (injectManifest). Precaches the app
+// shell from the Vite build, keeps the last catalogue responses for offline
+// starts, and flushes the offline order queue on background sync.
+
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { NavigationRoute, registerRoute } from "workbox-routing";
+import { NetworkFirst } from "workbox-strategies";
+import { ExpirationPlugin } from "workbox-expiration";
+import { CacheableResponsePlugin } from "workbox-cacheable-response";
+import { flushOfflineQueue, OFFLINE_QUEUE_SYNC_TAG } from "@/lib/offline-sync";
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<string | { url: string; revision: string | null }> };
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// Every page of the app is the same index.html; API calls are left alone
+registerRoute(new NavigationRoute(createHandlerBoundToURL("index.html"), {
+  denylist: [/^\/api\//],
+}));
+
+// Products and customers come from the network when there is one, and from
+// the last good response when there isn't
+registerRoute(
+  ({ url, request }) =>
+    request.method === "GET" && (url.pathname === "/api/products" || url.pathname === "/api/customers"),
+  new NetworkFirst({
+    cacheName: "catalog-api",
+    networkTimeoutSeconds: 5,
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [200] }),
+      new ExpirationPlugin({ maxEntries: 10, maxAgeSeconds: 7 * 24 * 60 * 60 }),
+    ],
+  }),
+);
+
+self.addEventListener("sync", (event) => {
+  const syncEvent = event as Event & { tag: string; waitUntil(promise: Promise<unknown>): void };
+  if (syncEvent.tag !== OFFLINE_QUEUE_SYNC_TAG) return;
+  syncEvent.waitUntil(flushOfflineQueue().then(async (summary) => {
+    // Open tabs refresh what the flush changed
+    const windows = await self.clients.matchAll({ type: "window" });
+    windows.forEach((client) => client.postMessage({ type: "offline-queue-synced", summary }));
+    // Rejecting makes the browser retry the sync later
+    if (summary.pending > 0) throw new Error(`${summary.pending} offline orders still pending`);
+  }));
+});
+
+// The update prompt in the app asks a waiting worker to take over
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
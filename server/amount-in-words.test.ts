@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { amountInWordsEnglish, amountInWordsHindi } from "./amount-in-words";
+
+describe("amountInWordsEnglish", () => {
+  it.each([
+    [0, "Rupees Zero Only"],
+    [15, "Rupees Fifteen Only"],
+    [1250.5, "Rupees One Thousand Two Hundred Fifty and Fifty Paise Only"],
+    [100000, "Rupees One Lakh Only"],
+    [2500000, "Rupees Twenty Five Lakh Only"],
+    [12345678.09, "Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight and Nine Paise Only"],
+    [1500000000, "Rupees One Hundred Fifty Crore Only"],
+    [0.75, "Rupees Zero and Seventy Five Paise Only"],
+    [0.999, "Rupees One Only"],
+  ])("writes %d as %j", (amount, words) => {
+    expect(amountInWordsEnglish(amount)).toBe(words);
+  });
+});
+
+describe("amountInWordsHindi", () => {
+  it.each([
+    [0, "शून्य रुपये मात्र"],
+    [1250.5, "एक हज़ार दो सौ पचास रुपये और पचास पैसे मात्र"],
+    [99, "निन्यानबे रुपये मात्र"],
+    [2500000, "पच्चीस लाख रुपये मात्र"],
+    [10000000.01, "एक करोड़ रुपये और एक पैसे मात्र"],
+    [12345678.09, "एक करोड़ तेईस लाख पैंतालीस हज़ार छह सौ अठहत्तर रुपये और नौ पैसे मात्र"],
+    [0.75, "शून्य रुपये और पचहत्तर पैसे मात्र"],
+  ])("writes %d as %j", (amount, words) => {
+    expect(amountInWordsHindi(amount)).toBe(words);
+  });
+});
@@ -0,0 +1,85 @@
+// Amounts in words for invoices, using the Indian system (thousand, lakh, crore)
+
+const ENGLISH_ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine",
+  "Ten", "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const ENGLISH_TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// Hindi has a distinct word for every number below a hundred
+const HINDI_NUMBERS = [
+  "", "एक", "दो", "तीन", "चार", "पाँच", "छह", "सात", "आठ", "नौ",
+  "दस", "ग्यारह", "बारह", "तेरह", "चौदह", "पंद्रह", "सोलह", "सत्रह", "अठारह", "उन्नीस",
+  "बीस", "इक्कीस", "बाईस", "तेईस", "चौबीस", "पच्चीस", "छब्बीस", "सत्ताईस", "अट्ठाईस", "उनतीस",
+  "तीस", "इकतीस", "बत्तीस", "तैंतीस", "चौंतीस", "पैंतीस", "छत्तीस", "सैंतीस", "अड़तीस", "उनतालीस",
+  "चालीस", "इकतालीस", "बयालीस", "तैंतालीस", "चवालीस", "पैंतालीस", "छियालीस", "सैंतालीस", "अड़तालीस", "उनचास",
+  "पचास", "इक्यावन", "बावन", "तिरेपन", "चौवन", "पचपन", "छप्पन", "सत्तावन", "अट्ठावन", "उनसठ",
+  "साठ", "इकसठ", "बासठ", "तिरेसठ", "चौंसठ", "पैंसठ", "छियासठ", "सड़सठ", "अड़सठ", "उनहत्तर",
+  "सत्तर", "इकहत्तर", "बहत्तर", "तिहत्तर", "चौहत्तर", "पचहत्तर", "छिहत्तर", "सतहत्तर", "अठहत्तर", "उन्यासी",
+  "अस्सी", "इक्यासी", "बयासी", "तिरासी", "चौरासी", "पचासी", "छियासी", "सत्तासी", "अट्ठासी", "नवासी",
+  "नब्बे", "इक्यानबे", "बानबे", "तिरानबे", "चौरानबे", "पचानबे", "छियानबे", "सत्तानबे", "अट्ठानबे", "निन्यानबे",
+];
+
+interface NumberWords {
+  belowHundred: (n: number) => string;
+  hundred: string;
+  thousand: string;
+  lakh: string;
+  crore: string;
+}
+
+const ENGLISH: NumberWords = {
+  belowHundred: (n) => n < 20
+    ? ENGLISH_ONES[n]
+    : [ENGLISH_TENS[Math.floor(n / 10)], ENGLISH_ONES[n % 10]].filter(Boolean).join(" "),
+  hundred: "Hundred",
+  thousand: "Thousand",
+  lakh: "Lakh",
+  crore: "Crore",
+};
+
+const HINDI: NumberWords = {
+  belowHundred: (n) => HINDI_NUMBERS[n],
+  hundred: "सौ",
+  thousand: "हज़ार",
+  lakh: "लाख",
+  crore: "करोड़",
+};
+
+function toWords(n: number, words: NumberWords): string {
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor(n / 100000) % 100;
+  const thousand = Math.floor(n / 1000) % 100;
+  const hundred = Math.floor(n / 100) % 10;
+  const rest = n % 100;
+
+  if (crore > 0) parts.push(toWords(crore, words), words.crore);
+  if (lakh > 0) parts.push(words.belowHundred(lakh), words.lakh);
+  if (thousand > 0) parts.push(words.belowHundred(thousand), words.thousand);
+  if (hundred > 0) parts.push(words.belowHundred(hundred), words.hundred);
+  if (rest > 0) parts.push(words.belowHundred(rest));
+
+  return parts.join(" ");
+}
+
+function splitRupees(amount: number): { rupees: number; paise: number } {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  return { rupees: Math.floor(totalPaise / 100), paise: totalPaise % 100 };
+}
+
+// e.g. 1250.5 -> "Rupees One Thousand Two Hundred Fifty and Fifty Paise Only"
+export function amountInWordsEnglish(amount: number): string {
+  const { rupees, paise } = splitRupees(amount);
+  const rupeeWords = rupees > 0 ? toWords(rupees, ENGLISH) : "Zero";
+  const paiseWords = paise > 0 ? ` and ${toWords(paise, ENGLISH)} Paise` : "";
+  return `Rupees ${rupeeWords}${paiseWords} Only`;
+}
+
+// e.g. 1250.5 -> "एक हज़ार दो सौ पचास रुपये और पचास पैसे मात्र"
+export function amountInWordsHindi(amount: number): string {
+  const { rupees, paise } = splitRupees(amount);
+  const rupeeWords = rupees > 0 ? toWords(rupees, HINDI) : "शून्य";
+  const paiseWords = paise > 0 ? ` और ${toWords(paise, HINDI)} पैसे` : "";
+  return `${rupeeWords} रुपये${paiseWords} मात्र`;
+}
@@ -0,0 +1,936 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createCashSale, createProduct, createTestApp, signUpShop, type TestAgent } from "./test-app";
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+describe("authentication", () => {
+  it("rejects API calls without a session", async () => {
+    await request(app).get("/api/products").expect(401);
+  });
+
+  it("signs a shop back in with its password", async () => {
+    await signUpShop(app, { username: "returning-shop" });
+    const agent = request.agent(app);
+    await agent.post("/api/login").send({ username: "returning-shop", password: "wrong-password" }).expect(401);
+    await agent.post("/api/login").send({ username: "returning-shop", password: "secret1" }).expect(200);
+    await agent.get("/api/products").expect(200);
+  });
+});
+
+describe("products", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("creates, lists and updates products", async () => {
+    const product = await createProduct(shop, { name: "Atta", price: "45" });
+
+    const list = await shop.get("/api/products").expect(200);
+    expect(list.body.map((p: { id: string }) => p.id)).toContain(product.id);
+
+    const updated = await shop.put(`/api/products/${product.id}`).send({ price: "48" }).expect(200);
+    expect(parseFloat(updated.body.price)).toBe(48);
+  });
+
+  it("adjusts stock and records the movement", async () => {
+    const product = await createProduct(shop, { stock: "5" });
+
+    const adjusted = await shop.put(`/api/products/${product.id}/stock`).send({ quantity: 3 }).expect(200);
+    expect(parseFloat(adjusted.body.stock)).toBe(8);
+
+    const user = await shop.get("/api/user").expect(200);
+    const movements = await storage.getStockMovements(product.id, user.body.id);
+    expect(movements[0]).toMatchObject({ type: "in", quantity: "3", reason: "adjustment" });
+  });
+
+  it("lists products at or below their minimum stock", async () => {
+    const product = await createProduct(shop, { stock: "1", minStock: "2" });
+    const lowStock = await shop.get("/api/products/low-stock").expect(200);
+    expect(lowStock.body.map((p: { id: string }) => p.id)).toContain(product.id);
+  });
+});
+
+describe("orders", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("takes sold quantities out of stock", async () => {
+    const rice = await createProduct(shop, { stock: "10" });
+    const dal = await createProduct(shop, { name: "Dal", price: "120", stock: "4" });
+
+    const sale = await createCashSale(shop, [
+      { productId: rice.id, quantity: 3 },
+      { productId: dal.id, quantity: 1 },
+    ]);
+    expect(sale.status).toBe(200);
+    expect(sale.body.totalAmount).toBe("270.00");
+
+    const products = await shop.get("/api/products").expect(200);
+    const stockOf = (id: string) => parseFloat(products.body.find((p: { id: string }) => p.id === id).stock);
+    expect(stockOf(rice.id)).toBe(7);
+    expect(stockOf(dal.id)).toBe(3);
+  });
+
+  it("numbers invoices in sequence within the financial year", async () => {
+    const product = await createProduct(shop);
+    const first = await createCashSale(shop, [{ productId: product.id, quantity: 1 }]);
+    const second = await createCashSale(shop, [{ productId: product.id, quantity: 1 }]);
+
+    const sequence = (orderNumber: string) => parseInt(orderNumber.split("/").pop()!, 10);
+    expect(first.body.orderNumber).toMatch(/^INV\/\d{2}-\d{2}\/\d{4}$/);
+    expect(sequence(second.body.orderNumber)).toBe(sequence(first.body.orderNumber) + 1);
+  });
+
+  it("records the payment and returns the order with its items", async () => {
+    const product = await createProduct(shop);
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 2 }]);
+
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    expect(order.body.items).toHaveLength(1);
+    expect(order.body.items[0].product.id).toBe(product.id);
+
+    const transactions = await shop.get("/api/transactions").expect(200);
+    expect(transactions.body).toContainEqual(expect.objectContaining({
+      orderId: sale.body.id,
+      type: "sale",
+      amount: "100.00",
+      paymentMethod: "cash",
+    }));
+  });
+
+  it("rejects totals that disagree with the server's pricing", async () => {
+    const product = await createProduct(shop);
+    const response = await shop.post("/api/orders").send({
+      order: { totalAmount: "1.00", paymentMethod: "cash" },
+      items: [{ productId: product.id, quantity: 1 }],
+    });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Order totals do not match");
+  });
+
+  it("puts credit sales on the customer's khata", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers")
+      .send({ name: "Ramesh", phone: "9123456780", creditLimit: "1000" })
+      .expect(200);
+
+    const quote = await shop.post("/api/orders/quote")
+      .send({ items: [{ productId: product.id, quantity: 2 }] })
+      .expect(200);
+    await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: quote.body.totalAmount, paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 2 }],
+    }).expect(200);
+
+    const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(100);
+  });
+});
+
+describe("dashboard", () => {
+  it("counts today's sales for the shop only", async () => {
+    const shop = await signUpShop(app);
+    const otherShop = await signUpShop(app);
+    const product = await createProduct(shop, { stock: "3", minStock: "2" });
+    const otherProduct = await createProduct(otherShop);
+    await createCashSale(otherShop, [{ productId: otherProduct.id, quantity: 1 }]);
+
+    await createCashSale(shop, [{ productId: product.id, quantity: 2 }]);
+
+    const stats = await shop.get("/api/dashboard/stats").expect(200);
+    expect(stats.body).toMatchObject({ todaySales: 100, ordersCount: 1, lowStockCount: 1, upiCollection: 0 });
+  });
+});
+
+describe("cancellation", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  const stockOf = async (productId: string) => {
+    const products = await shop.get("/api/products").expect(200);
+    return parseFloat(products.body.find((p: { id: string }) => p.id === productId).stock);
+  };
+
+  it("puts the stock back once and refunds the sale", async () => {
+    const product = await createProduct(shop, { stock: "10" });
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 1 }]);
+
+    const cancelled = await shop.post(`/api/orders/${sale.body.id}/cancel`).send({}).expect(200);
+    expect(cancelled.body.status).toBe("cancelled");
+    expect(await stockOf(product.id)).toBe(10);
+
+    const transactions = await shop.get("/api/transactions").expect(200);
+    expect(transactions.body).toContainEqual(expect.objectContaining({
+      orderId: sale.body.id,
+      type: "refund",
+      amount: "50.00",
+    }));
+  });
+
+  it("keeps a cancelled order cancelled, so it can't be restocked twice", async () => {
+    const product = await createProduct(shop, { stock: "10" });
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 1 }]);
+    await shop.post(`/api/orders/${sale.body.id}/cancel`).send({}).expect(200);
+
+    await shop.put(`/api/orders/${sale.body.id}`).send({ status: "completed" });
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    expect(order.body.order.status).toBe("cancelled");
+
+    const again = await shop.post(`/api/orders/${sale.body.id}/cancel`).send({});
+    expect(again.status).toBe(409);
+    expect(await stockOf(product.id)).toBe(10);
+  });
+
+  it("doesn't create orders that are already cancelled", async () => {
+    const product = await createProduct(shop, { stock: "10" });
+    const sale = await shop.post("/api/orders").send({
+      order: { totalAmount: "50.00", paymentMethod: "cash", status: "cancelled" },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(200);
+    expect(sale.body.status).toBe("completed");
+
+    await shop.post(`/api/orders/${sale.body.id}/cancel`).send({}).expect(200);
+    expect(await stockOf(product.id)).toBe(10);
+  });
+});
+
+describe("order amounts and payments", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("ignores amounts, payment state and status sent with a new order", async () => {
+    const product = await createProduct(shop);
+    const sale = await shop.post("/api/orders").send({
+      order: {
+        totalAmount: "50.00",
+        paymentMethod: "upi",
+        paymentStatus: "paid",
+        paidAmount: "50.00",
+        cgstAmount: "999",
+        upiReference: "HACK",
+      },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(200);
+
+    expect(sale.body).toMatchObject({
+      status: "completed",
+      paymentStatus: "pending",
+      paidAmount: "0.00",
+      upiReference: null,
+    });
+    expect(parseFloat(sale.body.cgstAmount)).toBe(0);
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    expect(order.body.payments).toHaveLength(0);
+  });
+
+  it("only lets an edit change notes, customer and delivery details", async () => {
+    const product = await createProduct(shop);
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 2 }]);
+
+    const edited = await shop.put(`/api/orders/${sale.body.id}`).send({
+      totalAmount: "1.00",
+      paidAmount: "0",
+      paymentStatus: "pending",
+      upiReference: "HACK",
+      gstAmount: "0",
+      notes: "Deliver after 6pm",
+    }).expect(200);
+    expect(edited.body).toMatchObject({
+      totalAmount: "100.00",
+      paidAmount: "100.00",
+      paymentStatus: "paid",
+      upiReference: null,
+      notes: "Deliver after 6pm",
+    });
+
+    const payment = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 10, paymentMethod: "cash" });
+    expect(payment.status).toBe(409);
+  });
+
+  it("keeps khata orders with their customer", async () => {
+    const product = await createProduct(shop);
+    const first = await shop.post("/api/customers").send({ name: "Asha", phone: "9000000001" }).expect(200);
+    const second = await shop.post("/api/customers").send({ name: "Vijay", phone: "9000000002" }).expect(200);
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: first.body.id, totalAmount: "50.00", paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(200);
+
+    await shop.put(`/api/orders/${sale.body.id}`).send({ customerId: second.body.id }).expect(409);
+    await shop.put(`/api/orders/${sale.body.id}`).send({ customerId: "no-such-customer" }).expect(404);
+  });
+
+  it("moves a paid order to a customer in the shop's state", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers").send({ name: "Meena", phone: "9000000003", state: "27" }).expect(200);
+    const elsewhere = await shop.post("/api/customers").send({ name: "Ravi", phone: "9000000004", state: "29" }).expect(200);
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 1 }]);
+
+    await shop.put(`/api/orders/${sale.body.id}`).send({ customerId: elsewhere.body.id }).expect(409);
+    const moved = await shop.put(`/api/orders/${sale.body.id}`).send({ customerId: customer.body.id }).expect(200);
+    expect(moved.body.customerId).toBe(customer.body.id);
+  });
+});
+
+describe("returns", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  const stockOf = async (productId: string) => {
+    const products = await shop.get("/api/products").expect(200);
+    return parseFloat(products.body.find((p: { id: string }) => p.id === productId).stock);
+  };
+
+  const orderItemOf = async (orderId: string) => {
+    const order = await shop.get(`/api/orders/${orderId}`).expect(200);
+    return order.body.items[0].id as string;
+  };
+
+  it("caps each line at the quantity sold, less what was already returned", async () => {
+    const product = await createProduct(shop);
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 2 }]);
+    const orderItemId = await orderItemOf(sale.body.id);
+
+    const tooMany = await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "refund", items: [{ orderItemId, quantity: 3 }] });
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body.error).toBe("Cannot return more than was sold");
+
+    await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "refund", items: [{ orderItemId, quantity: 2 }] })
+      .expect(200);
+    await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "refund", items: [{ orderItemId, quantity: 1 }] })
+      .expect(400);
+  });
+
+  it("refunds a split order by its largest tender", async () => {
+    const product = await createProduct(shop);
+    const sale = await shop.post("/api/orders").send({
+      order: { totalAmount: "100.00", paymentMethod: "split" },
+      items: [{ productId: product.id, quantity: 2 }],
+      tenders: [{ paymentMethod: "cash", amount: 30 }, { paymentMethod: "upi", amount: 70 }],
+    }).expect(200);
+
+    const orderItemId = await orderItemOf(sale.body.id);
+
+    const salesReturn = await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "refund", items: [{ orderItemId, quantity: 1 }] })
+      .expect(200);
+    expect(salesReturn.body).toMatchObject({ settlement: "refund", paymentMethod: "upi", amount: "50.00" });
+
+    const transactions = await shop.get("/api/transactions").expect(200);
+    expect(transactions.body).toContainEqual(expect.objectContaining({
+      orderId: sale.body.id,
+      type: "refund",
+      paymentMethod: "upi",
+    }));
+  });
+
+  it("takes a credit note off the customer's outstanding", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers").send({ name: "Sunita", phone: "9000000010" }).expect(200);
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "100.00", paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 2 }],
+    }).expect(200);
+
+    const orderItemId = await orderItemOf(sale.body.id);
+
+    const salesReturn = await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "credit_note", items: [{ orderItemId, quantity: 1 }] })
+      .expect(200);
+    expect(salesReturn.body).toMatchObject({ settlement: "credit_note", paymentMethod: null });
+
+    const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(50);
+  });
+
+  it("refuses a refund on an order nothing was paid for", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers").send({ name: "Kiran", phone: "9000000011" }).expect(200);
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "50.00", paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(200);
+
+    const orderItemId = await orderItemOf(sale.body.id);
+
+    const refund = await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "refund", items: [{ orderItemId, quantity: 1 }] });
+    expect(refund.status).toBe(400);
+    expect(refund.body.error).toBe("Refund exceeds the amount paid on this order");
+  });
+
+  it("puts returned goods back in stock unless they are damaged", async () => {
+    const product = await createProduct(shop, { stock: "10" });
+    const sale = await createCashSale(shop, [{ productId: product.id, quantity: 4 }]);
+    const orderItemId = await orderItemOf(sale.body.id);
+
+    await shop.post(`/api/orders/${sale.body.id}/returns`).send({
+      settlement: "refund",
+      items: [{ orderItemId, quantity: 1, condition: "restock" }, { orderItemId, quantity: 2, condition: "damage" }],
+    }).expect(200);
+    expect(await stockOf(product.id)).toBe(7);
+  });
+});
+
+describe("customer khata", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("refuses a credit sale over the customer's limit", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers")
+      .send({ name: "Gopal", phone: "9000000020", creditLimit: "80" })
+      .expect(200);
+
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "100.00", paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 2 }],
+    });
+    expect(sale.status).toBe(400);
+    expect(sale.body.error).toMatch(/^Credit limit exceeded/);
+
+    const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(ledger.body.entries).toHaveLength(0);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(0);
+  });
+
+  it("keeps the ledger's running balance equal to the outstanding amount", async () => {
+    const product = await createProduct(shop, { stock: "20" });
+    const customer = await shop.post("/api/customers").send({ name: "Lata", phone: "9000000021" }).expect(200);
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "150.00", paymentMethod: "credit" },
+      items: [{ productId: product.id, quantity: 3 }],
+    }).expect(200);
+    await shop.post(`/api/customers/${customer.body.id}/payments`)
+      .send({ amount: 40, paymentMethod: "cash" })
+      .expect(200);
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    await shop.post(`/api/orders/${sale.body.id}/returns`)
+      .send({ settlement: "credit_note", items: [{ orderItemId: order.body.items[0].id, quantity: 1 }] })
+      .expect(200);
+
+    const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(ledger.body.entries.map((entry: { type: string }) => entry.type))
+      .toEqual(["credit_sale", "credit_payment", "credit_note"]);
+    expect(ledger.body.entries.map((entry: { balance: string }) => entry.balance)).toEqual(["150.00", "110.00", "60.00"]);
+    expect(parseFloat(ledger.body.balance)).toBe(60);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(60);
+  });
+
+  it.each(["credit_sale", "credit_payment", "credit_note", "refund"])(
+    "doesn't let a bare %s transaction touch the khata",
+    async (type) => {
+      const customer = await shop.post("/api/customers").send({ name: "Manoj", phone: "9000000022" }).expect(200);
+      await shop.post("/api/transactions").send({
+        customerId: customer.body.id,
+        type,
+        amount: "500.00",
+        paymentMethod: "cash",
+      }).expect(400);
+
+      const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+      expect(ledger.body.entries).toHaveLength(0);
+    },
+  );
+
+  it("still records expenses by hand", async () => {
+    const transaction = await shop.post("/api/transactions")
+      .send({ type: "expense", amount: "250.00", paymentMethod: "cash", description: "Shop rent" })
+      .expect(200);
+    expect(transaction.body).toMatchObject({ type: "expense", amount: "250.00" });
+  });
+});
+
+describe("UPI payments", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+    await shop.put("/api/user").send({ upiId: "kirana@upi" }).expect(200);
+  });
+
+  // A UPI sale the customer hasn't paid for yet
+  async function createUpiOrder(agent: TestAgent, quantity = 2) {
+    const product = await createProduct(agent);
+    const order = await agent.post("/api/orders").send({
+      order: { totalAmount: (quantity * 50).toFixed(2), paymentMethod: "upi" },
+      items: [{ productId: product.id, quantity }],
+    }).expect(200);
+    return order.body as { id: string; orderNumber: string };
+  }
+
+  it("links a payment request for what is still due to the order", async () => {
+    const order = await createUpiOrder(shop);
+    await shop.post(`/api/orders/${order.id}/payments`).send({ amount: 40, paymentMethod: "cash" }).expect(200);
+
+    const intent = await shop.post(`/api/orders/${order.id}/upi-intent`).send({ expiresInMinutes: 10 }).expect(200);
+    expect(intent.body).toMatchObject({ orderId: order.id, amount: 60, upiId: "kirana@upi" });
+    expect(intent.body.transactionRef).toMatch(/^[A-Za-z0-9]{1,35}$/);
+    expect(intent.body.upiUrl).toContain(`tr=${intent.body.transactionRef}`);
+    expect(intent.body.upiUrl).toContain("am=60.00");
+    const expiresInMs = new Date(intent.body.expiresAt).getTime() - Date.now();
+    expect(expiresInMs).toBeGreaterThan(9 * 60 * 1000);
+    expect(expiresInMs).toBeLessThanOrEqual(10 * 60 * 1000);
+
+    // The customer may still be holding the first QR, so the tr stays
+    const again = await shop.post(`/api/orders/${order.id}/upi-intent`).send({}).expect(200);
+    expect(again.body.transactionRef).toBe(intent.body.transactionRef);
+  });
+
+  it("needs the shop's UPI ID for a payment request", async () => {
+    const otherShop = await signUpShop(app);
+    const order = await createUpiOrder(otherShop);
+    const intent = await otherShop.post(`/api/orders/${order.id}/upi-intent`).send({});
+    expect(intent.status).toBe(400);
+    expect(intent.body.error).toBe("UPI ID not configured");
+  });
+
+  it("marks an order paid with the UTR and refuses a second payment", async () => {
+    const order = await createUpiOrder(shop);
+
+    const payment = await shop.post(`/api/orders/${order.id}/upi-payment`).send({ utr: "612300000001" }).expect(200);
+    expect(payment.body).toMatchObject({ type: "sale", paymentMethod: "upi", amount: "100.00", upiTransactionId: "612300000001" });
+    const paid = await shop.get(`/api/orders/${order.id}`).expect(200);
+    expect(paid.body.order).toMatchObject({ paymentStatus: "paid", paidAmount: "100.00" });
+
+    await shop.post(`/api/orders/${order.id}/upi-payment`).send({ utr: "612300000002" }).expect(409);
+    await shop.post(`/api/orders/${order.id}/upi-intent`).send({}).expect(409);
+  });
+
+  it("refuses a UTR already used to pay another order", async () => {
+    const first = await createUpiOrder(shop);
+    const second = await createUpiOrder(shop);
+    await shop.post(`/api/orders/${first.id}/upi-payment`).send({ utr: "612300000003" }).expect(200);
+
+    const reused = await shop.post(`/api/orders/${second.id}/upi-payment`).send({ utr: "612300000003" });
+    expect(reused.status).toBe(409);
+    expect(reused.body.error).toBe("UTR 612300000003 is already recorded against another payment");
+  });
+
+  it("lets only one of two orders marked paid at once with the same UTR have it", async () => {
+    const userId = (await shop.get("/api/user").expect(200)).body.id;
+    const first = await createUpiOrder(shop);
+    const second = await createUpiOrder(shop);
+
+    const results = await Promise.allSettled([
+      storage.recordUpiPayment(first.id, userId, { utr: "612300000004" }),
+      storage.recordUpiPayment(second.id, userId, { utr: "612300000004" }),
+    ]);
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected")!;
+    expect(rejected.reason).toMatchObject({ name: "StorageError", status: 409 });
+  });
+});
+
+describe("split payments", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  const splitSale = (agent: TestAgent, productId: string, tenders: object[], customerId?: string) =>
+    agent.post("/api/orders").send({
+      order: { customerId, totalAmount: "100.00", paymentMethod: "split" },
+      items: [{ productId, quantity: 2 }],
+      tenders,
+    });
+
+  it("records one transaction per tender and puts the khata part on the customer", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers").send({ name: "Pooja", phone: "9000000030" }).expect(200);
+
+    const sale = await splitSale(shop, product.id, [
+      { paymentMethod: "cash", amount: 30 },
+      { paymentMethod: "upi", amount: 50, upiTransactionId: "612300000010" },
+      { paymentMethod: "credit", amount: 20 },
+    ], customer.body.id).expect(200);
+    expect(sale.body).toMatchObject({ paymentMethod: "split", paidAmount: "80.00", paymentStatus: "partial" });
+
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    expect(order.body.payments.map((payment: { type: string; paymentMethod: string; amount: string }) =>
+      [payment.type, payment.paymentMethod, payment.amount]
+    ).sort()).toEqual([
+      ["credit_sale", "credit", "20.00"],
+      ["sale", "cash", "30.00"],
+      ["sale", "upi", "50.00"],
+    ]);
+
+    const ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(20);
+  });
+
+  it("marks the order paid when the tenders other than khata cover the total", async () => {
+    const product = await createProduct(shop);
+    const sale = await splitSale(shop, product.id, [
+      { paymentMethod: "cash", amount: 60 },
+      { paymentMethod: "upi", amount: 40 },
+    ]).expect(200);
+    expect(sale.body).toMatchObject({ paymentMethod: "split", paidAmount: "100.00", paymentStatus: "paid" });
+  });
+
+  it("leaves what the tenders don't cover due on the order", async () => {
+    const product = await createProduct(shop);
+    const sale = await splitSale(shop, product.id, [{ paymentMethod: "cash", amount: 30 }]).expect(200);
+    expect(sale.body).toMatchObject({ paymentMethod: "cash", paidAmount: "30.00", paymentStatus: "partial" });
+  });
+
+  it("refuses tenders adding up to more than the total and writes nothing", async () => {
+    const product = await createProduct(shop, { stock: "10" });
+    const ordersBefore = (await shop.get("/api/orders").expect(200)).body.length;
+
+    const sale = await splitSale(shop, product.id, [
+      { paymentMethod: "cash", amount: 60 },
+      { paymentMethod: "upi", amount: 50 },
+    ]);
+    expect(sale.status).toBe(400);
+    expect(sale.body.error).toBe("Payments of ₹110.00 are more than the ₹100.00 order total");
+
+    expect((await shop.get("/api/orders").expect(200)).body).toHaveLength(ordersBefore);
+    const products = await shop.get("/api/products").expect(200);
+    expect(parseFloat(products.body.find((p: { id: string }) => p.id === product.id).stock)).toBe(10);
+  });
+
+  it("needs a customer for a khata tender and keeps it within their limit", async () => {
+    const product = await createProduct(shop);
+    const noCustomer = await splitSale(shop, product.id, [
+      { paymentMethod: "cash", amount: 50 },
+      { paymentMethod: "credit", amount: 50 },
+    ]);
+    expect(noCustomer.status).toBe(400);
+    expect(noCustomer.body.error).toBe("Credit sales need a customer");
+
+    const customer = await shop.post("/api/customers")
+      .send({ name: "Arjun", phone: "9000000031", creditLimit: "40" })
+      .expect(200);
+    const overLimit = await splitSale(shop, product.id, [
+      { paymentMethod: "cash", amount: 50 },
+      { paymentMethod: "credit", amount: 50 },
+    ], customer.body.id);
+    expect(overLimit.status).toBe(400);
+    expect(overLimit.body.error).toMatch(/^Credit limit exceeded/);
+  });
+});
+
+describe("collecting balances", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("takes payments until the order is paid and refuses overpaying", async () => {
+    const product = await createProduct(shop);
+    const sale = await shop.post("/api/orders").send({
+      order: { totalAmount: "100.00", paymentMethod: "upi" },
+      items: [{ productId: product.id, quantity: 2 }],
+    }).expect(200);
+    expect(sale.body.paymentStatus).toBe("pending");
+
+    const first = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 40, paymentMethod: "cash" }).expect(200);
+    expect(first.body.order).toMatchObject({ paidAmount: "40.00", paymentStatus: "partial" });
+    expect(first.body.transactions).toEqual([expect.objectContaining({ type: "sale", amount: "40.00", paymentMethod: "cash" })]);
+
+    const over = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 70, paymentMethod: "cash" });
+    expect(over.status).toBe(400);
+    expect(over.body.error).toBe(`₹70.00 is more than the ₹60.00 due on order ${sale.body.orderNumber}`);
+
+    const rest = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 60, paymentMethod: "upi" }).expect(200);
+    expect(rest.body.order).toMatchObject({ paidAmount: "100.00", paymentStatus: "paid" });
+
+    const again = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 1, paymentMethod: "cash" });
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe(`Order ${sale.body.orderNumber} is already paid`);
+  });
+
+  it("takes a collection against the khata part off the customer's outstanding", async () => {
+    const product = await createProduct(shop);
+    const customer = await shop.post("/api/customers").send({ name: "Nisha", phone: "9000000040" }).expect(200);
+    const sale = await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "100.00", paymentMethod: "split" },
+      items: [{ productId: product.id, quantity: 2 }],
+      tenders: [{ paymentMethod: "cash", amount: 30 }, { paymentMethod: "credit", amount: 70 }],
+    }).expect(200);
+
+    const collected = await shop.post(`/api/orders/${sale.body.id}/payments`)
+      .send({ amount: 50, paymentMethod: "cash" })
+      .expect(200);
+    expect(collected.body.transactions).toEqual([
+      expect.objectContaining({ type: "credit_payment", amount: "50.00" }),
+    ]);
+    let ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(20);
+
+    const rest = await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 20, paymentMethod: "upi" }).expect(200);
+    expect(rest.body.order.paymentStatus).toBe("paid");
+    ledger = await shop.get(`/api/customers/${customer.body.id}/ledger`).expect(200);
+    expect(parseFloat(ledger.body.customer.outstandingAmount)).toBe(0);
+    expect(parseFloat(ledger.body.balance)).toBe(0);
+  });
+
+  it("refuses a collection put back on the khata", async () => {
+    const product = await createProduct(shop);
+    const sale = await shop.post("/api/orders").send({
+      order: { totalAmount: "50.00", paymentMethod: "upi" },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(200);
+
+    await shop.post(`/api/orders/${sale.body.id}/payments`).send({ amount: 10, paymentMethod: "credit" }).expect(400);
+    const order = await shop.get(`/api/orders/${sale.body.id}`).expect(200);
+    expect(order.body.order).toMatchObject({ paidAmount: "0.00", paymentStatus: "pending" });
+  });
+});
+
+describe("deleting", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("deletes an unused product, category and customer", async () => {
+    const category = await shop.post("/api/categories").send({ name: "Snacks" }).expect(200);
+    const product = await createProduct(shop, { categoryId: category.body.id });
+    const customer = await shop.post("/api/customers").send({ name: "Asha", phone: "9800000001" }).expect(200);
+
+    await shop.delete(`/api/products/${product.id}`).expect(204);
+    await shop.delete(`/api/categories/${category.body.id}`).expect(204);
+    await shop.delete(`/api/customers/${customer.body.id}`).expect(204);
+
+    const products = await shop.get("/api/products").expect(200);
+    expect(products.body.map((p: { id: string }) => p.id)).not.toContain(product.id);
+    const categories = await shop.get("/api/categories").expect(200);
+    expect(categories.body.map((c: { id: string }) => c.id)).not.toContain(category.body.id);
+    const customers = await shop.get("/api/customers").expect(200);
+    expect(customers.body.map((c: { id: string }) => c.id)).not.toContain(customer.body.id);
+  });
+
+  it("answers 404 for another shop's records", async () => {
+    const other = await signUpShop(app);
+    const product = await createProduct(other);
+    const customer = await other.post("/api/customers").send({ name: "Ravi", phone: "9800000002" }).expect(200);
+
+    await shop.delete(`/api/products/${product.id}`).expect(404);
+    await shop.delete(`/api/customers/${customer.body.id}`).expect(404);
+    const products = await other.get("/api/products").expect(200);
+    expect(products.body.map((p: { id: string }) => p.id)).toContain(product.id);
+  });
+
+  it("keeps records that sales or products still point to", async () => {
+    const category = await shop.post("/api/categories").send({ name: "Dairy" }).expect(200);
+    const product = await createProduct(shop, { categoryId: category.body.id });
+    const customer = await shop.post("/api/customers").send({ name: "Meena", phone: "9800000003" }).expect(200);
+    await shop.post("/api/orders").send({
+      order: { customerId: customer.body.id, totalAmount: "50.00", paymentMethod: "cash" },
+      items: [{ productId: product.id, quantity: 1 }],
+      tenders: [{ paymentMethod: "cash", amount: 50 }],
+    }).expect(200);
+
+    await shop.delete(`/api/categories/${category.body.id}`).expect(409);
+    await shop.delete(`/api/products/${product.id}`).expect(409);
+    await shop.delete(`/api/customers/${customer.body.id}`).expect(409);
+    const products = await shop.get("/api/products").expect(200);
+    expect(products.body.map((p: { id: string }) => p.id)).toContain(product.id);
+  });
+});
+
+describe("catalogue sync", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const ids = (records: { id: string }[]) => records.map((record) => record.id);
+
+  it("returns the whole catalogue without a cursor", async () => {
+    const product = await createProduct(shop);
+    const changes = await shop.get("/api/sync/changes").expect(200);
+    expect(changes.body.full).toBe(true);
+    expect(ids(changes.body.products.updated)).toContain(product.id);
+    expect(changes.body.products.deleted).toEqual([]);
+  });
+
+  it("returns what changed or was deleted after the cursor", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-01T10:00:00Z"));
+    const unchanged = await createProduct(shop, { name: "Dal" });
+    const deleted = await createProduct(shop, { name: "Oil" });
+
+    vi.setSystemTime(new Date("2026-10-01T10:05:00Z"));
+    const first = await shop.get("/api/sync/changes").expect(200);
+
+    vi.setSystemTime(new Date("2026-10-01T10:10:00Z"));
+    const added = await createProduct(shop, { name: "Sugar" });
+    await shop.delete(`/api/products/${deleted.id}`).expect(204);
+
+    const changes = await shop.get("/api/sync/changes").query({ since: first.body.cursor }).expect(200);
+    expect(changes.body.full).toBe(false);
+    expect(ids(changes.body.products.updated)).toContain(added.id);
+    expect(ids(changes.body.products.updated)).not.toContain(unchanged.id);
+    expect(changes.body.products.deleted).toEqual([deleted.id]);
+  });
+
+  it("overlaps the cursor by a minute for writes committed around it", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-02T10:00:00Z"));
+    const older = await createProduct(shop, { name: "Salt" });
+    vi.setSystemTime(new Date("2026-10-02T10:04:30Z"));
+    const recent = await createProduct(shop, { name: "Tea" });
+
+    vi.setSystemTime(new Date("2026-10-02T10:06:00Z"));
+    const changes = await shop.get("/api/sync/changes").query({ since: "2026-10-02T10:05:00.000Z" }).expect(200);
+    expect(ids(changes.body.products.updated)).toContain(recent.id);
+    expect(ids(changes.body.products.updated)).not.toContain(older.id);
+  });
+
+  it("refuses a cursor that isn't a timestamp", async () => {
+    const response = await shop.get("/api/sync/changes").query({ since: "yesterday" }).expect(400);
+    expect(response.body.error).toBe("Invalid sync cursor");
+  });
+});
+
+describe("suppliers and purchase orders", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  async function createSupplier(supplier: Record<string, unknown> = {}) {
+    const response = await shop.post("/api/suppliers").send({ name: "Gupta Traders", phone: "9811111111", ...supplier }).expect(200);
+    return response.body as { id: string; gstNumber: string | null; outstandingAmount: string };
+  }
+
+  it("creates, lists and updates suppliers", async () => {
+    const supplier = await createSupplier({ gstNumber: "27aapfu0939f1zv" });
+    expect(supplier.gstNumber).toBe("27AAPFU0939F1ZV");
+    expect(parseFloat(supplier.outstandingAmount)).toBe(0);
+
+    const list = await shop.get("/api/suppliers").expect(200);
+    expect(list.body.map((s: { id: string }) => s.id)).toContain(supplier.id);
+
+    const updated = await shop.put(`/api/suppliers/${supplier.id}`).send({ contactPerson: "Ramesh" }).expect(200);
+    expect(updated.body.contactPerson).toBe("Ramesh");
+
+    await shop.post("/api/suppliers").send({ name: "Bad GSTIN", phone: "9811111112", gstNumber: "27AAPFU0939F1" }).expect(400);
+    const other = await signUpShop(app);
+    await other.put(`/api/suppliers/${supplier.id}`).send({ contactPerson: "Someone" }).expect(404);
+  });
+
+  it("receives a purchase order in parts, adding stock and payable", async () => {
+    const supplier = await createSupplier();
+    const rice = await createProduct(shop, { stock: "10" });
+    const dal = await createProduct(shop, { name: "Dal", stock: "0" });
+
+    const created = await shop.post("/api/purchase-orders").send({
+      supplierId: supplier.id,
+      items: [
+        { productId: rice.id, quantity: 20, unitCost: 40 },
+        { productId: dal.id, quantity: 5, unitCost: 90 },
+      ],
+    }).expect(200);
+    expect(created.body.poNumber).toMatch(/^PO\/\d{2}-\d{2}\/0001$/);
+    expect(created.body.totalAmount).toBe("1250.00");
+    const riceLine = created.body.items.find((item: { productId: string }) => item.productId === rice.id);
+
+    const partial = await shop.post(`/api/purchase-orders/${created.body.id}/receive`)
+      .send({ items: [{ itemId: riceLine.id, quantity: 5 }] })
+      .expect(200);
+    expect(partial.body.status).toBe("partially_received");
+    let products = await shop.get("/api/products").expect(200);
+    const stockOf = (id: string) => parseFloat(products.body.find((p: { id: string }) => p.id === id).stock);
+    expect(stockOf(rice.id)).toBe(15);
+    expect(stockOf(dal.id)).toBe(0);
+    let suppliers = await shop.get("/api/suppliers").expect(200);
+    expect(parseFloat(suppliers.body.find((s: { id: string }) => s.id === supplier.id).outstandingAmount)).toBe(200);
+
+    const rest = await shop.post(`/api/purchase-orders/${created.body.id}/receive`).send({}).expect(200);
+    expect(rest.body.status).toBe("received");
+    products = await shop.get("/api/products").expect(200);
+    expect(stockOf(rice.id)).toBe(30);
+    expect(stockOf(dal.id)).toBe(5);
+    suppliers = await shop.get("/api/suppliers").expect(200);
+    expect(parseFloat(suppliers.body.find((s: { id: string }) => s.id === supplier.id).outstandingAmount)).toBe(1250);
+
+    await shop.post(`/api/purchase-orders/${created.body.id}/receive`).send({}).expect(409);
+  });
+
+  it("refuses a purchase order for another shop's product", async () => {
+    const supplier = await createSupplier();
+    const other = await signUpShop(app);
+    const product = await createProduct(other);
+
+    const response = await shop.post("/api/purchase-orders").send({
+      supplierId: supplier.id,
+      items: [{ productId: product.id, quantity: 1, unitCost: 10 }],
+    }).expect(404);
+    expect(response.body.error).toBe("Product not found");
+  });
+
+  it("lowers the payable with each payment, but not past it", async () => {
+    const supplier = await createSupplier();
+    const product = await createProduct(shop);
+    const purchaseOrder = await shop.post("/api/purchase-orders").send({
+      supplierId: supplier.id,
+      items: [{ productId: product.id, quantity: 10, unitCost: 30 }],
+    }).expect(200);
+    await shop.post(`/api/purchase-orders/${purchaseOrder.body.id}/receive`).send({}).expect(200);
+
+    const payment = await shop.post(`/api/suppliers/${supplier.id}/payments`)
+      .send({ amount: 100, paymentMethod: "upi" })
+      .expect(200);
+    expect(payment.body).toMatchObject({ type: "purchase", supplierId: supplier.id, amount: "100.00" });
+    await shop.post(`/api/suppliers/${supplier.id}/payments`).send({ amount: 250, paymentMethod: "cash" }).expect(400);
+
+    const suppliers = await shop.get("/api/suppliers").expect(200);
+    expect(parseFloat(suppliers.body.find((s: { id: string }) => s.id === supplier.id).outstandingAmount)).toBe(200);
+    const payments = await shop.get(`/api/suppliers/${supplier.id}/payments`).expect(200);
+    expect(payments.body).toHaveLength(1);
+  });
+
+  it("only records supplier payments against the supplier", async () => {
+    const supplier = await createSupplier();
+    const other = await signUpShop(app);
+    const otherSupplier = await other.post("/api/suppliers").send({ name: "Elsewhere", phone: "9822222222" }).expect(200);
+    const payment = { type: "purchase", amount: "100", paymentMethod: "cash" };
+
+    await shop.post("/api/transactions").send({ ...payment, supplierId: otherSupplier.body.id }).expect(404);
+    await shop.post("/api/transactions").send({ ...payment, supplierId: "no-such-supplier" }).expect(404);
+    await shop.post("/api/transactions").send({ ...payment, supplierId: supplier.id }).expect(400);
+
+    const payments = await shop.get(`/api/suppliers/${supplier.id}/payments`).expect(200);
+    expect(payments.body).toEqual([]);
+  });
+});
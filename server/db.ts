@@ -1,21 +1,46 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from "@shared/schema";
 
-if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error(
-    "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set. Did you forget to configure Supabase?",
-  );
+// DATABASE_URL (any PostgreSQL server) takes precedence; otherwise the
+// connection string is derived from the Supabase project settings
+function getConnectionString(): string {
+  if (process.env.DATABASE_URL) {
+    return process.env.DATABASE_URL;
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_DB_PASSWORD) {
+    throw new Error(
+      "DATABASE_URL, or SUPABASE_URL and SUPABASE_DB_PASSWORD, must be set. Did you forget to configure the database?",
+    );
+  }
+
+  return `postgresql://postgres:${process.env.SUPABASE_DB_PASSWORD}@${process.env.SUPABASE_URL.replace('https://', '').replace('.supabase.co', '')}.supabase.co:5432/postgres`;
 }
 
-// Create Supabase client for auth and other features
-export const supabase = createClient(
-  process.env.SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY
-);
+function createDatabase() {
+  // Create Supabase client for auth and other features, when configured
+  const supabase: SupabaseClient | null =
+    process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+      ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+      : null;
+
+  // Create postgres connection for Drizzle ORM
+  const client = postgres(getConnectionString());
+  return { supabase, db: drizzle(client, { schema }) };
+}
+
+let database: ReturnType<typeof createDatabase> | null = null;
+
+// Connect on first use rather than at import, so the server can run
+// against the in-memory storage without any database configuration
+function getDatabase() {
+  if (!database) {
+    database = createDatabase();
+  }
+  return database;
+}
 
-// Create postgres connection for Drizzle ORM
-const connectionString = `postgresql://postgres:${process.env.SUPABASE_DB_PASSWORD}@${process.env.SUPABASE_URL.replace('https://', '').replace('.supabase.co', '')}.supabase.co:5432/postgres`;
-const client = postgres(connectionString);
-export const db = drizzle(client, { schema });
\ No newline at end of file
+export const getDb = () => getDatabase().db;
+export const getSupabase = () => getDatabase().supabase;
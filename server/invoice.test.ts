@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Order, OrderItem } from "@shared/schema";
+import { getBalanceDue, getLineAmounts, summariseByHsn } from "./invoice";
+
+let itemCount = 0;
+
+// An order line as stored, with per-line tax unless the test leaves it out
+function orderItem(item: Partial<OrderItem>): OrderItem {
+  itemCount += 1;
+  return {
+    id: `item-${itemCount}`,
+    orderId: "order-1",
+    productId: `product-${itemCount}`,
+    quantity: "1.000",
+    unitPrice: "0.00",
+    totalPrice: "0.00",
+    gstRate: "0.00",
+    hsnCode: null,
+    taxableAmount: "0.00",
+    taxAmount: "0.00",
+    ...item,
+  };
+}
+
+describe("getLineAmounts", () => {
+  it("reads the taxable value and tax recorded on the line", () => {
+    const item = orderItem({ totalPrice: "118.00", gstRate: "18.00", taxableAmount: "100.00", taxAmount: "18.00" });
+    expect(getLineAmounts(item)).toEqual({ taxableAmount: 100, taxAmount: 18 });
+  });
+
+  it("treats the total of a line saved without per-line tax as untaxed value", () => {
+    expect(getLineAmounts(orderItem({ totalPrice: "250.00" }))).toEqual({ taxableAmount: 250, taxAmount: 0 });
+    expect(getLineAmounts(orderItem({ totalPrice: "40.00", taxableAmount: null, taxAmount: null })))
+      .toEqual({ taxableAmount: 40, taxAmount: 0 });
+  });
+});
+
+describe("summariseByHsn", () => {
+  const items = [
+    orderItem({ hsnCode: "1006", gstRate: "5.00", totalPrice: "105.00", taxableAmount: "100.00", taxAmount: "5.00" }),
+    orderItem({ hsnCode: "1006", gstRate: "5.00", totalPrice: "21.00", taxableAmount: "20.00", taxAmount: "1.00" }),
+    orderItem({ hsnCode: "1006", gstRate: "12.00", totalPrice: "56.00", taxableAmount: "50.00", taxAmount: "6.00" }),
+    orderItem({ hsnCode: "3401", gstRate: "18.00", totalPrice: "23.60", taxableAmount: "20.00", taxAmount: "3.60" }),
+  ];
+
+  it("groups lines by HSN code and rate, splitting the tax into CGST and SGST", () => {
+    expect(summariseByHsn(items, false)).toEqual([
+      { hsnCode: "1006", gstRate: 5, taxableAmount: 120, cgstAmount: 3, sgstAmount: 3, igstAmount: 0 },
+      { hsnCode: "1006", gstRate: 12, taxableAmount: 50, cgstAmount: 3, sgstAmount: 3, igstAmount: 0 },
+      { hsnCode: "3401", gstRate: 18, taxableAmount: 20, cgstAmount: 1.8, sgstAmount: 1.8, igstAmount: 0 },
+    ]);
+  });
+
+  it("charges the tax of an inter-state order as IGST", () => {
+    expect(summariseByHsn(items, true).map((row) => row.igstAmount)).toEqual([6, 6, 3.6]);
+  });
+
+  it("gives the odd paisa of a group to SGST", () => {
+    const [row] = summariseByHsn([
+      orderItem({ hsnCode: "0401", gstRate: "5.00", taxableAmount: "19.00", taxAmount: "0.95" }),
+    ], false);
+    expect(row).toMatchObject({ cgstAmount: 0.47, sgstAmount: 0.48 });
+  });
+
+  it("lists legacy lines without an HSN code or tax under \"-\" at 0%", () => {
+    expect(summariseByHsn([orderItem({ totalPrice: "80.00" }), orderItem({ totalPrice: "20.00" })], false))
+      .toEqual([{ hsnCode: "-", gstRate: 0, taxableAmount: 100, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 }]);
+  });
+});
+
+describe("getBalanceDue", () => {
+  const order = (totalAmount: string, paidAmount: string | null, status = "completed") =>
+    ({ totalAmount, paidAmount, status }) as Order;
+
+  it("is what is left of the total after payments", () => {
+    expect(getBalanceDue(order("500.00", "200.50"))).toBe(299.5);
+    expect(getBalanceDue(order("500.00", null))).toBe(500);
+  });
+
+  it("is nothing once the order is paid, overpaid or cancelled", () => {
+    expect(getBalanceDue(order("500.00", "500.00"))).toBe(0);
+    expect(getBalanceDue(order("500.00", "600.00"))).toBe(0);
+    expect(getBalanceDue(order("500.00", "0.00", "cancelled"))).toBe(0);
+  });
+});
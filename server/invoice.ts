@@ -0,0 +1,285 @@
+import PDFDocument from "pdfkit";
+import { createRequire } from "module";
+import { INDIAN_STATES, roundCurrency, splitTax } from "@shared/gst";
+import { encodeQr, qrToPng } from "@shared/qr";
+import { buildUpiIntent } from "@shared/upi";
+import type { Customer, Order, OrderItem, Product, User } from "@shared/schema";
+import { amountInWordsEnglish, amountInWordsHindi } from "./amount-in-words";
+
+const require = createRequire(import.meta.url);
+const DEVANAGARI_FONT = require.resolve(
+  "@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff",
+);
+
+const PAGE_MARGIN = 40;
+const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2;
+
+export interface InvoiceData {
+  shop: User;
+  order: Order;
+  items: (OrderItem & { product: Product })[];
+  customer?: Customer;
+}
+
+export interface HsnSummaryRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+// Lines saved before per-line tax was recorded only carry their total
+export function getLineAmounts(item: OrderItem) {
+  const taxAmount = parseFloat(item.taxAmount || "0");
+  const taxableAmount = parseFloat(item.taxableAmount || "0");
+  if (taxableAmount === 0 && taxAmount === 0) {
+    return { taxableAmount: parseFloat(item.totalPrice), taxAmount: 0 };
+  }
+  return { taxableAmount, taxAmount };
+}
+
+export function isInterStateOrder(order: Order): boolean {
+  return parseFloat(order.igstAmount || "0") > 0;
+}
+
+// GST rules require the tax to be summarised per HSN code and rate
+export function summariseByHsn(items: OrderItem[], isInterState: boolean): HsnSummaryRow[] {
+  const groups = new Map<string, { hsnCode: string; gstRate: number; taxableAmount: number; taxAmount: number }>();
+  for (const item of items) {
+    const hsnCode = item.hsnCode || "-";
+    const gstRate = parseFloat(item.gstRate || "0");
+    const key = `${hsnCode}@${gstRate}`;
+    const group = groups.get(key) ?? { hsnCode, gstRate, taxableAmount: 0, taxAmount: 0 };
+    const amounts = getLineAmounts(item);
+    group.taxableAmount = roundCurrency(group.taxableAmount + amounts.taxableAmount);
+    group.taxAmount = roundCurrency(group.taxAmount + amounts.taxAmount);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(({ taxAmount, ...group }) => ({
+    ...group,
+    ...splitTax(taxAmount, isInterState),
+  }));
+}
+
+export function getBalanceDue(order: Order): number {
+  if (order.status === "cancelled") return 0;
+  return Math.max(0, roundCurrency(parseFloat(order.totalAmount) - parseFloat(order.paidAmount || "0")));
+}
+
+export function getUpiPaymentUrl(shop: User, order: Order, amount: number): string {
+  return buildUpiIntent({
+    payeeAddress: shop.upiId!,
+    payeeName: shop.shopName,
+    amount,
+    transactionNote: `Invoice ${order.orderNumber}`,
+  });
+}
+
+function getStateName(code: string | null | undefined): string | undefined {
+  if (!code) return undefined;
+  const state = INDIAN_STATES.find((s) => s.code === code);
+  return state ? `${state.name} (${state.code})` : code;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+interface Column {
+  label: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+function drawRow(doc: PDFKit.PDFDocument, columns: Column[], values: string[], y: number, bold = false): number {
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+  const height = Math.max(...columns.map((column, index) =>
+    doc.heightOfString(values[index], { width: column.width - 4 })
+  )) + 6;
+
+  let x = PAGE_MARGIN;
+  columns.forEach((column, index) => {
+    doc.text(values[index], x + 2, y + 3, { width: column.width - 4, align: column.align ?? "left" });
+    x += column.width;
+  });
+  doc.moveTo(PAGE_MARGIN, y + height).lineTo(PAGE_MARGIN + CONTENT_WIDTH, y + height).lineWidth(0.5).stroke("#cccccc");
+  return y + height;
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, y: number, needed: number): number {
+  if (y + needed > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+    return PAGE_MARGIN;
+  }
+  return y;
+}
+
+export async function renderInvoicePdf({ shop, order, items, customer }: InvoiceData): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: `Invoice ${order.orderNumber}` } });
+  doc.registerFont("Devanagari", DEVANAGARI_FONT);
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const isInterState = isInterStateOrder(order);
+  const total = parseFloat(order.totalAmount);
+  const balanceDue = getBalanceDue(order);
+
+  // Shop details
+  doc.font("Helvetica-Bold").fontSize(16).text(shop.shopName, PAGE_MARGIN, PAGE_MARGIN, { width: CONTENT_WIDTH / 2 });
+  if (shop.shopNameHindi) {
+    doc.font("Devanagari").fontSize(12).text(shop.shopNameHindi, { width: CONTENT_WIDTH / 2 });
+  }
+  doc.font("Helvetica").fontSize(9);
+  if (shop.address) doc.text(shop.address, { width: CONTENT_WIDTH / 2 });
+  doc.text(`Phone: ${shop.phone}`);
+  if (shop.gstNumber) doc.text(`GSTIN: ${shop.gstNumber}`);
+  const shopState = getStateName(shop.state ?? shop.gstNumber?.slice(0, 2));
+  if (shopState) doc.text(`State: ${shopState}`);
+  const shopBottom = doc.y;
+
+  // Invoice details
+  const rightX = PAGE_MARGIN + CONTENT_WIDTH / 2;
+  doc.font("Helvetica-Bold").fontSize(14)
+    .text(order.status === "cancelled" ? "TAX INVOICE (CANCELLED)" : "TAX INVOICE", rightX, PAGE_MARGIN, { width: CONTENT_WIDTH / 2, align: "right" });
+  doc.font("Helvetica").fontSize(9);
+  doc.text(`Invoice No: ${order.orderNumber}`, { width: CONTENT_WIDTH / 2, align: "right" });
+  doc.text(`Date: ${(order.createdAt ?? new Date()).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}`, { width: CONTENT_WIDTH / 2, align: "right" });
+  const placeOfSupply = getStateName(order.placeOfSupply);
+  if (placeOfSupply) doc.text(`Place of Supply: ${placeOfSupply}`, { width: CONTENT_WIDTH / 2, align: "right" });
+
+  // Buyer
+  let y = Math.max(shopBottom, doc.y) + 12;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + CONTENT_WIDTH, y).lineWidth(1).stroke("#000000");
+  doc.font("Helvetica-Bold").fontSize(9).text("Bill To", PAGE_MARGIN, y + 6);
+  doc.font("Helvetica").fontSize(9);
+  if (customer) {
+    doc.text(customer.name);
+    doc.text(`Phone: ${customer.phone}`);
+    if (customer.address) doc.text(customer.landmark ? `${customer.address} (Near ${customer.landmark})` : customer.address);
+    if (customer.gstNumber) doc.text(`GSTIN: ${customer.gstNumber}`);
+  } else {
+    doc.text("Walk-in customer");
+  }
+
+  // Line items
+  const taxLabel = isInterState ? "IGST" : "CGST+SGST";
+  const itemColumns: Column[] = [
+    { label: "#", width: 20 },
+    { label: "Item", width: 145 },
+    { label: "HSN", width: 50 },
+    { label: "Qty", width: 45, align: "right" },
+    { label: "Rate", width: 55, align: "right" },
+    { label: "Taxable", width: 60, align: "right" },
+    { label: "GST %", width: 35, align: "right" },
+    { label: taxLabel, width: 50, align: "right" },
+    { label: "Amount", width: CONTENT_WIDTH - 460, align: "right" },
+  ];
+  y = doc.y + 12;
+  y = drawRow(doc, itemColumns, itemColumns.map((column) => column.label), y, true);
+  items.forEach((item, index) => {
+    y = ensureSpace(doc, y, 30);
+    const amounts = getLineAmounts(item);
+    y = drawRow(doc, itemColumns, [
+      (index + 1).toString(),
+      item.product.name,
+      item.hsnCode || "-",
+      `${parseFloat(item.quantity)} ${item.product.unit}`,
+      formatAmount(parseFloat(item.unitPrice)),
+      formatAmount(amounts.taxableAmount),
+      parseFloat(item.gstRate || "0").toString(),
+      formatAmount(amounts.taxAmount),
+      formatAmount(parseFloat(item.totalPrice)),
+    ], y);
+  });
+
+  // Totals
+  const taxRows: [string, string | null][] = isInterState
+    ? [["IGST", order.igstAmount]]
+    : [["CGST", order.cgstAmount], ["SGST", order.sgstAmount]];
+  const totalRows: [string, number][] = [
+    ...(parseFloat(order.discountAmount || "0") > 0
+      ? [["Discount", -parseFloat(order.discountAmount!)] as [string, number]]
+      : []),
+    ...taxRows.map(([label, amount]) => [label, parseFloat(amount || "0")] as [string, number]),
+    ["Total", total],
+    ["Paid", parseFloat(order.paidAmount || "0")],
+    ["Balance Due", balanceDue],
+  ];
+  y = ensureSpace(doc, y + 8, totalRows.length * 14 + 40);
+  for (const [label, amount] of totalRows) {
+    const bold = label === "Total" || label === "Balance Due";
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    doc.text(label, PAGE_MARGIN + CONTENT_WIDTH - 200, y, { width: 100 });
+    doc.text(`Rs. ${formatAmount(amount)}`, PAGE_MARGIN + CONTENT_WIDTH - 100, y, { width: 100, align: "right" });
+    y += 14;
+  }
+
+  // Amount in words
+  y = ensureSpace(doc, y + 6, 40);
+  doc.font("Helvetica-Bold").fontSize(9).text("Amount in words:", PAGE_MARGIN, y);
+  doc.font("Helvetica").text(amountInWordsEnglish(total), { width: CONTENT_WIDTH });
+  doc.font("Devanagari").fontSize(10).text(amountInWordsHindi(total), { width: CONTENT_WIDTH });
+
+  // HSN summary
+  const hsnColumns: Column[] = isInterState
+    ? [
+      { label: "HSN", width: 95 },
+      { label: "Taxable Value", width: 105, align: "right" },
+      { label: "IGST Rate", width: 80, align: "right" },
+      { label: "IGST Amount", width: 115, align: "right" },
+      { label: "Total Tax", width: CONTENT_WIDTH - 395, align: "right" },
+    ]
+    : [
+      { label: "HSN", width: 75 },
+      { label: "Taxable Value", width: 90, align: "right" },
+      { label: "CGST Rate", width: 60, align: "right" },
+      { label: "CGST Amount", width: 80, align: "right" },
+      { label: "SGST Rate", width: 60, align: "right" },
+      { label: "SGST Amount", width: 80, align: "right" },
+      { label: "Total Tax", width: CONTENT_WIDTH - 445, align: "right" },
+    ];
+  y = ensureSpace(doc, doc.y + 12, 60);
+  doc.font("Helvetica-Bold").fontSize(9).text("HSN Summary", PAGE_MARGIN, y);
+  y = drawRow(doc, hsnColumns, hsnColumns.map((column) => column.label), doc.y + 4, true);
+  for (const row of summariseByHsn(items, isInterState)) {
+    y = ensureSpace(doc, y, 20);
+    const totalTax = row.cgstAmount + row.sgstAmount + row.igstAmount;
+    y = drawRow(doc, hsnColumns, isInterState
+      ? [row.hsnCode, formatAmount(row.taxableAmount), `${row.gstRate}%`, formatAmount(row.igstAmount), formatAmount(totalTax)]
+      : [
+        row.hsnCode,
+        formatAmount(row.taxableAmount),
+        `${row.gstRate / 2}%`,
+        formatAmount(row.cgstAmount),
+        `${row.gstRate / 2}%`,
+        formatAmount(row.sgstAmount),
+        formatAmount(totalTax),
+      ], y);
+  }
+
+  // UPI QR for whatever is still unpaid
+  if (balanceDue > 0 && shop.upiId) {
+    const qr = Buffer.from(qrToPng(encodeQr(getUpiPaymentUrl(shop, order, balanceDue))));
+    y = ensureSpace(doc, y + 16, 140);
+    doc.font("Helvetica-Bold").fontSize(9).text(`Scan to pay balance of Rs. ${formatAmount(balanceDue)}`, PAGE_MARGIN, y);
+    const qrY = doc.y + 4;
+    doc.image(qr, PAGE_MARGIN, qrY, { width: 110 });
+    doc.y = qrY + 110;
+    doc.font("Helvetica").fontSize(9).text(`UPI ID: ${shop.upiId}`, PAGE_MARGIN, doc.y + 4);
+  }
+
+  y = ensureSpace(doc, doc.y + 20, 20);
+  doc.font("Helvetica").fontSize(8).fillColor("#666666")
+    .text("This is a computer generated invoice.", PAGE_MARGIN, y, { width: CONTENT_WIDTH, align: "center" });
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,187 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { randomUUID } from "crypto";
+import type { Express } from "express";
+import { resolveStockConflict, syncOfflineOrders } from "./offline-sync";
+import { createProduct, createTestApp, signUpShop, type TestAgent } from "./test-app";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+// A cash sale as the device queues it: one line at the given price
+function offlineSale(productId: string, { unitPrice = 50, quantity = 1, capturedAt = new Date() } = {}) {
+  const total = (unitPrice * quantity).toFixed(2);
+  return {
+    clientId: randomUUID(),
+    capturedAt: capturedAt.toISOString(),
+    order: { totalAmount: total, paymentMethod: "cash" },
+    items: [{ productId, quantity, unitPrice }],
+    tenders: [{ paymentMethod: "cash", amount: parseFloat(total) }],
+  };
+}
+
+async function sync(agent: TestAgent, ...orders: object[]) {
+  const response = await agent.post("/api/sync/orders").send({ orders }).expect(200);
+  return response.body.results as { clientId: string; status: string; orderId?: string; error?: string }[];
+}
+
+describe("sale time", () => {
+  let shop: TestAgent;
+  let productId: string;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+    productId = (await createProduct(shop, { stock: "100" })).id;
+  });
+
+  it("keeps the time a recent sale was captured", async () => {
+    const capturedAt = new Date(Date.now() - 2 * DAY_MS);
+    const [result] = await sync(shop, offlineSale(productId, { capturedAt }));
+    expect(result.status).toBe("synced");
+
+    const order = await shop.get(`/api/orders/${result.orderId}`).expect(200);
+    expect(new Date(order.body.order.createdAt).getTime()).toBe(capturedAt.getTime());
+  });
+
+  it("refuses sales dated after the server's clock", async () => {
+    const [result] = await sync(shop, offlineSale(productId, { capturedAt: new Date(Date.now() + 60 * 1000) }));
+    expect(result).toMatchObject({ status: "rejected", error: "Sale is dated in the future" });
+  });
+
+  it("refuses sales from before the capture window", async () => {
+    const [result] = await sync(shop, offlineSale(productId, { capturedAt: new Date(Date.now() - 8 * DAY_MS) }));
+    expect(result).toMatchObject({ status: "rejected", error: "Sale is more than 7 days old" });
+
+    const orders = await shop.get("/api/orders").expect(200);
+    expect(orders.body).toHaveLength(1);
+  });
+});
+
+describe("captured prices", () => {
+  let shop: TestAgent;
+
+  beforeAll(async () => {
+    shop = await signUpShop(app);
+  });
+
+  it("syncs sales charged at the catalogue price", async () => {
+    const product = await createProduct(shop, { price: "50" });
+    const [result] = await sync(shop, offlineSale(product.id, { unitPrice: 50 }));
+    expect(result.status).toBe("synced");
+  });
+
+  it("holds sales charged at another price until the owner accepts them", async () => {
+    const product = await createProduct(shop, { price: "50", stock: "10" });
+    const sale = offlineSale(product.id, { unitPrice: 1, quantity: 2 });
+
+    const [held] = await sync(shop, sale);
+    expect(held.status).toBe("held");
+    expect((await shop.get("/api/orders").expect(200)).body.map((o: { clientId: string }) => o.clientId))
+      .not.toContain(sale.clientId);
+
+    const conflicts = await shop.get("/api/stock-conflicts?status=open").expect(200);
+    const conflict = conflicts.body.find((c: { clientId: string }) => c.clientId === sale.clientId);
+    expect(conflict).toMatchObject({ reason: "price", policy: "hold", unitPrice: "1.00", quantity: "2.000" });
+    expect(parseFloat(conflict.catalogPrice)).toBe(50);
+
+    // Syncing again while it waits doesn't create it either
+    expect((await sync(shop, sale))[0].status).toBe("held");
+
+    const [resolved] = (await shop.post(`/api/stock-conflicts/${conflict.id}/resolve`)
+      .send({ action: "accept" })
+      .expect(200)).body;
+    const order = await shop.get(`/api/orders/${resolved.orderId}`).expect(200);
+    expect(order.body.order.totalAmount).toBe("2.00");
+
+    const [synced] = await sync(shop, sale);
+    expect(synced).toMatchObject({ status: "duplicate", orderId: resolved.orderId });
+  });
+
+  it("discards a held sale the owner rejects", async () => {
+    const product = await createProduct(shop, { price: "50", stock: "10" });
+    const sale = offlineSale(product.id, { unitPrice: 60 });
+    await sync(shop, sale);
+
+    const conflicts = await shop.get("/api/stock-conflicts?status=open").expect(200);
+    const conflict = conflicts.body.find((c: { clientId: string }) => c.clientId === sale.clientId);
+    await shop.post(`/api/stock-conflicts/${conflict.id}/resolve`).send({ action: "reject" }).expect(200);
+
+    expect((await sync(shop, sale))[0].status).toBe("rejected");
+    const products = await shop.get("/api/products").expect(200);
+    expect(parseFloat(products.body.find((p: { id: string }) => p.id === product.id).stock)).toBe(10);
+  });
+});
+
+// The syncs are started side by side in-process, so their awaits interleave
+// the way two requests' queries would
+describe("stock checks", () => {
+  const stockOf = async (agent: TestAgent, productId: string) => {
+    const products = await agent.get("/api/products").expect(200);
+    return parseFloat(products.body.find((p: { id: string }) => p.id === productId).stock);
+  };
+
+  async function syncSideBySide(agent: TestAgent, productId: string) {
+    const userId = (await agent.get("/api/user").expect(200)).body.id;
+    return (await Promise.all([
+      syncOfflineOrders(userId, [offlineSale(productId)]),
+      syncOfflineOrders(userId, [offlineSale(productId)]),
+    ])).map(([result]) => result);
+  }
+
+  it("holds the second of two concurrent syncs for the last unit under the hold policy", async () => {
+    const shop = await signUpShop(app);
+    await shop.put("/api/user").send({ offlineStockPolicy: "hold" }).expect(200);
+    const product = await createProduct(shop, { stock: "1" });
+
+    const results = await syncSideBySide(shop, product.id);
+    expect(results.map((result) => result.status).sort()).toEqual(["held", "synced"]);
+    expect(await stockOf(shop, product.id)).toBe(0);
+
+    const conflicts = await shop.get("/api/stock-conflicts?status=open").expect(200);
+    expect(conflicts.body).toHaveLength(1);
+    expect(conflicts.body[0]).toMatchObject({ reason: "stock", policy: "hold", orderId: null });
+    expect(parseFloat(conflicts.body[0].availableStock)).toBe(0);
+  });
+
+  it("flags the second of two concurrent syncs for the last unit under allow_negative", async () => {
+    const shop = await signUpShop(app);
+    const product = await createProduct(shop, { stock: "1" });
+
+    const results = await syncSideBySide(shop, product.id);
+    expect(results.map((result) => result.status)).toEqual(["synced", "synced"]);
+    expect(await stockOf(shop, product.id)).toBe(-1);
+
+    const conflicts = await shop.get("/api/stock-conflicts?status=open").expect(200);
+    expect(conflicts.body).toHaveLength(1);
+    expect(conflicts.body[0]).toMatchObject({ reason: "stock", policy: "allow_negative" });
+    expect(results.map((result) => result.orderId)).toContain(conflicts.body[0].orderId);
+    expect(parseFloat(conflicts.body[0].availableStock)).toBe(0);
+  });
+});
+
+describe("resolving held sales", () => {
+  it("creates the order once when the owner accepts a held sale twice at the same time", async () => {
+    const shop = await signUpShop(app);
+    const userId = (await shop.get("/api/user").expect(200)).body.id;
+    const product = await createProduct(shop, { price: "50" });
+    const sale = offlineSale(product.id, { unitPrice: 45 });
+    await sync(shop, sale);
+    const conflicts = await shop.get("/api/stock-conflicts?status=open").expect(200);
+
+    const results = await Promise.allSettled([
+      resolveStockConflict(userId, conflicts.body[0].id, "accept"),
+      resolveStockConflict(userId, conflicts.body[0].id, "accept"),
+    ]);
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected")!;
+    expect(rejected.reason).toMatchObject({ status: 409, message: "Stock conflict is already resolved" });
+
+    const orders = await shop.get("/api/orders").expect(200);
+    expect(orders.body.filter((order: { clientId: string }) => order.clientId === sale.clientId)).toHaveLength(1);
+    await shop.post(`/api/stock-conflicts/${conflicts.body[0].id}/resolve`).send({ action: "accept" }).expect(409);
+  });
+});
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import {
+  offlineOrderSchema,
+  type InsertStockConflict,
+  type OfflineOrder,
+  type OfflineStockPolicy,
+  type OfflineSyncResult,
+  type Order,
+  type StockConflict,
+  type StockConflictAction,
+} from "@shared/schema";
+import { applyPricing, quoteOrder } from "./pricing";
+import { findStockShortfalls, StockShortfallError, storage, StorageError } from "./storage";
+
+function describeInvalidRecord(error: z.ZodError): string {
+  return error.errors.map((issue) => `${issue.path.join(".") || "record"}: ${issue.message}`).join("; ");
+}
+
+// How long after a sale was rung up offline the server still takes it, so a
+// device clock can't backdate sales into a closed GST period
+const MAX_OFFLINE_SALE_AGE_DAYS = 7;
+const HELD_FOR_REVIEW = "Waiting for the owner to review the sale";
+
+type PricedOfflineOrder = ReturnType<typeof applyPricing>;
+
+// capturedAt comes from the device clock; only the server's is trusted
+function assertCapturedRecently(record: OfflineOrder, now: Date) {
+  const age = now.getTime() - record.capturedAt.getTime();
+  if (age < 0) {
+    throw new StorageError("Sale is dated in the future", 400);
+  }
+  if (age > MAX_OFFLINE_SALE_AGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new StorageError(`Sale is more than ${MAX_OFFLINE_SALE_AGE_DAYS} days old`, 400);
+  }
+}
+
+async function priceOfflineOrder(userId: string, record: OfflineOrder): Promise<PricedOfflineOrder> {
+  const pricing = await quoteOrder(userId, {
+    customerId: record.order.customerId ?? undefined,
+    discountAmount: parseFloat(record.order.discountAmount || "0"),
+    items: record.items.map(({ productId, quantity }) => ({ productId, quantity })),
+  }, record.items.map((item) => item.unitPrice));
+  return applyPricing(record.order, pricing);
+}
+
+// Without a stock policy the order is created whatever stock is left, as
+// when the owner accepts a held sale
+async function createOfflineOrder(
+  userId: string,
+  record: OfflineOrder,
+  priced: PricedOfflineOrder,
+  stockPolicy?: OfflineStockPolicy,
+): Promise<Order> {
+  // The order number is allocated now, in the financial year of the sale
+  return await storage.createOrder({
+    ...priced.order,
+    userId,
+    clientId: record.clientId,
+    isOfflineOrder: true,
+    syncedAt: new Date(),
+    createdAt: record.capturedAt,
+  }, priced.items, record.tenders, stockPolicy);
+}
+
+async function holdOfflineOrder(userId: string, record: OfflineOrder, conflicts: InsertStockConflict[]) {
+  await storage.createStockConflicts(userId, conflicts.map((conflict) => ({
+    ...conflict,
+    policy: "hold",
+    heldOrder: record,
+  })));
+}
+
+// Lines charged at a price other than the catalogue's. The device may have
+// sold from a stale catalogue, or sent prices it made up, so the owner decides.
+async function findPriceConflicts(userId: string, record: OfflineOrder): Promise<InsertStockConflict[]> {
+  const conflicts: InsertStockConflict[] = [];
+  for (const item of record.items) {
+    const product = await storage.getProduct(item.productId, userId);
+    if (!product || Math.abs(item.unitPrice - parseFloat(product.price)) < 0.005) continue;
+    conflicts.push({
+      productId: item.productId,
+      clientId: record.clientId,
+      reason: "price",
+      quantity: item.quantity.toFixed(3),
+      availableStock: product.stock,
+      unitPrice: item.unitPrice.toFixed(2),
+      catalogPrice: product.price,
+      policy: "hold",
+    });
+  }
+  return conflicts;
+}
+
+async function syncOfflineOrder(userId: string, record: OfflineOrder): Promise<OfflineSyncResult> {
+  const { clientId } = record;
+  const existing = await storage.getOrderByClientId(clientId, userId);
+  if (existing) {
+    return { clientId, status: "duplicate", orderId: existing.id, orderNumber: existing.orderNumber };
+  }
+
+  // Conflicts without an order belong to a sale that was held for review
+  const conflicts = await storage.getStockConflictsForSale(clientId, userId);
+  if (conflicts.some((conflict) => conflict.status === "open")) {
+    return { clientId, status: "held", error: HELD_FOR_REVIEW };
+  }
+  if (conflicts.length > 0) {
+    return { clientId, status: "rejected", error: "Rejected after review" };
+  }
+
+  try {
+    assertCapturedRecently(record, new Date());
+    const priced = await priceOfflineOrder(userId, record);
+    const priceConflicts = await findPriceConflicts(userId, record);
+    if (priceConflicts.length > 0) {
+      // Nothing is sold yet, so any shortfall held alongside is only a guide
+      const stock = new Map<string, string>();
+      for (const item of record.items) {
+        const product = await storage.getProduct(item.productId, userId);
+        if (product) stock.set(product.id, product.stock);
+      }
+      const shortfalls = findStockShortfalls(clientId, record.items, (productId) => stock.get(productId));
+      await holdOfflineOrder(userId, record, [...shortfalls, ...priceConflicts]);
+      return { clientId, status: "held", error: HELD_FOR_REVIEW };
+    }
+
+    // Shortfalls are checked on the locked product rows as the order is
+    // created; under allow_negative they are flagged in the same transaction
+    const shop = await storage.getUser(userId);
+    const stockPolicy: OfflineStockPolicy = shop?.offlineStockPolicy === "hold" ? "hold" : "allow_negative";
+    const order = await createOfflineOrder(userId, record, priced, stockPolicy);
+    return { clientId, status: "synced", orderId: order.id, orderNumber: order.orderNumber };
+  } catch (error) {
+    if (error instanceof StockShortfallError) {
+      await holdOfflineOrder(userId, record, error.shortfalls);
+      return { clientId, status: "held", error: HELD_FOR_REVIEW };
+    }
+    // Another sync of the same sale may have created it in the meantime
+    const created = await storage.getOrderByClientId(clientId, userId);
+    if (created) {
+      return { clientId, status: "duplicate", orderId: created.id, orderNumber: created.orderNumber };
+    }
+    if (error instanceof StorageError && error.status < 500) {
+      return { clientId, status: "rejected", error: error.message };
+    }
+    return { clientId, status: "failed", error: "Failed to create order" };
+  }
+}
+
+// Creates the orders for sales captured offline, oldest first. Every record
+// gets a result, so the device can settle each one independently.
+export async function syncOfflineOrders(userId: string, records: unknown[]): Promise<OfflineSyncResult[]> {
+  const parsed = records.map((record) => ({ record, result: offlineOrderSchema.safeParse(record) }));
+  const valid = parsed
+    .flatMap(({ result }) => result.success ? [result.data] : [])
+    .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+
+  const results = new Map<string, OfflineSyncResult>();
+  for (const record of valid) {
+    results.set(record.clientId, await syncOfflineOrder(userId, record));
+  }
+
+  return parsed.map(({ record, result }) => {
+    if (result.success) return results.get(result.data.clientId)!;
+    const clientId = typeof (record as { clientId?: unknown })?.clientId === "string"
+      ? (record as { clientId: string }).clientId
+      : "";
+    return { clientId, status: "rejected", error: describeInvalidRecord(result.error) };
+  });
+}
+
+// Settles every open conflict of the sale the given conflict belongs to.
+// Accepting a held sale creates its order now; rejecting a flagged sale
+// cancels its order, which puts the stock back and refunds the payments.
+export async function resolveStockConflict(
+  userId: string,
+  id: string,
+  action: StockConflictAction,
+): Promise<StockConflict[] | undefined> {
+  const conflict = await storage.getStockConflict(id, userId);
+  if (!conflict) return undefined;
+  if (conflict.status !== "open") {
+    throw new StorageError("Stock conflict is already resolved");
+  }
+
+  let orderId: string | undefined;
+  if (conflict.policy === "hold" && action === "accept") {
+    const record = offlineOrderSchema.parse(conflict.heldOrder);
+    let order = await storage.getOrderByClientId(record.clientId, userId);
+    if (!order) {
+      try {
+        order = await createOfflineOrder(userId, record, await priceOfflineOrder(userId, record));
+      } catch (error) {
+        // Accepted twice at once: the other request created the order and
+        // resolves the conflict
+        if (error instanceof StorageError && await storage.getOrderByClientId(record.clientId, userId)) {
+          throw new StorageError("Stock conflict is already resolved");
+        }
+        throw error;
+      }
+    }
+    orderId = order.id;
+  } else if (conflict.policy !== "hold" && action === "reject" && conflict.orderId) {
+    const order = await storage.getOrder(conflict.orderId, userId);
+    if (order && order.status !== "cancelled") {
+      await storage.cancelOrder(order.id, userId, "Oversold while offline");
+    }
+  }
+
+  const resolved = await storage.resolveStockConflicts(
+    conflict.clientId,
+    userId,
+    action === "accept" ? "accepted" : "rejected",
+    orderId,
+  );
+  if (resolved.length === 0) {
+    throw new StorageError("Stock conflict is already resolved");
+  }
+  return resolved;
+}
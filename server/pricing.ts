@@ -0,0 +1,133 @@
+import { priceOrderLines, resolveStateCode } from "@shared/gst";
+import type { CreateOrder, InsertOrder, InsertOrderItem, Order, OrderPricing, OrderQuote, Product } from "@shared/schema";
+import { storage, StorageError } from "./storage";
+
+// Amounts the client sent may differ from ours by at most a paisa of rounding
+const TOLERANCE = 0.01;
+
+// Prices every line from the shop's own product catalogue. Tax on each line
+// comes from the product's GST rate and HSN code; intra-state sales are split
+// into CGST and SGST, sales to a customer registered in another state are IGST.
+// Sales captured offline pass the unit prices the device charged instead, once
+// the owner has accepted any that differ from the catalogue, so a price change
+// made before they sync doesn't rewrite what the customer paid.
+export async function quoteOrder(userId: string, quote: OrderQuote, capturedUnitPrices?: number[]): Promise<OrderPricing> {
+  const customer = quote.customerId ? await storage.getCustomer(quote.customerId, userId) : undefined;
+  if (quote.customerId && !customer) {
+    throw new StorageError("Customer not found", 404);
+  }
+
+  const products: Product[] = [];
+  for (const item of quote.items) {
+    const product = await storage.getProduct(item.productId, userId);
+    if (!product) {
+      throw new StorageError("Product not found", 404);
+    }
+    products.push(product);
+  }
+
+  const shop = await storage.getUser(userId);
+  const shopState = resolveStateCode(shop?.state, shop?.gstNumber);
+  const customerState = customer ? resolveStateCode(customer.state, customer.gstNumber) : null;
+
+  return priceOrderLines(
+    quote.items.map((item, index) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: capturedUnitPrices?.[index] ?? parseFloat(products[index].price),
+      gstRate: products[index].gstRate,
+      hsnCode: products[index].hsnCode,
+      priceIncludesTax: products[index].priceIncludesTax,
+    })),
+    { shopState, customerState, discountAmount: quote.discountAmount },
+  );
+}
+
+// Lists every amount the client sent that disagrees with the server's pricing
+export function findPricingMismatches(
+  order: CreateOrder,
+  items: Partial<InsertOrderItem>[],
+  pricing: OrderPricing,
+): string[] {
+  const mismatches: string[] = [];
+  const differs = (sent: string | null | undefined, expected: string) =>
+    sent !== undefined && sent !== null && Math.abs(parseFloat(sent) - parseFloat(expected)) > TOLERANCE;
+
+  if (differs(order.totalAmount, pricing.totalAmount)) {
+    mismatches.push(`totalAmount should be ${pricing.totalAmount}`);
+  }
+  if (differs(order.gstAmount, pricing.gstAmount)) {
+    mismatches.push(`gstAmount should be ${pricing.gstAmount}`);
+  }
+  if (parseFloat(order.discountAmount || "0") > parseFloat(pricing.discountAmount) + TOLERANCE) {
+    mismatches.push(`discountAmount cannot exceed ${pricing.discountAmount}`);
+  }
+
+  items.forEach((item, index) => {
+    const line = pricing.items[index];
+    if (differs(item.unitPrice, line.unitPrice)) {
+      mismatches.push(`items[${index}].unitPrice should be ${line.unitPrice}`);
+    }
+    if (differs(item.totalPrice, line.totalPrice)) {
+      mismatches.push(`items[${index}].totalPrice should be ${line.totalPrice}`);
+    }
+  });
+
+  return mismatches;
+}
+
+// The order and lines as they are stored, with every amount taken from the
+// pricing. A sale is recorded once the goods are handed over, so it starts
+// out completed; its payment fields follow from the tenders in createOrder.
+export function applyPricing(
+  order: CreateOrder,
+  pricing: OrderPricing,
+): { order: InsertOrder; items: Omit<InsertOrderItem, "orderId">[] } {
+  return {
+    order: {
+      ...order,
+      status: "completed",
+      totalAmount: pricing.totalAmount,
+      discountAmount: pricing.discountAmount,
+      gstAmount: pricing.gstAmount,
+      cgstAmount: pricing.cgstAmount,
+      sgstAmount: pricing.sgstAmount,
+      igstAmount: pricing.igstAmount,
+      placeOfSupply: pricing.placeOfSupply,
+    },
+    items: pricing.items.map((line) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.totalPrice,
+      gstRate: line.gstRate,
+      hsnCode: line.hsnCode,
+      taxableAmount: line.taxableAmount,
+      taxAmount: line.taxAmount,
+    })),
+  };
+}
+
+// An order can move to another customer only if its invoice and khata stay
+// right: nothing for it is on a khata, and the place of supply (and so the
+// CGST/SGST or IGST split) is the same for the new customer
+export async function assertCustomerChangeAllowed(userId: string, order: Order, customerId: string | null): Promise<void> {
+  if (customerId === order.customerId) return;
+
+  const customer = customerId ? await storage.getCustomer(customerId, userId) : undefined;
+  if (customerId && !customer) {
+    throw new StorageError("Customer not found", 404);
+  }
+
+  const payments = await storage.getOrderPayments(order.id, userId);
+  if (payments.some((payment) => payment.type !== "sale")) {
+    throw new StorageError("Orders on a customer's khata can't be moved to another customer");
+  }
+
+  const shop = await storage.getUser(userId);
+  const shopState = resolveStateCode(shop?.state, shop?.gstNumber);
+  const customerState = customer ? resolveStateCode(customer.state, customer.gstNumber) : null;
+  if ((customerState ?? shopState) !== order.placeOfSupply) {
+    throw new StorageError("The customer's state would change the GST on this order");
+  }
+}
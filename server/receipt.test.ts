@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { Order, OrderItem, Product, User } from "@shared/schema";
+import type { InvoiceData } from "./invoice";
+import { renderReceipt } from "./receipt";
+
+const shop = {
+  shopName: "Sharma General Store",
+  shopNameHindi: null,
+  address: "Shop 4, Ganesh Apartments, Near Shivaji Chowk, Station Road, Kalyan West",
+  phone: "9876543210",
+  gstNumber: null,
+  upiId: null,
+} as User;
+
+const order = {
+  orderNumber: "INV/26-27/0042",
+  status: "completed",
+  createdAt: new Date("2026-10-18T06:30:00.000Z"),
+  totalAmount: "170.00",
+  paidAmount: "170.00",
+  paymentMethod: "cash",
+  discountAmount: "0.00",
+  cgstAmount: "0.00",
+  sgstAmount: "0.00",
+  igstAmount: "0.00",
+} as Order;
+
+function item(name: string, quantity: string, unitPrice: string, totalPrice: string) {
+  return {
+    quantity,
+    unitPrice,
+    totalPrice,
+    gstRate: "0.00",
+    hsnCode: null,
+    taxableAmount: totalPrice,
+    taxAmount: "0.00",
+    product: { name, unit: "kg" } as Product,
+  } as OrderItem & { product: Product };
+}
+
+const data: InvoiceData = {
+  shop,
+  order,
+  items: [
+    item("India Gate Basmati Rice Classic Long Grain", "2", "60.00", "120.00"),
+    item("Toor Dal", "1", "50.00", "50.00"),
+  ],
+};
+
+const linesOf = (text: string) => text.split("\n").slice(0, -1);
+
+describe("renderReceipt", () => {
+  it.each([58, 80] as const)("keeps every line of a %imm receipt within the paper width", (paperWidth) => {
+    const receipt = renderReceipt(data, paperWidth);
+    expect(receipt.columns).toBe(paperWidth === 58 ? 32 : 48);
+    for (const line of linesOf(receipt.text)) {
+      expect(line.length).toBeLessThanOrEqual(receipt.columns);
+    }
+  });
+
+  it("wraps long text at word boundaries", () => {
+    const lines = linesOf(renderReceipt(data, 58).text);
+    expect(lines.slice(1, 4)).toEqual([
+      "Shop 4, Ganesh Apartments, Near",
+      "  Shivaji Chowk, Station Road,",
+      "          Kalyan West",
+    ]);
+    expect(lines).toContain("1. India Gate Basmati Rice");
+    expect(lines).toContain("Classic Long Grain");
+  });
+
+  it("puts each item's figures under its name on 58mm paper", () => {
+    const lines = linesOf(renderReceipt(data, 58).text);
+    const name = lines.indexOf("2. Toor Dal");
+    expect(lines[name + 1]).toBe("   1 kg x 50.00            50.00");
+  });
+
+  it("wraps the item name within its column on 80mm paper", () => {
+    const lines = linesOf(renderReceipt(data, 80).text);
+    const first = lines.findIndex((line) => line.startsWith("India Gate Basmati"));
+    expect(lines[first]).toBe("India Gate Basmati         2     60.00    120.00");
+    expect(lines[first + 1]).toBe("Rice Classic Long");
+    expect(lines[first + 2]).toBe("Grain");
+  });
+
+  it("breaks a word longer than the line, centring what is left", () => {
+    const lines = linesOf(renderReceipt({ ...data, shop: { ...shop, shopName: "X".repeat(40) } }, 58).text);
+    expect(lines.slice(0, 2)).toEqual(["X".repeat(32), " ".repeat(12) + "X".repeat(8)]);
+  });
+
+  it("sends the same lines to the printer", () => {
+    const receipt = renderReceipt(data, 58);
+    const escpos = Buffer.from(receipt.escpos, "base64").toString("latin1");
+    expect(escpos).toContain("1. India Gate Basmati Rice\n");
+    expect(escpos).toContain("Classic Long Grain\n");
+  });
+});
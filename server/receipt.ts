@@ -0,0 +1,294 @@
+import { encodeQr } from "@shared/qr";
+import { getBalanceDue, getLineAmounts, getUpiPaymentUrl, isInterStateOrder, summariseByHsn, type InvoiceData } from "./invoice";
+import { renderTextBitmap, type Bitmap } from "./text-raster";
+
+// Receipts for 58mm and 80mm thermal printers, as ESC/POS bytes for printers
+// reached over Bluetooth or USB and as plain text for everything else
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's standard 12x24 font, and printable dots
+const PAPER = {
+  58: { columns: 32, dots: 384 },
+  80: { columns: 48, dots: 576 },
+} as const;
+
+const RASTER_FONT_SIZE = 24;
+const RASTER_TITLE_SIZE = 32;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+export interface ReceiptPayload {
+  paperWidth: PaperWidth;
+  columns: number;
+  text: string;
+  // Base64 so the payload can travel as JSON
+  escpos: string;
+}
+
+type Align = "left" | "center" | "right";
+
+type ReceiptBlock =
+  | { type: "text"; text: string; align?: Align; bold?: boolean; large?: boolean }
+  | { type: "qr"; data: string };
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function isPrintableAscii(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text);
+}
+
+function wrap(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > columns) {
+      lines.push(line);
+      line = "";
+    }
+    let rest = line ? `${line} ${word}` : word;
+    while (rest.length > columns) {
+      lines.push(rest.slice(0, columns));
+      rest = rest.slice(columns);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+function align(text: string, columns: number, to: Align): string {
+  const free = Math.max(0, columns - text.length);
+  if (to === "right") return " ".repeat(free) + text;
+  if (to === "center") return " ".repeat(Math.floor(free / 2)) + text;
+  return text;
+}
+
+// Label on the left, amount on the right; a long label gets its own line
+function labelled(label: string, value: string, columns: number): string[] {
+  if (label.length + value.length + 1 <= columns) {
+    return [label + " ".repeat(columns - label.length - value.length) + value];
+  }
+  return [...wrap(label, columns), align(value, columns, "right")];
+}
+
+// Fixed-width columns; the first column wraps, the rest are right aligned
+function tableRow(values: string[], widths: number[]): string[] {
+  const [first, ...rest] = values;
+  const firstLines = wrap(first, widths[0]);
+  const tail = rest.map((value, index) => align(value.slice(0, widths[index + 1]), widths[index + 1], "right")).join("");
+  return firstLines.map((line, index) =>
+    index === 0 ? line.padEnd(widths[0]) + tail : line,
+  );
+}
+
+function buildReceipt({ shop, order, items, customer }: InvoiceData, columns: number): ReceiptBlock[] {
+  const blocks: ReceiptBlock[] = [];
+  const text = (value: string, options: Omit<Extract<ReceiptBlock, { type: "text" }>, "type" | "text"> = {}) =>
+    wrap(value, columns).forEach((line) => blocks.push({ type: "text", text: line, ...options }));
+  const lines = (values: string[], options: { bold?: boolean } = {}) =>
+    values.forEach((value) => blocks.push({ type: "text", text: value, ...options }));
+  const rule = () => text("-".repeat(columns));
+
+  const isInterState = isInterStateOrder(order);
+  const total = parseFloat(order.totalAmount);
+  const balanceDue = getBalanceDue(order);
+
+  // Shop header
+  text(shop.shopName, { align: "center", bold: true, large: true });
+  if (shop.shopNameHindi) text(shop.shopNameHindi, { align: "center", large: true });
+  if (shop.address) text(shop.address, { align: "center" });
+  text(`Ph: ${shop.phone}`, { align: "center" });
+  if (shop.gstNumber) text(`GSTIN: ${shop.gstNumber}`, { align: "center" });
+  rule();
+
+  text(shop.gstNumber ? "TAX INVOICE" : "RECEIPT", { align: "center", bold: true });
+  if (order.status === "cancelled") text("*** CANCELLED ***", { align: "center", bold: true });
+  text(`Bill No: ${order.orderNumber}`);
+  text(`Date: ${(order.createdAt ?? new Date()).toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`);
+  if (customer) {
+    text(`Customer: ${customer.name}`);
+    text(`Ph: ${customer.phone}`);
+    if (customer.gstNumber) text(`GSTIN: ${customer.gstNumber}`);
+  }
+  rule();
+
+  // Items: 48 columns fit a table, 32 columns put the figures under each name
+  if (columns >= 48) {
+    const widths = [columns - 28, 8, 10, 10];
+    lines(tableRow(["Item", "Qty", "Rate", "Amount"], widths), { bold: true });
+    rule();
+    for (const item of items) {
+      lines(tableRow([
+        item.product.name,
+        parseFloat(item.quantity).toString(),
+        formatAmount(parseFloat(item.unitPrice)),
+        formatAmount(parseFloat(item.totalPrice)),
+      ], widths));
+    }
+  } else {
+    items.forEach((item, index) => {
+      text(`${index + 1}. ${item.product.name}`);
+      lines(labelled(
+        `   ${parseFloat(item.quantity)} ${item.product.unit} x ${formatAmount(parseFloat(item.unitPrice))}`,
+        formatAmount(parseFloat(item.totalPrice)),
+        columns,
+      ));
+    });
+  }
+  rule();
+
+  // Totals
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(item.quantity) * parseFloat(item.unitPrice), 0);
+  const taxable = items.reduce((sum, item) => sum + getLineAmounts(item).taxableAmount, 0);
+  const discount = parseFloat(order.discountAmount || "0");
+  lines(labelled("Subtotal", formatAmount(subtotal), columns));
+  if (discount > 0) lines(labelled("Discount", `-${formatAmount(discount)}`, columns));
+  lines(labelled("Taxable Value", formatAmount(taxable), columns));
+  if (isInterState) {
+    lines(labelled("IGST", formatAmount(parseFloat(order.igstAmount || "0")), columns));
+  } else {
+    lines(labelled("CGST", formatAmount(parseFloat(order.cgstAmount || "0")), columns));
+    lines(labelled("SGST", formatAmount(parseFloat(order.sgstAmount || "0")), columns));
+  }
+  lines(labelled("TOTAL", `Rs. ${formatAmount(total)}`, columns), { bold: true });
+  const paidLabel = order.paymentMethod ? `Paid (${order.paymentMethod.toUpperCase()})` : "Paid";
+  lines(labelled(paidLabel, formatAmount(parseFloat(order.paidAmount || "0")), columns));
+  if (balanceDue > 0) lines(labelled("Balance Due", formatAmount(balanceDue), columns), { bold: true });
+
+  // GST summary per HSN code and rate
+  const hsnRows = summariseByHsn(items, isInterState);
+  if (hsnRows.some((row) => row.gstRate > 0)) {
+    rule();
+    text("GST Summary", { bold: true });
+    const widths = columns >= 48
+      ? isInterState ? [16, 16, 16] : [15, 11, 11, 11]
+      : [12, 10, 10];
+    const header = columns >= 48
+      ? isInterState ? ["HSN @ Rate", "Taxable", "IGST"] : ["HSN @ Rate", "Taxable", "CGST", "SGST"]
+      : ["HSN @ Rate", "Taxable", "Tax"];
+    lines(tableRow(header, widths));
+    for (const row of hsnRows) {
+      const label = `${row.hsnCode} @ ${row.gstRate}%`;
+      const values = columns >= 48
+        ? isInterState
+          ? [label, formatAmount(row.taxableAmount), formatAmount(row.igstAmount)]
+          : [label, formatAmount(row.taxableAmount), formatAmount(row.cgstAmount), formatAmount(row.sgstAmount)]
+        : [label, formatAmount(row.taxableAmount), formatAmount(row.cgstAmount + row.sgstAmount + row.igstAmount)];
+      lines(tableRow(values, widths));
+    }
+  }
+
+  // UPI QR for whatever is still unpaid
+  if (balanceDue > 0 && shop.upiId && order.status !== "cancelled") {
+    rule();
+    text(`Scan to pay Rs. ${formatAmount(balanceDue)}`, { align: "center" });
+    blocks.push({ type: "qr", data: getUpiPaymentUrl(shop, order, balanceDue) });
+    text(`UPI: ${shop.upiId}`, { align: "center" });
+  }
+
+  rule();
+  text("Thank you, visit again!", { align: "center" });
+  return blocks;
+}
+
+function renderText(blocks: ReceiptBlock[], columns: number): string {
+  return blocks
+    .filter((block): block is Extract<ReceiptBlock, { type: "text" }> => block.type === "text")
+    .map((block) => align(block.text, columns, block.align ?? "left"))
+    .join("\n") + "\n";
+}
+
+function rasterCommand(bitmap: Bitmap): Buffer {
+  const bytesPerRow = bitmap.width / 8;
+  return Buffer.concat([
+    Buffer.from([GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, bytesPerRow >> 8, bitmap.height & 0xff, bitmap.height >> 8]),
+    bitmap.data,
+  ]);
+}
+
+// Printed as a raster image rather than with the printer's own QR command,
+// which many low-cost printers don't support
+function qrBitmap(data: string, dots: number): Bitmap {
+  const qr = encodeQr(data, { errorCorrection: "M" });
+  const margin = 2;
+  const dimension = qr.size + margin * 2;
+  const scale = Math.max(2, Math.floor((dots * 0.6) / dimension));
+  const offsetX = Math.floor((dots - dimension * scale) / 2);
+  const bytesPerRow = dots / 8;
+  const height = dimension * scale;
+  const bitmap = Buffer.alloc(bytesPerRow * height);
+  for (let py = 0; py < height; py++) {
+    const y = Math.floor(py / scale) - margin;
+    if (y < 0 || y >= qr.size) continue;
+    for (let x = 0; x < qr.size; x++) {
+      if (!qr.modules[y][x]) continue;
+      const start = offsetX + (x + margin) * scale;
+      for (let px = start; px < start + scale; px++) {
+        bitmap[py * bytesPerRow + (px >> 3)] |= 0x80 >> (px & 7);
+      }
+    }
+  }
+  return { width: dots, height, data: bitmap };
+}
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+function renderEscPos(blocks: ReceiptBlock[], paperWidth: PaperWidth): Buffer {
+  const { columns, dots } = PAPER[paperWidth];
+  const chunks: Buffer[] = [Buffer.from([ESC, 0x40])];
+
+  for (const block of blocks) {
+    if (block.type === "qr") {
+      chunks.push(Buffer.from([ESC, 0x61, ALIGN_CODES.left]), rasterCommand(qrBitmap(block.data, dots)));
+      continue;
+    }
+
+    const blockAlign = block.align ?? "left";
+    // Text the printer's code page can't show is printed as an image
+    if (!isPrintableAscii(block.text)) {
+      const bitmap = renderTextBitmap(block.text, {
+        width: dots,
+        fontSize: block.large ? RASTER_TITLE_SIZE : RASTER_FONT_SIZE,
+        align: blockAlign,
+      });
+      chunks.push(Buffer.from([ESC, 0x61, ALIGN_CODES.left]), rasterCommand(bitmap));
+      continue;
+    }
+
+    chunks.push(
+      Buffer.from([ESC, 0x61, ALIGN_CODES[blockAlign]]),
+      Buffer.from([ESC, 0x45, block.bold ? 1 : 0]),
+      Buffer.from([GS, 0x21, block.large ? 0x01 : 0x00]),
+      Buffer.from(`${block.text.slice(0, columns)}\n`, "ascii"),
+    );
+  }
+
+  // Reset styles, feed past the cutter and cut
+  chunks.push(
+    Buffer.from([ESC, 0x45, 0, GS, 0x21, 0x00, ESC, 0x61, ALIGN_CODES.left]),
+    Buffer.from([GS, 0x56, 0x42, 0x03]),
+  );
+  return Buffer.concat(chunks);
+}
+
+export function renderReceipt(data: InvoiceData, paperWidth: PaperWidth): ReceiptPayload {
+  const { columns } = PAPER[paperWidth];
+  const blocks = buildReceipt(data, columns);
+  return {
+    paperWidth,
+    columns,
+    text: renderText(blocks, columns),
+    escpos: renderEscPos(blocks, paperWidth).toString("base64"),
+  };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import type { Order, UnreconciledUpiOrder, UpiStatementEntry } from "@shared/schema";
+import { findMatchingOrder, parseUpiStatement } from "./reconciliation";
+import { StorageError } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("parseUpiStatement", () => {
+  it("finds the columns by their aliases below the account details", () => {
+    const { entries, errors } = parseUpiStatement([
+      "Account Statement,Sharma General Store",
+      "Period,01-Apr-2026 to 30-Apr-2026",
+      "",
+      "Txn Date,UPI Ref No,Payer UPI ID,Remarks,Credit Amount",
+      '05/04/2026 14:32,\'612345678901,Ramesh@OKSBI,UPI/RS2026ABC/Payment,"1,250.50"',
+    ].join("\r\n"));
+
+    expect(errors).toEqual([]);
+    expect(entries).toEqual([{
+      utr: "612345678901",
+      amount: "1250.50",
+      receivedAt: new Date("2026-04-05T09:02:00.000Z"),
+      payerVpa: "ramesh@oksbi",
+      reference: "UPI/RS2026ABC/Payment",
+    }]);
+  });
+
+  it.each([
+    ["05/04/2026 14:32"],
+    ["05-Apr-2026 02:32 PM"],
+    ["5.4.26 14:32"],
+    ["2026-04-05 14:32"],
+    ["2026-04-05T14:32:00+05:30"],
+    ["2026-04-05T09:02:00Z"],
+  ])("reads %j as Indian Standard Time unless it has a zone", (time) => {
+    const { entries } = parseUpiStatement(`UTR,Amount,Date\n100000000001,10,${time}`);
+    expect(entries[0].receivedAt).toEqual(new Date("2026-04-05T09:02:00.000Z"));
+  });
+
+  it("joins separate date and time columns", () => {
+    const { entries } = parseUpiStatement("RRN,Txn Amount,Transaction Date,Transaction Time\n100000000001,10,05-04-2026,02:32 PM");
+    expect(entries[0].receivedAt).toEqual(new Date("2026-04-05T09:02:00.000Z"));
+  });
+
+  it("keeps credits and skips debits from separate debit and credit columns", () => {
+    const { entries, errors } = parseUpiStatement([
+      "Date,UTR,Debit,Credit",
+      "05/04/2026,100000000001,,500.00",
+      "05/04/2026,100000000002,200.00,",
+    ].join("\n"));
+
+    expect(errors).toEqual([]);
+    expect(entries.map((entry) => [entry.utr, entry.amount])).toEqual([["100000000001", "500.00"]]);
+  });
+
+  it("keeps credits and skips debits marked Dr and Cr", () => {
+    const { entries, errors } = parseUpiStatement([
+      "Date,UTR,Amount,Dr/Cr",
+      "05/04/2026,100000000001,300.00,DR",
+      "05/04/2026,100000000002,400.00,CR",
+      "05/04/2026,100000000003,₹ 600.00 Dr,",
+      "05/04/2026,100000000004,₹ 700.00 Cr,",
+    ].join("\n"));
+
+    expect(errors).toEqual([]);
+    expect(entries.map((entry) => [entry.utr, entry.amount])).toEqual([
+      ["100000000002", "400.00"],
+      ["100000000004", "700.00"],
+    ]);
+  });
+
+  it("reports credits it can't read by row number", () => {
+    const { entries, errors } = parseUpiStatement([
+      "UTR,Amount,Date",
+      ",100,05/04/2026",
+      "6.12346E+11,100,05/04/2026",
+      "100000000003,100,yesterday",
+      "100000000004,100,05/04/2026",
+    ].join("\n"));
+
+    expect(entries.map((entry) => entry.utr)).toEqual(["100000000004"]);
+    expect(errors).toEqual([
+      "Row 2: missing UTR",
+      "Row 3: UTR 6.12346E+11 was rounded by a spreadsheet",
+      'Row 4: unreadable date "yesterday"',
+    ]);
+  });
+
+  it("keeps one entry per UTR", () => {
+    const { entries } = parseUpiStatement("UTR,Amount,Date\n100000000001,10,05/04/2026\n100000000001,10,05/04/2026");
+    expect(entries).toHaveLength(1);
+  });
+
+  it("refuses a statement without UTR and amount columns", () => {
+    expect(() => parseUpiStatement("Date,Narration\n05/04/2026,Salary"))
+      .toThrow(new StorageError("Statement needs UTR and amount columns", 400));
+  });
+});
+
+describe("findMatchingOrder", () => {
+  const receivedAt = new Date("2026-04-05T09:00:00.000Z");
+
+  const entry = (amount: string, reference: string | null = null) =>
+    ({ id: "entry-1", utr: "100000000001", amount, receivedAt, reference }) as UpiStatementEntry;
+
+  // An order rung up `minutesBeforeCredit` before the money arrived
+  const candidate = (
+    id: string,
+    balanceDue: string,
+    { minutesBeforeCredit = 5, upiReference = null as string | null, unverifiedSales = [] as string[] } = {},
+  ): UnreconciledUpiOrder => ({
+    order: { id, upiReference, createdAt: new Date(receivedAt.getTime() - minutesBeforeCredit * MINUTE_MS) } as Order,
+    balanceDue,
+    unverifiedSales,
+  });
+
+  it("matches the order whose tr is in the remarks, even for a part payment or outside the window", () => {
+    const orders = [
+      candidate("order-1", "500.00", { upiReference: "RS2026ABC", minutesBeforeCredit: 24 * 60 }),
+      candidate("order-2", "200.00"),
+    ];
+    expect(findMatchingOrder(entry("200.00", "UPI/rs2026abc/Payment"), orders)).toBe("order-1");
+  });
+
+  it("falls back to the amount when the referenced order can't take the credit", () => {
+    const orders = [candidate("order-1", "100.00", { upiReference: "RS2026ABC" }), candidate("order-2", "200.00")];
+    expect(findMatchingOrder(entry("200.00", "UPI/RS2026ABC"), orders)).toBe("order-2");
+  });
+
+  it("matches the one order with exactly that amount open", () => {
+    const orders = [candidate("order-1", "250.00"), candidate("order-2", "200.00"), candidate("order-3", "199.99")];
+    expect(findMatchingOrder(entry("200.00"), orders)).toBe("order-2");
+  });
+
+  it("matches an unverified UPI sale of that amount on an order already marked paid", () => {
+    const orders = [candidate("order-1", "0.00", { unverifiedSales: ["120.00", "80.00"] })];
+    expect(findMatchingOrder(entry("80.00"), orders)).toBe("order-1");
+  });
+
+  it("doesn't match a part payment by amount alone", () => {
+    expect(findMatchingOrder(entry("100.00"), [candidate("order-1", "200.00")])).toBeUndefined();
+  });
+
+  it.each([
+    [120, "order-1"],
+    [121, undefined],
+    [-29, "order-1"],
+    [-31, undefined],
+  ])("only looks at orders from 2 hours before to 30 minutes after the credit (%i minutes before)", (minutesBeforeCredit, match) => {
+    expect(findMatchingOrder(entry("200.00"), [candidate("order-1", "200.00", { minutesBeforeCredit })])).toBe(match);
+  });
+
+  it("leaves the credit for manual matching when two orders have the same amount open", () => {
+    const orders = [
+      candidate("order-1", "200.00", { minutesBeforeCredit: 10 }),
+      candidate("order-2", "200.00", { minutesBeforeCredit: 3 }),
+    ];
+    expect(findMatchingOrder(entry("200.00"), orders)).toBeUndefined();
+  });
+
+  it("tells two orders of the same amount apart by the tr reference", () => {
+    const orders = [
+      candidate("order-1", "200.00", { upiReference: "RS2026AAA" }),
+      candidate("order-2", "200.00", { upiReference: "RS2026BBB" }),
+    ];
+    expect(findMatchingOrder(entry("200.00", "RS2026BBB"), orders)).toBe("order-2");
+  });
+});
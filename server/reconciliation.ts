@@ -0,0 +1,264 @@
+import type { InsertUpiStatementEntry, UnreconciledUpiOrder, UpiStatementEntry, UpiStatementImportResult } from "@shared/schema";
+import { storage, StorageError } from "./storage";
+
+// Statement exports differ between banks and PSP dashboards; columns are
+// found by header name, most specific alias first
+const COLUMN_ALIASES = {
+  utr: ["utr", "utr no", "utr number", "rrn", "upi ref no", "upi reference no", "upi transaction id", "bank reference no", "transaction id", "txn id"],
+  amount: ["credit", "credit amount", "deposit", "deposit amount", "amount", "amount inr", "txn amount", "transaction amount"],
+  date: ["transaction date", "txn date", "date", "date time", "datetime", "timestamp", "value date", "created at"],
+  time: ["transaction time", "txn time", "time"],
+  payerVpa: ["payer vpa", "payer upi id", "customer vpa", "sender vpa", "from vpa", "vpa", "payer"],
+  reference: ["tr", "transaction ref", "merchant reference", "reference", "remarks", "narration", "description", "particulars", "note"],
+  direction: ["cr dr", "dr cr", "type", "transaction type"],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+// Statements often open with a few lines about the account before the header
+const HEADER_SEARCH_ROWS = 20;
+
+// Statement times without a zone are Indian Standard Time
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// A credit usually lands within minutes of the sale being rung up; the window
+// also allows for a sale entered a little after the money arrived
+const ORDER_BEFORE_CREDIT_MS = 2 * 60 * 60 * 1000;
+const ORDER_AFTER_CREDIT_MS = 30 * 60 * 1000;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const text = csv.replace(/^\uFEFF/, "");
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findColumns(header: string[]): Partial<Record<Column, number>> {
+  const names = header.map(normaliseHeader);
+  const columns: Partial<Record<Column, number>> = {};
+  for (const column of Object.keys(COLUMN_ALIASES) as Column[]) {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = names.indexOf(alias);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+// Credits only: "1,234.50", "₹ 1234.5 CR"; debits come back as null
+function parseCreditAmount(value: string, direction?: string): number | null {
+  if (direction && /^(dr|debit|d)$/i.test(direction.trim())) return null;
+  const cleaned = value.replace(/[₹,\s]|INR|Rs\.?/gi, "");
+  const suffix = cleaned.match(/(cr|dr)$/i)?.[1]?.toLowerCase();
+  if (suffix === "dr") return null;
+  const amount = parseFloat(cleaned.replace(/(cr|dr)$/i, ""));
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) / 100 : null;
+}
+
+// Accepts ISO timestamps and the day-first formats banks print, e.g.
+// 05/04/2026 14:32, 05-Apr-2026 02:32 PM or 05-04-26
+function parseStatementTime(value: string): Date | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (iso) {
+    const time = iso[2] ? (iso[2].length === 5 ? `${iso[2]}:00` : iso[2]) : "00:00:00";
+    const date = new Date(`${iso[1]}T${time}${iso[3] ?? "+05:30"}`);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const dayFirst = text.match(
+    /^(\d{1,2})[/\-. ]([a-z]{3,9}|\d{1,2})[/\-. ](\d{4}|\d{2})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i,
+  );
+  if (!dayFirst) return null;
+
+  const [, dayText, monthText, yearText, hourText, minuteText, secondText, meridiem] = dayFirst;
+  const month = /^\d+$/.test(monthText)
+    ? parseInt(monthText)
+    : MONTHS.indexOf(monthText.slice(0, 3).toLowerCase()) + 1;
+  const day = parseInt(dayText);
+  const year = yearText.length === 2 ? 2000 + parseInt(yearText) : parseInt(yearText);
+  let hour = hourText ? parseInt(hourText) : 0;
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) return null;
+
+  const utc = Date.UTC(year, month - 1, day, hour, parseInt(minuteText ?? "0"), parseInt(secondText ?? "0"));
+  return new Date(utc - IST_OFFSET_MS);
+}
+
+// Turns a statement CSV into credit entries. Debits are skipped silently;
+// rows that look like credits but can't be read are reported by row number.
+export function parseUpiStatement(csv: string): { entries: InsertUpiStatementEntry[]; errors: string[] } {
+  const rows = parseCsvRows(csv);
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) => {
+    const columns = findColumns(row);
+    return columns.utr !== undefined && columns.amount !== undefined;
+  });
+  if (headerIndex === -1) {
+    throw new StorageError("Statement needs UTR and amount columns", 400);
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  if (columns.date === undefined && columns.time === undefined) {
+    throw new StorageError("Statement needs a date or time column", 400);
+  }
+
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column];
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  const entries = new Map<string, InsertUpiStatementEntry>();
+  const errors: string[] = [];
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const rowNumber = headerIndex + index + 2;
+    const amount = parseCreditAmount(cell(row, "amount"), cell(row, "direction"));
+    if (amount === null) return;
+
+    // Spreadsheets prefix long numbers with ' to keep them as text
+    const utr = cell(row, "utr").replace(/^'/, "");
+    if (!utr) {
+      errors.push(`Row ${rowNumber}: missing UTR`);
+      return;
+    }
+    if (/e\+/i.test(utr)) {
+      errors.push(`Row ${rowNumber}: UTR ${utr} was rounded by a spreadsheet`);
+      return;
+    }
+
+    const date = cell(row, "date");
+    const time = cell(row, "time");
+    const receivedAt = parseStatementTime(date && time && date !== time ? `${date} ${time}` : date || time);
+    if (!receivedAt) {
+      errors.push(`Row ${rowNumber}: unreadable date "${[date, time].filter(Boolean).join(" ")}"`);
+      return;
+    }
+
+    entries.set(utr, {
+      utr,
+      amount: amount.toFixed(2),
+      receivedAt,
+      payerVpa: cell(row, "payerVpa").toLowerCase() || null,
+      reference: cell(row, "reference") || null,
+    });
+  });
+
+  return { entries: Array.from(entries.values()), errors };
+}
+
+function coversAmount(candidate: UnreconciledUpiOrder, amount: number, exact: boolean): boolean {
+  const balanceDue = parseFloat(candidate.balanceDue);
+  return candidate.unverifiedSales.some((sale) => Math.abs(parseFloat(sale) - amount) < 0.005) ||
+    (exact ? Math.abs(balanceDue - amount) < 0.005 : balanceDue > 0 && amount <= balanceDue + 0.005);
+}
+
+// The tr in the order's payment link is echoed back in the statement
+// remarks, which pins the order down even for a part payment. Without it the
+// credit must equal what is open on exactly one order rung up around the
+// time it arrived; when two orders fit, the credit is left for manual matching.
+export function findMatchingOrder(entry: UpiStatementEntry, candidates: UnreconciledUpiOrder[]): string | undefined {
+  const amount = parseFloat(entry.amount);
+  const reference = entry.reference?.toUpperCase();
+  if (reference) {
+    const byReference = candidates.filter((candidate) =>
+      candidate.order.upiReference && reference.includes(candidate.order.upiReference.toUpperCase())
+    );
+    if (byReference.length === 1 && coversAmount(byReference[0], amount, false)) {
+      return byReference[0].order.id;
+    }
+  }
+
+  const receivedAt = entry.receivedAt.getTime();
+  const byAmountAndTime = candidates.filter((candidate) => {
+    const createdAt = candidate.order.createdAt?.getTime() ?? 0;
+    return createdAt >= receivedAt - ORDER_BEFORE_CREDIT_MS &&
+      createdAt <= receivedAt + ORDER_AFTER_CREDIT_MS &&
+      coversAmount(candidate, amount, true);
+  });
+  return byAmountAndTime.length === 1 ? byAmountAndTime[0].order.id : undefined;
+}
+
+// Imports a statement and tries to match every credit still unmatched,
+// including ones from earlier imports whose orders have since been created
+export async function importUpiStatement(userId: string, csv: string): Promise<UpiStatementImportResult> {
+  const { entries, errors } = parseUpiStatement(csv);
+  const imported = await storage.createUpiStatementEntries(userId, entries);
+
+  const pending = (await storage.getUpiStatementEntries(userId, "unmatched"))
+    .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  let candidates = await storage.getUnreconciledUpiOrders(userId);
+
+  const matched: UpiStatementEntry[] = [];
+  const unmatched: UpiStatementEntry[] = [];
+  for (const entry of pending) {
+    // Payments marked paid with this UTR at the counter are linked directly
+    const recorded = await storage.getTransactionByUtr(entry.utr, userId);
+    const orderId = recorded ? recorded.orderId ?? undefined : findMatchingOrder(entry, candidates);
+    if (!orderId) {
+      unmatched.push(entry);
+      continue;
+    }
+
+    try {
+      const result = await storage.matchUpiStatementEntry(entry.id, userId, orderId);
+      if (result) matched.push(result);
+      // What is left open on the order has changed
+      candidates = await storage.getUnreconciledUpiOrders(userId);
+    } catch (error) {
+      if (!(error instanceof StorageError)) throw error;
+      unmatched.push(entry);
+    }
+  }
+
+  return {
+    imported: imported.length,
+    duplicates: entries.length - imported.length,
+    matched,
+    unmatched,
+    errors,
+  };
+}
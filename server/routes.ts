@@ -1,14 +1,30 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertProductSchema, insertCustomerSchema, insertOrderSchema, insertCategorySchema, insertTransactionSchema } from "@shared/schema";
+import { storage, StorageError } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { quoteOrder, findPricingMismatches, applyPricing, assertCustomerChangeAllowed } from "./pricing";
+import { renderInvoicePdf } from "./invoice";
+import { renderReceipt } from "./receipt";
+import { importUpiStatement } from "./reconciliation";
+import { syncOfflineOrders, resolveStockConflict } from "./offline-sync";
+import { buildUpiIntent, generateTransactionRef, UpiIntentError } from "@shared/upi";
+import { insertProductSchema, insertCustomerSchema, createOrderSchema, updateOrderSchema, insertCategorySchema, createTransactionSchema, createSalesReturnSchema, creditPaymentSchema, orderPaymentSchema, orderQuoteSchema, orderTenderSchema, upiStatementImportSchema, upiStatementMatchSchema, upiIntentRequestSchema, upiPaymentSchema, offlineOrderSchema, offlineSyncSchema, resolveStockConflictSchema, syncChangesQuerySchema, insertSupplierSchema, createPurchaseOrderSchema, receivePurchaseSchema, type SyncChanges } from "@shared/schema";
 import { z } from "zod";
 
+// A write stamped just before a sync cursor may commit just after it, so each
+// delta request looks back this far past its cursor; re-sending a record the
+// device already has is harmless
+const SYNC_CURSOR_OVERLAP_MS = 60 * 1000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth endpoints are public; everything registered below requires a session
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
   // Dashboard Stats
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const stats = await storage.getDashboardStats(userId);
       res.json(stats);
     } catch (error) {
@@ -19,7 +35,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Products
   app.get("/api/products", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const products = await storage.getProducts(userId);
       res.json(products);
     } catch (error) {
@@ -29,7 +45,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/products/low-stock", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const products = await storage.getLowStockProducts(userId);
       res.json(products);
     } catch (error) {
@@ -39,7 +55,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/products", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const productData = insertProductSchema.parse(req.body);
       const product = await storage.createProduct({ ...productData, userId });
       res.json(product);
@@ -55,8 +71,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/products/:id", async (req, res) => {
     try {
       const { id } = req.params;
+      const userId = req.userId!;
       const productData = insertProductSchema.partial().parse(req.body);
-      const product = await storage.updateProduct(id, productData);
+      const product = await storage.updateProduct(id, userId, productData);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
       res.json(product);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -67,13 +87,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deletions leave a tombstone, so devices drop the product from their offline cache
+  app.delete("/api/products/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const deleted = await storage.deleteProduct(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to delete product" });
+      }
+    }
+  });
+
   app.put("/api/products/:id/stock", async (req, res) => {
     try {
       const { id } = req.params;
       const { quantity } = req.body;
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       
-      const product = await storage.updateProductStock(id, quantity);
+      const product = await storage.updateProductStock(id, userId, quantity);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
       
       // Create stock movement record
       await storage.createStockMovement({
@@ -94,7 +136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Categories
   app.get("/api/categories", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const categories = await storage.getCategories(userId);
       res.json(categories);
     } catch (error) {
@@ -104,7 +146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/categories", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const categoryData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory({ ...categoryData, userId });
       res.json(category);
@@ -117,10 +159,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete("/api/categories/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const deleted = await storage.deleteCategory(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to delete category" });
+      }
+    }
+  });
+
   // Customers
   app.get("/api/customers", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const customers = await storage.getCustomers(userId);
       res.json(customers);
     } catch (error) {
@@ -130,7 +190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/customers", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const customerData = insertCustomerSchema.parse(req.body);
       const customer = await storage.createCustomer({ ...customerData, userId });
       res.json(customer);
@@ -143,10 +203,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete("/api/customers/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const deleted = await storage.deleteCustomer(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to delete customer" });
+      }
+    }
+  });
+
   app.get("/api/customers/phone/:phone", async (req, res) => {
     try {
       const { phone } = req.params;
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const customer = await storage.getCustomerByPhone(phone, userId);
       if (customer) {
         res.json(customer);
@@ -158,10 +236,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Customer khata: credit sales, payments and credit notes with a running balance
+  app.get("/api/customers/:id/ledger", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const ledger = await storage.getCustomerLedger(id, userId);
+      if (!ledger) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json(ledger);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch customer ledger" });
+    }
+  });
+
+  app.post("/api/customers/:id/payments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const paymentData = creditPaymentSchema.parse(req.body);
+      const transaction = await storage.recordCreditPayment(id, userId, paymentData);
+      if (!transaction) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid payment data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to record payment" });
+      }
+    }
+  });
+
+  // Suppliers
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const suppliers = await storage.getSuppliers(userId);
+      res.json(suppliers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post("/api/suppliers", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const supplierData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier({ ...supplierData, userId });
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid supplier data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create supplier" });
+      }
+    }
+  });
+
+  app.put("/api/suppliers/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const supplierData = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(id, userId, supplierData);
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid supplier data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update supplier" });
+      }
+    }
+  });
+
+  app.get("/api/suppliers/:id/payments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const supplier = await storage.getSupplier(id, userId);
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      const payments = await storage.getSupplierPayments(id, userId);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch supplier payments" });
+    }
+  });
+
+  // Pays down what is owed to the supplier for goods received
+  app.post("/api/suppliers/:id/payments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const paymentData = orderPaymentSchema.parse(req.body);
+      const transaction = await storage.recordSupplierPayment(id, userId, paymentData);
+      if (!transaction) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid payment data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to record payment" });
+      }
+    }
+  });
+
+  // Purchase Orders
+  app.get("/api/purchase-orders", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { supplierId } = z.object({ supplierId: z.string().optional() }).parse(req.query);
+      const purchaseOrders = await storage.getPurchaseOrders(userId, supplierId);
+      res.json(purchaseOrders);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid supplier", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const purchaseOrder = await storage.getPurchaseOrder(id, userId);
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const purchaseOrderData = createPurchaseOrderSchema.parse(req.body);
+      const purchaseOrder = await storage.createPurchaseOrder(userId, purchaseOrderData);
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid purchase order data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create purchase order" });
+      }
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const delivery = receivePurchaseSchema.parse(req.body);
+      const purchaseOrder = await storage.receivePurchaseOrder(id, userId, delivery);
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid delivery data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to receive purchase order" });
+      }
+    }
+  });
+
   // Orders
   app.get("/api/orders", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       const orders = await storage.getOrders(userId, limit);
       res.json(orders);
@@ -173,9 +436,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/orders/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const orderWithItems = await storage.getOrderWithItems(id);
+      const userId = req.userId!;
+      const orderWithItems = await storage.getOrderWithItems(id, userId);
       if (orderWithItems) {
-        res.json(orderWithItems);
+        const returns = await storage.getSalesReturns(id, userId);
+        const payments = await storage.getOrderPayments(id, userId);
+        res.json({ ...orderWithItems, returns, payments });
       } else {
         res.status(404).json({ error: "Order not found" });
       }
@@ -184,32 +450,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/orders/quote", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const quote = orderQuoteSchema.parse(req.body);
+      const pricing = await quoteOrder(userId, quote);
+      res.json(pricing);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid order data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to price order" });
+      }
+    }
+  });
+
   app.post("/api/orders", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
-      const { order: orderData, items } = req.body;
+      const userId = req.userId!;
+      const { order: orderData, items, tenders, clientId } = req.body;
       
-      const validatedOrder = insertOrderSchema.parse(orderData);
-      const order = await storage.createOrder({ ...validatedOrder, userId }, items);
-      
-      // Create transaction record
-      if (order.paymentStatus === "paid") {
-        await storage.createTransaction({
-          orderId: order.id,
-          customerId: order.customerId,
-          userId,
-          type: "sale",
-          amount: order.totalAmount,
-          paymentMethod: order.paymentMethod || "cash",
-          upiApp: order.upiApp,
-          description: `Sale for order ${order.orderNumber}`,
-        });
+      const validatedOrder = createOrderSchema.parse(orderData);
+      const validatedTenders = tenders === undefined ? undefined : z.array(orderTenderSchema).min(1).parse(tenders);
+
+      // A retry of a sale the server already has returns that order, so a
+      // sale re-sent after a dropped response isn't recorded twice
+      const validatedClientId = clientId === undefined ? undefined : offlineOrderSchema.shape.clientId.parse(clientId);
+      const existing = validatedClientId ? await storage.getOrderByClientId(validatedClientId, userId) : undefined;
+      if (existing) {
+        return res.json(existing);
       }
-      
+
+      // Prices, tax and totals are recomputed from the shop's catalogue; an
+      // order whose client-side totals disagree is rejected rather than fixed up
+      const pricing = await quoteOrder(userId, orderQuoteSchema.parse({
+        customerId: validatedOrder.customerId ?? undefined,
+        discountAmount: validatedOrder.discountAmount ?? 0,
+        items,
+      }));
+      const mismatches = findPricingMismatches(validatedOrder, items, pricing);
+      if (mismatches.length > 0) {
+        return res.status(400).json({ error: "Order totals do not match", details: mismatches, pricing });
+      }
+
+      const priced = applyPricing(validatedOrder, pricing);
+      // Without tenders the order's paymentMethod/paidAmount describe a
+      // single payment; createOrder records a transaction per tender
+      const order = await storage.createOrder({ ...priced.order, userId, clientId: validatedClientId }, priced.items, validatedTenders);
       res.json(order);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid order data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to create order" });
       }
@@ -219,22 +514,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/orders/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const orderData = insertOrderSchema.partial().parse(req.body);
-      const order = await storage.updateOrder(id, orderData);
+      const userId = req.userId!;
+      const orderData = updateOrderSchema.parse(req.body);
+      if (orderData.customerId !== undefined) {
+        const existing = await storage.getOrder(id, userId);
+        if (!existing) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+        await assertCustomerChangeAllowed(userId, existing, orderData.customerId);
+      }
+      const order = await storage.updateOrder(id, userId, orderData);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
       res.json(order);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid order data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to update order" });
       }
     }
   });
 
+  app.post("/api/orders/:id/cancel", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const { reason } = z.object({ reason: z.string().optional() }).parse(req.body ?? {});
+      const order = await storage.cancelOrder(id, userId, reason);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid cancellation data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to cancel order" });
+      }
+    }
+  });
+
+  app.get("/api/orders/:id/invoice", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const orderWithItems = await storage.getOrderWithItems(id, userId);
+      if (!orderWithItems) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const shop = await storage.getUser(userId);
+      const customer = orderWithItems.order.customerId
+        ? await storage.getCustomer(orderWithItems.order.customerId, userId)
+        : undefined;
+      const pdf = await renderInvoicePdf({ shop: shop!, ...orderWithItems, customer });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="Invoice-${orderWithItems.order.orderNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  // Thermal receipt as ESC/POS bytes and plain text, for the client to send to its printer
+  app.get("/api/orders/:id/receipt", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const { paperWidth } = z.object({
+        paperWidth: z.enum(["58", "80"]).default("58").transform((width) => parseInt(width) as 58 | 80),
+      }).parse(req.query);
+      const orderWithItems = await storage.getOrderWithItems(id, userId);
+      if (!orderWithItems) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const shop = await storage.getUser(userId);
+      const customer = orderWithItems.order.customerId
+        ? await storage.getCustomer(orderWithItems.order.customerId, userId)
+        : undefined;
+      res.json(renderReceipt({ shop: shop!, ...orderWithItems, customer }, paperWidth));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid paper width", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to generate receipt" });
+    }
+  });
+
+  // UPI payment link for what is still due on an order. Its tr is stored on
+  // the order, so the bank statement credit can be matched back to it.
+  app.post("/api/orders/:id/upi-intent", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const { expiresInMinutes } = upiIntentRequestSchema.parse(req.body ?? {});
+
+      const shop = await storage.getUser(userId);
+      if (!shop || !shop.upiId) {
+        return res.status(400).json({ error: "UPI ID not configured" });
+      }
+
+      const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+      const order = await storage.assignUpiReference(id, userId, expiresAt);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const amount = parseFloat((parseFloat(order.totalAmount) - parseFloat(order.paidAmount || "0")).toFixed(2));
+      const description = `Order ${order.orderNumber}`;
+      const upiUrl = buildUpiIntent({
+        payeeAddress: shop.upiId,
+        payeeName: shop.shopName,
+        amount,
+        transactionRef: order.upiReference!,
+        transactionNote: description,
+      });
+
+      res.json({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        upiUrl,
+        qrData: upiUrl,
+        shopName: shop.shopName,
+        shopNameHindi: shop.shopNameHindi,
+        upiId: shop.upiId,
+        amount,
+        description,
+        transactionRef: order.upiReference,
+        expiresAt: order.upiReferenceExpiresAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid payment link request", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (error instanceof UpiIntentError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create UPI payment link" });
+      }
+    }
+  });
+
+  app.post("/api/orders/:id/upi-payment", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const payment = upiPaymentSchema.parse(req.body ?? {});
+      const transaction = await storage.recordUpiPayment(id, userId, payment);
+      if (!transaction) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid UPI payment", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to record UPI payment" });
+      }
+    }
+  });
+
+  // Collects what is still due on a pending or partial order
+  app.post("/api/orders/:id/payments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const paymentData = orderPaymentSchema.parse(req.body);
+      const result = await storage.recordOrderPayment(id, userId, paymentData);
+      if (!result) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid payment data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to record payment" });
+      }
+    }
+  });
+
+  // Sales Returns
+  app.post("/api/orders/:id/returns", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const returnData = createSalesReturnSchema.parse(req.body);
+      const salesReturn = await storage.createSalesReturn(id, userId, returnData);
+      if (!salesReturn) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(salesReturn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid return data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create return" });
+      }
+    }
+  });
+
   // Transactions
   app.get("/api/transactions", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
+      const userId = req.userId!;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       const transactions = await storage.getTransactions(userId, limit);
       res.json(transactions);
@@ -245,8 +743,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/transactions", async (req, res) => {
     try {
-      const userId = "user-1"; // TODO: Get from session/auth
-      const transactionData = insertTransactionSchema.parse(req.body);
+      const userId = req.userId!;
+      const transactionData = createTransactionSchema.parse(req.body);
+      if (transactionData.orderId && !(await storage.getOrder(transactionData.orderId, userId))) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (transactionData.customerId && !(await storage.getCustomer(transactionData.customerId, userId))) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      // Paying a supplier lowers what is owed to them, which only the
+      // supplier payments endpoint keeps in step
+      if (transactionData.supplierId) {
+        if (!(await storage.getSupplier(transactionData.supplierId, userId))) {
+          return res.status(404).json({ error: "Supplier not found" });
+        }
+        return res.status(400).json({ error: "Record supplier payments from the supplier's page" });
+      }
       const transaction = await storage.createTransaction({ ...transactionData, userId });
       res.json(transaction);
     } catch (error) {
@@ -261,15 +773,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // UPI QR Code generation
   app.post("/api/upi/generate-qr", async (req, res) => {
     try {
-      const { amount, description } = req.body;
-      const userId = "user-1"; // TODO: Get from session/auth
+      const { amount, description } = z.object({
+        amount: z.coerce.number().positive(),
+        description: z.string().optional(),
+      }).parse(req.body);
+      const userId = req.userId!;
       
       const user = await storage.getUser(userId);
       if (!user || !user.upiId) {
         return res.status(400).json({ error: "UPI ID not configured" });
       }
 
-      const upiUrl = `upi://pay?pa=${user.upiId}&pn=${encodeURIComponent(user.shopName)}&am=${amount}&cu=INR&tn=${encodeURIComponent(description || "Payment")}`;
+      const transactionRef = generateTransactionRef();
+      const upiUrl = buildUpiIntent({
+        payeeAddress: user.upiId,
+        payeeName: user.shopName,
+        amount,
+        transactionRef,
+        transactionNote: description || "Payment",
+      });
       
       res.json({
         upiUrl,
@@ -279,12 +801,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
         upiId: user.upiId,
         amount,
         description,
+        transactionRef,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid payment amount", details: error.errors });
+      }
+      if (error instanceof UpiIntentError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to generate UPI QR code" });
     }
   });
 
+  // UPI Reconciliation
+  app.get("/api/reconciliation/entries", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { status } = z.object({
+        status: z.enum(["unmatched", "matched", "ignored"]).optional(),
+      }).parse(req.query);
+      const entries = await storage.getUpiStatementEntries(userId, status);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid entry status", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch statement entries" });
+    }
+  });
+
+  app.get("/api/reconciliation/orders", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const unreconciled = await storage.getUnreconciledUpiOrders(userId);
+      res.json(unreconciled);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch unreconciled orders" });
+    }
+  });
+
+  app.post("/api/reconciliation/imports", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { csv } = upiStatementImportSchema.parse(req.body);
+      const result = await importUpiStatement(userId, csv);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid statement", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to import statement" });
+      }
+    }
+  });
+
+  app.post("/api/reconciliation/entries/:id/match", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const { orderId } = upiStatementMatchSchema.parse(req.body);
+      const entry = await storage.matchUpiStatementEntry(id, userId, orderId);
+      if (!entry) {
+        return res.status(404).json({ error: "Statement entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid match data", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to match statement entry" });
+      }
+    }
+  });
+
+  app.post("/api/reconciliation/entries/:id/ignore", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const entry = await storage.ignoreUpiStatementEntry(id, userId);
+      if (!entry) {
+        return res.status(404).json({ error: "Statement entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to ignore statement entry" });
+      }
+    }
+  });
+
+  // Offline Sync: sales captured without a connection, replayed safely
+  app.post("/api/sync/orders", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { orders } = offlineSyncSchema.parse(req.body);
+      const results = await syncOfflineOrders(userId, orders);
+      res.json({ results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid sync data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to sync offline orders" });
+      }
+    }
+  });
+
+  // Catalogue changes since the cursor a device got last time, for its
+  // offline cache
+  app.get("/api/sync/changes", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { since } = syncChangesQuerySchema.parse(req.query);
+      const cursor = new Date();
+      const changes = await storage.getCatalogChanges(
+        userId,
+        since ? new Date(new Date(since).getTime() - SYNC_CURSOR_OVERLAP_MS) : undefined,
+      );
+      const body: SyncChanges = { ...changes, cursor: cursor.toISOString(), full: !since };
+      res.json(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sync cursor", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch changes" });
+    }
+  });
+
+  app.get("/api/stock-conflicts", async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { status } = z.object({
+        status: z.enum(["open", "resolved"]).optional(),
+      }).parse(req.query);
+      const conflicts = await storage.getStockConflicts(userId, status);
+      res.json(conflicts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid conflict status", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch stock conflicts" });
+    }
+  });
+
+  app.post("/api/stock-conflicts/:id/resolve", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.userId!;
+      const { action } = resolveStockConflictSchema.parse(req.body);
+      const conflicts = await resolveStockConflict(userId, id, action);
+      if (!conflicts) {
+        return res.status(404).json({ error: "Stock conflict not found" });
+      }
+      res.json(conflicts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid resolution", details: error.errors });
+      } else if (error instanceof StorageError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to resolve stock conflict" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage, StorageError } from "./storage";
+
+let storage: MemStorage;
+let userId: string;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  const user = await storage.createUser({
+    username: "shop",
+    password: "hash",
+    shopName: "Shop",
+    ownerName: "Owner",
+    phone: "9876543210",
+  });
+  userId = user.id;
+});
+
+async function createProduct(stock = "10") {
+  return await storage.createProduct({ name: "Rice", price: "50", stock, userId });
+}
+
+function cashSale(productId: string, quantity = "1") {
+  return storage.createOrder(
+    { userId, totalAmount: "50.00", paymentMethod: "cash", paymentStatus: "paid", paidAmount: "50.00" },
+    [{ productId, quantity, unitPrice: "50.00", totalPrice: "50.00" }],
+  );
+}
+
+describe("MemStorage.createOrder", () => {
+  it("reports an unknown product as a 404 StorageError, like DatabaseStorage", async () => {
+    const error = await cashSale("no-such-product").catch((e) => e);
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.status).toBe(404);
+  });
+
+  it("treats another shop's product as unknown and writes nothing", async () => {
+    const otherShop = await storage.createUser({
+      username: "other",
+      password: "hash",
+      shopName: "Other",
+      ownerName: "Owner",
+      phone: "9876543211",
+    });
+    const otherProduct = await storage.createProduct({ name: "Dal", price: "50", stock: "10", userId: otherShop.id });
+    const product = await createProduct();
+
+    const error = await storage.createOrder(
+      { userId, totalAmount: "100.00", paymentMethod: "cash" },
+      [
+        { productId: product.id, quantity: "1", unitPrice: "50.00", totalPrice: "50.00" },
+        { productId: otherProduct.id, quantity: "1", unitPrice: "50.00", totalPrice: "50.00" },
+      ],
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.status).toBe(404);
+
+    expect(await storage.getOrders(userId)).toHaveLength(0);
+    expect((await storage.getProduct(product.id, userId))?.stock).toBe("10");
+    expect((await storage.getProduct(otherProduct.id, otherShop.id))?.stock).toBe("10");
+  });
+});
@@ -1,11 +1,549 @@
 import { 
   users, products, categories, customers, orders, orderItems, transactions, stockMovements,
+  salesReturns, salesReturnItems, invoiceCounters, upiStatementEntries, stockConflicts, syncTombstones,
+  suppliers, purchaseOrders, purchaseOrderItems,
   type User, type InsertUser, type Product, type InsertProduct, type Category, type InsertCategory,
-  type Customer, type InsertCustomer, type Order, type InsertOrder, type OrderItem, type InsertOrderItem,
-  type Transaction, type InsertTransaction, type StockMovement, type InsertStockMovement
+  type Customer, type InsertCustomer, type Order, type InsertOrder, type UpdateOrder, type OrderItem, type InsertOrderItem,
+  type Transaction, type InsertTransaction, type StockMovement, type InsertStockMovement,
+  type SalesReturn, type SalesReturnItem, type SalesReturnWithItems, type CreateSalesReturn,
+  type OrderTender, type CreditPayment, type OrderPayment, type CustomerLedger, type UpiStatementEntry, type InsertUpiStatementEntry,
+  type UnreconciledUpiOrder, type UpiPayment, type StockConflict, type InsertStockConflict, type StockConflictWithProduct, type OfflineStockPolicy,
+  type SyncTombstone, type SyncEntityType, type CatalogChanges, type Supplier, type InsertSupplier,
+  type PurchaseOrder, type PurchaseOrderItem, type PurchaseOrderWithItems, type CreatePurchaseOrder, type ReceivePurchase
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, sql, desc, asc, lt } from "drizzle-orm";
+import { generateTransactionRef } from "@shared/upi";
+import { getDb } from "./db";
+import { eq, ne, and, or, sql, desc, asc, lt, gte, like, inArray, isNull, isNotNull, getTableColumns } from "drizzle-orm";
+import { randomUUID } from "crypto";
+
+// Raised when a request is well-formed but not allowed for the current state
+// of the data, e.g. cancelling an order twice. Routes answer with `status`.
+export class StorageError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+// Postgres reports a write that breaks a unique constraint as SQLSTATE 23505
+// and names the constraint, so callers can answer with a clean 409
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const { code, constraint_name } = (error ?? {}) as { code?: string; constraint_name?: string };
+  return code === "23505" && constraint_name === constraint;
+}
+
+// SQLSTATE 23503: the row is still referenced, e.g. a product that was sold
+function isForeignKeyViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23503";
+}
+
+// Raised by createOrder under the hold policy when an offline sale needs more
+// stock than is left; nothing was written and `shortfalls` lists the products
+export class StockShortfallError extends StorageError {
+  constructor(public shortfalls: InsertStockConflict[]) {
+    super("Not enough stock for this sale");
+    this.name = "StockShortfallError";
+  }
+}
+
+// Drops undefined keys so they don't override column defaults when spread
+function definedOnly<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+// Mirrors how postgres returns decimal columns: fixed-scale strings
+function toDecimal(value: number, scale: number): string {
+  return value.toFixed(scale);
+}
+
+// Indian financial years run April to March; the boundary is taken in IST
+// so orders just after midnight on April 1 start the new series
+function getFinancialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+// e.g. INV/26-27/0001 - at most 16 characters with a five character prefix
+function formatOrderNumber(prefix: string, financialYear: string, sequence: number): string {
+  return `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(4, "0")}`;
+}
+
+interface OrderSettlements {
+  creditSales: number;
+  refunds: number;
+  creditNotes: number;
+}
+
+// What can still be given back in cash on an order, and how much of it is
+// still owed on the customer's khata. Credit notes settle the unpaid credit
+// portion first; only the excess comes out of what was actually paid.
+function getOrderBalances(order: Order, settled: OrderSettlements) {
+  const total = parseFloat(order.totalAmount);
+  const paid = parseFloat(order.paidAmount || "0");
+  const unpaidOnCredit = order.customerId ? Math.min(Math.max(0, total - paid), settled.creditSales) : 0;
+  return {
+    creditOwed: Math.max(0, unpaidOnCredit - settled.creditNotes),
+    refundableCash: paid - settled.refunds - Math.max(0, settled.creditNotes - unpaidOnCredit),
+  };
+}
+
+function isCreditOrder(order: Pick<Order, "paymentMethod" | "customerId">): boolean {
+  return order.paymentMethod === "credit" && !!order.customerId;
+}
+
+function isCreditTender(tender: OrderTender): boolean {
+  return tender.paymentMethod === "credit";
+}
+
+// Orders posted without tenders have collected nothing yet (e.g. a UPI sale
+// waiting for its QR payment), except a credit order, whose whole total goes
+// on the customer's khata.
+function getOrderTenders(order: InsertOrder): OrderTender[] {
+  if (order.paymentMethod !== "credit") return [];
+  return [{ paymentMethod: "credit", amount: parseFloat(order.totalAmount) }];
+}
+
+// The payment fields of a new order follow from its tenders: paid means the
+// tenders other than credit cover the total. An order tendered more than one
+// way is recorded with the "split" method; orders posted without tenders keep
+// the method they were posted with.
+function planOrderPayment(order: InsertOrder, requestedTenders?: OrderTender[]) {
+  const tenders = requestedTenders ?? getOrderTenders(order);
+  const total = parseFloat(order.totalAmount);
+  const creditAmount = tenders.filter(isCreditTender).reduce((sum, tender) => sum + tender.amount, 0);
+  const paid = tenders.filter((tender) => !isCreditTender(tender)).reduce((sum, tender) => sum + tender.amount, 0);
+  if (creditAmount > 0 && !order.customerId) {
+    throw new StorageError("Credit sales need a customer", 400);
+  }
+  if (paid + creditAmount > total + 0.005) {
+    throw new StorageError(`Payments of ₹${(paid + creditAmount).toFixed(2)} are more than the ₹${total.toFixed(2)} order total`, 400);
+  }
+
+  const methods = Array.from(new Set(tenders.map((tender) => tender.paymentMethod)));
+  const paymentMethod = requestedTenders && methods.length > 0
+    ? methods.length > 1 ? "split" : methods[0]
+    : order.paymentMethod ?? null;
+  return {
+    tenders,
+    creditAmount,
+    paymentMethod,
+    paidAmount: toDecimal(paid, 2),
+    paymentStatus: paid >= total - 0.005 ? "paid" : paid > 0 ? "partial" : "pending",
+  };
+}
+
+// How an order was paid for, as opposed to refunds and credit notes against it
+const ORDER_PAYMENT_TYPES = ["sale", "credit_sale", "credit_payment"];
+
+// Each tender is recorded as its own transaction; credit tenders are khata
+// debits for the customer
+function getTenderTransaction(order: Order, tender: OrderTender): InsertTransaction & { userId: string } {
+  const credit = isCreditTender(tender);
+  return {
+    orderId: order.id,
+    customerId: order.customerId,
+    userId: order.userId,
+    type: credit ? "credit_sale" : "sale",
+    amount: toDecimal(tender.amount, 2),
+    paymentMethod: tender.paymentMethod,
+    upiApp: tender.upiApp,
+    upiTransactionId: tender.upiTransactionId,
+    description: `${credit ? "Credit sale" : "Sale"} for order ${order.orderNumber}`,
+  };
+}
+
+// A cancelled order is refunded the way it was paid, so the UPI part of a
+// split order goes back over UPI. Anything the recorded sales don't account
+// for is refunded by the order's own payment method.
+function allocateRefund(order: Order, orderTransactions: Transaction[], amount: number) {
+  const byMethod = new Map<string, { paymentMethod: string; upiApp: string | null; amount: number }>();
+  for (const transaction of orderTransactions) {
+    if (!["sale", "credit_payment", "refund"].includes(transaction.type) || !transaction.paymentMethod) continue;
+    const entry = byMethod.get(transaction.paymentMethod)
+      ?? { paymentMethod: transaction.paymentMethod, upiApp: transaction.upiApp, amount: 0 };
+    entry.amount += (transaction.type === "refund" ? -1 : 1) * parseFloat(transaction.amount);
+    byMethod.set(transaction.paymentMethod, entry);
+  }
+
+  const refunds: { paymentMethod: string; upiApp: string | null; amount: number }[] = [];
+  let remaining = amount;
+  for (const entry of Array.from(byMethod.values())) {
+    const share = Math.min(remaining, entry.amount);
+    if (share < 0.005) continue;
+    refunds.push({ ...entry, amount: share });
+    remaining -= share;
+  }
+  if (remaining >= 0.005) {
+    const paymentMethod = order.paymentMethod && order.paymentMethod !== "split" ? order.paymentMethod : "cash";
+    refunds.push({ paymentMethod, upiApp: order.upiApp, amount: remaining });
+  }
+  return refunds;
+}
+
+// A return paid back in money goes out by the tender that took the most of the
+// order, since "split" and "credit" aren't ways to hand money back
+function getRefundMethod(order: Order, orderTransactions: Transaction[]) {
+  const [largest] = orderTransactions
+    .filter((transaction) => transaction.type === "sale" && transaction.paymentMethod)
+    .sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount));
+  if (largest) return largest.paymentMethod!;
+  return order.paymentMethod && !["split", "credit"].includes(order.paymentMethod) ? order.paymentMethod : "cash";
+}
+
+// A credit limit of 0 means no limit has been set for the customer
+function assertWithinCreditLimit(customer: Customer, amount: number) {
+  const limit = parseFloat(customer.creditLimit || "0");
+  const outstanding = parseFloat(customer.outstandingAmount || "0");
+  if (limit > 0 && outstanding + amount > limit + 0.005) {
+    throw new StorageError(
+      `Credit limit exceeded: ₹${outstanding.toFixed(2)} outstanding of ₹${limit.toFixed(2)} limit`,
+      400,
+    );
+  }
+}
+
+const LEDGER_DEBIT_TYPES = ["credit_sale"];
+const LEDGER_CREDIT_TYPES = ["credit_payment", "credit_note"];
+const LEDGER_TYPES = [...LEDGER_DEBIT_TYPES, ...LEDGER_CREDIT_TYPES];
+
+// Builds the running balance from oldest to newest. Balances that predate
+// the ledger (e.g. imported khata books) show up as the opening balance.
+function buildCustomerLedger(customer: Customer, ledgerTransactions: Transaction[]): CustomerLedger {
+  const sorted = [...ledgerTransactions].sort((a, b) =>
+    (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+  );
+  const net = sorted.reduce((sum, transaction) =>
+    sum + (LEDGER_DEBIT_TYPES.includes(transaction.type) ? 1 : -1) * parseFloat(transaction.amount), 0);
+  const closingBalance = parseFloat(customer.outstandingAmount || "0");
+  const openingBalance = closingBalance - net;
+
+  let balance = openingBalance;
+  const entries = sorted.map((transaction) => {
+    const isDebit = LEDGER_DEBIT_TYPES.includes(transaction.type);
+    const amount = parseFloat(transaction.amount);
+    balance += isDebit ? amount : -amount;
+    return {
+      id: transaction.id,
+      type: transaction.type,
+      orderId: transaction.orderId,
+      description: transaction.description,
+      createdAt: transaction.createdAt,
+      debit: toDecimal(isDebit ? amount : 0, 2),
+      credit: toDecimal(isDebit ? 0 : amount, 2),
+      balance: toDecimal(balance, 2),
+    };
+  });
+
+  return {
+    customer,
+    openingBalance: toDecimal(openingBalance, 2),
+    entries,
+    balance: toDecimal(closingBalance, 2),
+  };
+}
+
+interface SalesReturnLine {
+  item: OrderItem;
+  quantity: number;
+  amount: number;
+  condition: "restock" | "damage";
+}
+
+// Products an offline sale needs more of than is in stock. Lines for the same
+// product are added up, and stock that is already negative counts as none.
+export function findStockShortfalls(
+  clientId: string,
+  items: { productId: string; quantity: string | number }[],
+  stockOf: (productId: string) => string | undefined,
+): InsertStockConflict[] {
+  const demand = new Map<string, number>();
+  for (const item of items) {
+    demand.set(item.productId, (demand.get(item.productId) ?? 0) + Number(item.quantity));
+  }
+
+  const shortfalls: InsertStockConflict[] = [];
+  for (const [productId, quantity] of Array.from(demand)) {
+    const stock = stockOf(productId);
+    if (stock === undefined || quantity <= parseFloat(stock) + 0.0005) continue;
+    shortfalls.push({
+      productId,
+      clientId,
+      quantity: toDecimal(quantity, 3),
+      availableStock: stock,
+      policy: "allow_negative",
+    });
+  }
+  return shortfalls;
+}
+
+// Only open (pending) and completed sales can be cancelled; cancelling is
+// final, so a cancelled order never has its stock put back a second time
+function assertCancellable(order: Order) {
+  if (order.status === "cancelled") {
+    throw new StorageError("Order is already cancelled");
+  }
+  if (order.status !== "pending" && order.status !== "completed") {
+    throw new StorageError(`Cannot cancel an order that is ${order.status}`);
+  }
+}
+
+// Validates a return against what was sold and already returned, and prices
+// each line at its share of the order total (so GST and discounts are
+// refunded proportionally). `reimbursed` is what has already been refunded
+// or credited on the order.
+function planSalesReturn(
+  order: Order,
+  items: OrderItem[],
+  returnedByItem: Map<string, number>,
+  reimbursed: OrderSettlements,
+  data: CreateSalesReturn,
+): { lines: SalesReturnLine[]; amount: number } {
+  if (order.status === "cancelled") {
+    throw new StorageError("Cannot return items from a cancelled order");
+  }
+  if (data.settlement === "credit_note" && !order.customerId) {
+    throw new StorageError("A credit note needs a customer on the order", 400);
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
+  const returned = new Map(returnedByItem);
+  const lines = data.items.map((line) => {
+    const item = items.find((orderItem) => orderItem.id === line.orderItemId);
+    if (!item) {
+      throw new StorageError(`Order item ${line.orderItemId} is not part of this order`, 400);
+    }
+
+    const alreadyReturned = returned.get(item.id) || 0;
+    if (alreadyReturned + line.quantity > parseFloat(item.quantity) + 1e-9) {
+      throw new StorageError("Cannot return more than was sold", 400);
+    }
+    returned.set(item.id, alreadyReturned + line.quantity);
+
+    const lineShare = subtotal > 0 ? parseFloat(item.totalPrice) / subtotal : 0;
+    const amount = parseFloat(order.totalAmount) * lineShare * (line.quantity / parseFloat(item.quantity));
+    return { item, quantity: line.quantity, amount: Math.round(amount * 100) / 100, condition: line.condition };
+  });
+
+  const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (data.settlement === "refund" && amount > getOrderBalances(order, reimbursed).refundableCash + 0.005) {
+    throw new StorageError("Refund exceeds the amount paid on this order", 400);
+  }
+
+  return { lines, amount };
+}
+
+function costPurchaseLines(items: CreatePurchaseOrder["items"]) {
+  const lines = items.map((item) => ({
+    productId: item.productId,
+    quantity: toDecimal(item.quantity, 3),
+    unitCost: toDecimal(item.unitCost, 2),
+    totalCost: toDecimal(item.quantity * item.unitCost, 2),
+  }));
+  return { lines, totalAmount: toDecimal(lines.reduce((sum, line) => sum + parseFloat(line.totalCost), 0), 2) };
+}
+
+interface PurchaseReceiptLine {
+  item: PurchaseOrderItem;
+  quantity: number;
+  amount: number;
+}
+
+// One delivery against a purchase order: how much of each line arrives, what
+// it is worth (and so is now owed to the supplier), and the order's status
+// once it is in
+function planPurchaseReceipt(
+  purchaseOrder: PurchaseOrder,
+  items: PurchaseOrderItem[],
+  delivery: ReceivePurchase,
+): { lines: PurchaseReceiptLine[]; amount: number; status: string } {
+  if (purchaseOrder.status === "received") {
+    throw new StorageError(`${purchaseOrder.poNumber} is already fully received`);
+  }
+
+  const stillDue = (item: PurchaseOrderItem) => parseFloat(item.quantity) - parseFloat(item.receivedQuantity);
+  const requested = delivery.items ?? items
+    .filter((item) => stillDue(item) > 1e-9)
+    .map((item) => ({ itemId: item.id, quantity: stillDue(item) }));
+
+  const receiving = new Map<string, number>();
+  for (const line of requested) {
+    const item = items.find((purchaseItem) => purchaseItem.id === line.itemId);
+    if (!item) {
+      throw new StorageError(`Item ${line.itemId} is not part of this purchase order`, 400);
+    }
+    const quantity = (receiving.get(item.id) || 0) + line.quantity;
+    if (quantity > stillDue(item) + 1e-9) {
+      throw new StorageError("Cannot receive more than is still due", 400);
+    }
+    receiving.set(item.id, quantity);
+  }
+
+  const lines = items
+    .filter((item) => receiving.has(item.id))
+    .map((item) => {
+      const quantity = receiving.get(item.id)!;
+      return { item, quantity, amount: Math.round(quantity * parseFloat(item.unitCost) * 100) / 100 };
+    });
+  const complete = items.every((item) => stillDue(item) - (receiving.get(item.id) || 0) <= 1e-9);
+
+  return {
+    lines,
+    amount: lines.reduce((sum, line) => sum + line.amount, 0),
+    status: complete ? "received" : "partially_received",
+  };
+}
+
+// Splits a later payment on an order between what was left unpaid at the
+// counter and what is still on the customer's khata
+function planOrderCollection(order: Order, settled: OrderSettlements, amount: number) {
+  if (order.status === "cancelled") {
+    throw new StorageError("Cannot take a payment on a cancelled order");
+  }
+
+  const total = parseFloat(order.totalAmount);
+  const paid = parseFloat(order.paidAmount || "0");
+  const balanceDue = order.paymentStatus === "paid" ? 0 : Math.max(0, total - paid - settled.creditNotes);
+  if (balanceDue < 0.005) {
+    throw new StorageError(`Order ${order.orderNumber} is already paid`);
+  }
+  if (amount > balanceDue + 0.005) {
+    throw new StorageError(`₹${amount.toFixed(2)} is more than the ₹${balanceDue.toFixed(2)} due on order ${order.orderNumber}`, 400);
+  }
+
+  const paidAmount = toDecimal(paid + amount, 2);
+  const khataAmount = getOrderBalances(order, settled).creditOwed -
+    getOrderBalances({ ...order, paidAmount }, settled).creditOwed;
+  return {
+    saleAmount: amount - khataAmount,
+    khataAmount,
+    paidAmount,
+    paymentStatus: amount >= balanceDue - 0.005 ? "paid" : "partial",
+  };
+}
+
+function getCollectionTransactions(
+  order: Order,
+  payment: OrderPayment,
+  plan: ReturnType<typeof planOrderCollection>,
+): (InsertTransaction & { userId: string })[] {
+  const shared = {
+    orderId: order.id,
+    customerId: order.customerId,
+    userId: order.userId,
+    paymentMethod: payment.paymentMethod,
+    upiApp: payment.upiApp,
+    upiTransactionId: payment.upiTransactionId,
+  };
+  const collected: (InsertTransaction & { userId: string })[] = [];
+  if (plan.saleAmount >= 0.005) {
+    collected.push({
+      ...shared,
+      type: "sale",
+      amount: toDecimal(plan.saleAmount, 2),
+      description: payment.description || `Payment for order ${order.orderNumber}`,
+    });
+  }
+  if (plan.khataAmount >= 0.005) {
+    collected.push({
+      ...shared,
+      type: "credit_payment",
+      amount: toDecimal(plan.khataAmount, 2),
+      description: payment.description || `Khata payment for order ${order.orderNumber}`,
+    });
+  }
+  return collected;
+}
+
+// UPI sales rung up as paid at the counter before the money was seen in the
+// bank; a statement credit confirms them by filling in the UTR
+function isUnverifiedUpiSale(transaction: Transaction): boolean {
+  return transaction.type === "sale" && transaction.paymentMethod === "upi" && !transaction.upiTransactionId;
+}
+
+function summariseUnreconciledOrder(order: Order, orderTransactions: Transaction[]): UnreconciledUpiOrder {
+  const balanceDue = order.paymentStatus === "paid"
+    ? 0
+    : Math.max(0, parseFloat(order.totalAmount) - parseFloat(order.paidAmount || "0"));
+  return {
+    order,
+    balanceDue: toDecimal(balanceDue, 2),
+    unverifiedSales: orderTransactions.filter(isUnverifiedUpiSale).map((transaction) => transaction.amount),
+  };
+}
+
+function assertAcceptsUpiPayment(order: Order) {
+  if (order.status === "cancelled") {
+    throw new StorageError("Cannot take a payment on a cancelled order");
+  }
+  if (isCreditOrder(order)) {
+    throw new StorageError("Khata orders are settled through customer payments", 400);
+  }
+}
+
+// How a UPI payment settles an order: it either confirms a sale that was
+// already recorded (same UTR, or an unverified sale of the same amount) or
+// pays towards the balance. Without an amount the whole balance is paid.
+type UpiSettlement =
+  | { confirms: Transaction }
+  | { amount: string; paidAmount: string; paymentStatus: string };
+
+function planUpiSettlement(order: Order, orderTransactions: Transaction[], payment: UpiPayment): UpiSettlement {
+  assertAcceptsUpiPayment(order);
+
+  if (payment.utr) {
+    const confirms = orderTransactions.find((transaction) => transaction.upiTransactionId === payment.utr)
+      ?? orderTransactions.find((transaction) =>
+        isUnverifiedUpiSale(transaction) &&
+        (payment.amount === undefined || Math.abs(parseFloat(transaction.amount) - payment.amount) < 0.005)
+      );
+    if (confirms) return { confirms };
+  }
+  // Split orders with part of the bill on the khata count as khata orders
+  if (orderTransactions.some((transaction) => transaction.type === "credit_sale")) {
+    throw new StorageError("Khata orders are settled through customer payments", 400);
+  }
+
+  const total = parseFloat(order.totalAmount);
+  const paid = parseFloat(order.paidAmount || "0");
+  const balanceDue = order.paymentStatus === "paid" ? 0 : Math.max(0, total - paid);
+  if (balanceDue < 0.005) {
+    throw new StorageError(`Order ${order.orderNumber} is already paid`);
+  }
+  const amount = payment.amount ?? balanceDue;
+  if (amount > balanceDue + 0.005) {
+    throw new StorageError(`₹${amount.toFixed(2)} is more than the ₹${balanceDue.toFixed(2)} due on order ${order.orderNumber}`, 400);
+  }
+  return {
+    amount: toDecimal(amount, 2),
+    paidAmount: toDecimal(paid + amount, 2),
+    paymentStatus: paid + amount >= total - 0.005 ? "paid" : "partial",
+  };
+}
+
+// A reference that hasn't expired is kept, so a customer still holding the
+// earlier QR pays against the same tr
+function reuseUpiReference(order: Order): string {
+  const current = order.upiReference && order.upiReferenceExpiresAt && order.upiReferenceExpiresAt > new Date();
+  return current ? order.upiReference! : generateTransactionRef();
+}
+
+function catalogChanges(
+  changedProducts: Product[],
+  changedCategories: Category[],
+  changedCustomers: Customer[],
+  tombstones: SyncTombstone[],
+): CatalogChanges {
+  const deletedOf = (entityType: SyncEntityType) =>
+    tombstones.filter((tombstone) => tombstone.entityType === entityType).map((tombstone) => tombstone.entityId);
+  return {
+    products: { updated: changedProducts, deleted: deletedOf("product") },
+    categories: { updated: changedCategories, deleted: deletedOf("category") },
+    customers: { updated: changedCustomers, deleted: deletedOf("customer") },
+  };
+}
 
 export interface IStorage {
   // Users
@@ -17,42 +555,93 @@ export interface IStorage {
   // Categories
   getCategories(userId: string): Promise<Category[]>;
   createCategory(category: InsertCategory & { userId: string }): Promise<Category>;
-  updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category>;
-  deleteCategory(id: string): Promise<void>;
+  updateCategory(id: string, userId: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: string, userId: string): Promise<boolean>;
 
   // Products
   getProducts(userId: string): Promise<Product[]>;
-  getProduct(id: string): Promise<Product | undefined>;
+  getProduct(id: string, userId: string): Promise<Product | undefined>;
   getLowStockProducts(userId: string): Promise<Product[]>;
   createProduct(product: InsertProduct & { userId: string }): Promise<Product>;
-  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product>;
-  updateProductStock(id: string, quantity: number): Promise<Product>;
-  deleteProduct(id: string): Promise<void>;
+  updateProduct(id: string, userId: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  updateProductStock(id: string, userId: string, quantity: number): Promise<Product | undefined>;
+  deleteProduct(id: string, userId: string): Promise<boolean>;
 
   // Customers
   getCustomers(userId: string): Promise<Customer[]>;
-  getCustomer(id: string): Promise<Customer | undefined>;
+  getCustomer(id: string, userId: string): Promise<Customer | undefined>;
   getCustomerByPhone(phone: string, userId: string): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer & { userId: string }): Promise<Customer>;
-  updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer>;
-  deleteCustomer(id: string): Promise<void>;
+  updateCustomer(id: string, userId: string, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
+  deleteCustomer(id: string, userId: string): Promise<boolean>;
+  getCustomerLedger(id: string, userId: string): Promise<CustomerLedger | undefined>;
+  recordCreditPayment(id: string, userId: string, payment: CreditPayment): Promise<Transaction | undefined>;
+
+  // Suppliers
+  getSuppliers(userId: string): Promise<Supplier[]>;
+  getSupplier(id: string, userId: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier & { userId: string }): Promise<Supplier>;
+  updateSupplier(id: string, userId: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  getSupplierPayments(id: string, userId: string): Promise<Transaction[]>;
+  recordSupplierPayment(id: string, userId: string, payment: OrderPayment): Promise<Transaction | undefined>;
+
+  // Purchase Orders
+  getPurchaseOrders(userId: string, supplierId?: string): Promise<PurchaseOrderWithItems[]>;
+  getPurchaseOrder(id: string, userId: string): Promise<PurchaseOrderWithItems | undefined>;
+  createPurchaseOrder(userId: string, purchaseOrder: CreatePurchaseOrder): Promise<PurchaseOrderWithItems>;
+  receivePurchaseOrder(id: string, userId: string, delivery: ReceivePurchase): Promise<PurchaseOrderWithItems | undefined>;
 
   // Orders
   getOrders(userId: string, limit?: number): Promise<Order[]>;
-  getOrder(id: string): Promise<Order | undefined>;
-  getOrderWithItems(id: string): Promise<{ order: Order; items: (OrderItem & { product: Product })[] } | undefined>;
-  createOrder(order: InsertOrder & { userId: string }, items: InsertOrderItem[]): Promise<Order>;
-  updateOrder(id: string, order: Partial<InsertOrder>): Promise<Order>;
-  deleteOrder(id: string): Promise<void>;
+  getOrder(id: string, userId: string): Promise<Order | undefined>;
+  getOrderWithItems(id: string, userId: string): Promise<{ order: Order; items: (OrderItem & { product: Product })[] } | undefined>;
+  getOrderByClientId(clientId: string, userId: string): Promise<Order | undefined>;
+  // Offline sales pass the shop's stock policy; the stock check then runs on
+  // the locked product rows, so two syncs can't both take the last unit
+  createOrder(
+    order: InsertOrder & { userId: string; clientId?: string; createdAt?: Date },
+    items: Omit<InsertOrderItem, "orderId">[],
+    tenders?: OrderTender[],
+    offlineStockPolicy?: OfflineStockPolicy,
+  ): Promise<Order>;
+  updateOrder(id: string, userId: string, order: UpdateOrder): Promise<Order | undefined>;
+  deleteOrder(id: string, userId: string): Promise<boolean>;
+  cancelOrder(id: string, userId: string, reason?: string): Promise<Order | undefined>;
+  assignUpiReference(id: string, userId: string, expiresAt: Date): Promise<Order | undefined>;
+  recordUpiPayment(id: string, userId: string, payment: UpiPayment): Promise<Transaction | undefined>;
+  recordOrderPayment(id: string, userId: string, payment: OrderPayment): Promise<{ order: Order; transactions: Transaction[] } | undefined>;
+
+  // Sales Returns
+  getSalesReturns(orderId: string, userId: string): Promise<SalesReturnWithItems[]>;
+  createSalesReturn(orderId: string, userId: string, data: CreateSalesReturn): Promise<SalesReturn | undefined>;
 
   // Transactions
   getTransactions(userId: string, limit?: number): Promise<Transaction[]>;
+  getTransactionByUtr(utr: string, userId: string): Promise<Transaction | undefined>;
+  getOrderPayments(orderId: string, userId: string): Promise<Transaction[]>;
   createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction>;
   getDailySales(userId: string, date: Date): Promise<{ total: number; upiTotal: number; count: number }>;
 
+  // UPI Reconciliation
+  getUpiStatementEntries(userId: string, status?: string): Promise<UpiStatementEntry[]>;
+  createUpiStatementEntries(userId: string, entries: InsertUpiStatementEntry[]): Promise<UpiStatementEntry[]>;
+  getUnreconciledUpiOrders(userId: string): Promise<UnreconciledUpiOrder[]>;
+  matchUpiStatementEntry(id: string, userId: string, orderId: string): Promise<UpiStatementEntry | undefined>;
+  ignoreUpiStatementEntry(id: string, userId: string): Promise<UpiStatementEntry | undefined>;
+
+  // Stock Conflicts
+  getStockConflicts(userId: string, status?: string): Promise<StockConflictWithProduct[]>;
+  getStockConflict(id: string, userId: string): Promise<StockConflict | undefined>;
+  getStockConflictsForSale(clientId: string, userId: string): Promise<StockConflict[]>;
+  createStockConflicts(userId: string, conflicts: InsertStockConflict[]): Promise<StockConflict[]>;
+  resolveStockConflicts(clientId: string, userId: string, resolution: "accepted" | "rejected", orderId?: string): Promise<StockConflict[]>;
+
+  // Sync
+  getCatalogChanges(userId: string, since?: Date): Promise<CatalogChanges>;
+
   // Stock Movements
   createStockMovement(movement: InsertStockMovement & { userId: string }): Promise<StockMovement>;
-  getStockMovements(productId: string): Promise<StockMovement[]>;
+  getStockMovements(productId: string, userId: string): Promise<StockMovement[]>;
 
   // Dashboard Stats
   getDashboardStats(userId: string): Promise<{
@@ -63,56 +652,80 @@ export interface IStorage {
   }>;
 }
 
+type DbTransaction = Parameters<Parameters<ReturnType<typeof getDb>["transaction"]>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
+  private get db() {
+    return getDb();
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
     return user;
   }
 
   async updateUser(id: string, userData: Partial<InsertUser>): Promise<User> {
-    const [user] = await db.update(users).set(userData).where(eq(users.id, id)).returning();
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
     return user;
   }
 
   async getCategories(userId: string): Promise<Category[]> {
-    return await db.select().from(categories).where(eq(categories.userId, userId));
+    return await this.db.select().from(categories).where(eq(categories.userId, userId));
   }
 
   async createCategory(category: InsertCategory & { userId: string }): Promise<Category> {
-    const [newCategory] = await db.insert(categories).values(category).returning();
+    const [newCategory] = await this.db.insert(categories).values(category).returning();
     return newCategory;
   }
 
-  async updateCategory(id: string, categoryData: Partial<InsertCategory>): Promise<Category> {
-    const [category] = await db.update(categories).set(categoryData).where(eq(categories.id, id)).returning();
-    return category;
+  async updateCategory(id: string, userId: string, categoryData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [category] = await this.db.update(categories)
+      .set({ ...categoryData, updatedAt: new Date() })
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+      .returning();
+    return category || undefined;
   }
 
-  async deleteCategory(id: string): Promise<void> {
-    await db.delete(categories).where(eq(categories.id, id));
+  async deleteCategory(id: string, userId: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      try {
+        const deleted = await tx.delete(categories)
+          .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+          .returning({ id: categories.id });
+        if (deleted.length === 0) return false;
+      } catch (error) {
+        if (isForeignKeyViolation(error)) {
+          throw new StorageError("Category still has products");
+        }
+        throw error;
+      }
+      await tx.insert(syncTombstones).values({ userId, entityType: "category", entityId: id });
+      return true;
+    });
   }
 
   async getProducts(userId: string): Promise<Product[]> {
-    return await db.select().from(products).where(eq(products.userId, userId));
+    return await this.db.select().from(products).where(eq(products.userId, userId));
   }
 
-  async getProduct(id: string): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
+  async getProduct(id: string, userId: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products)
+      .where(and(eq(products.id, id), eq(products.userId, userId)));
     return product || undefined;
   }
 
   async getLowStockProducts(userId: string): Promise<Product[]> {
-    return await db.select().from(products)
+    return await this.db.select().from(products)
       .where(and(
         eq(products.userId, userId),
         sql`${products.stock} <= ${products.minStock}`
@@ -120,79 +733,355 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProduct(product: InsertProduct & { userId: string }): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
+    const [newProduct] = await this.db.insert(products).values(product).returning();
     return newProduct;
   }
 
-  async updateProduct(id: string, productData: Partial<InsertProduct>): Promise<Product> {
-    const [product] = await db.update(products)
+  async updateProduct(id: string, userId: string, productData: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [product] = await this.db.update(products)
       .set({ ...productData, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .where(and(eq(products.id, id), eq(products.userId, userId)))
       .returning();
-    return product;
+    return product || undefined;
   }
 
-  async updateProductStock(id: string, quantity: number): Promise<Product> {
-    const [product] = await db.update(products)
+  async updateProductStock(id: string, userId: string, quantity: number): Promise<Product | undefined> {
+    const [product] = await this.db.update(products)
       .set({ 
         stock: sql`${products.stock} + ${quantity}`,
         updatedAt: new Date()
       })
-      .where(eq(products.id, id))
+      .where(and(eq(products.id, id), eq(products.userId, userId)))
       .returning();
-    return product;
+    return product || undefined;
   }
 
-  async deleteProduct(id: string): Promise<void> {
-    await db.delete(products).where(eq(products.id, id));
+  async deleteProduct(id: string, userId: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      try {
+        const deleted = await tx.delete(products)
+          .where(and(eq(products.id, id), eq(products.userId, userId)))
+          .returning({ id: products.id });
+        if (deleted.length === 0) return false;
+      } catch (error) {
+        if (isForeignKeyViolation(error)) {
+          throw new StorageError("Product has sales or stock history and can't be deleted");
+        }
+        throw error;
+      }
+      await tx.insert(syncTombstones).values({ userId, entityType: "product", entityId: id });
+      return true;
+    });
   }
 
   async getCustomers(userId: string): Promise<Customer[]> {
-    return await db.select().from(customers).where(eq(customers.userId, userId));
+    return await this.db.select().from(customers).where(eq(customers.userId, userId));
   }
 
-  async getCustomer(id: string): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+  async getCustomer(id: string, userId: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers)
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
     return customer || undefined;
   }
 
   async getCustomerByPhone(phone: string, userId: string): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers)
+    const [customer] = await this.db.select().from(customers)
       .where(and(eq(customers.phone, phone), eq(customers.userId, userId)));
     return customer || undefined;
   }
 
   async createCustomer(customer: InsertCustomer & { userId: string }): Promise<Customer> {
-    const [newCustomer] = await db.insert(customers).values(customer).returning();
+    const [newCustomer] = await this.db.insert(customers).values(customer).returning();
     return newCustomer;
   }
 
-  async updateCustomer(id: string, customerData: Partial<InsertCustomer>): Promise<Customer> {
-    const [customer] = await db.update(customers).set(customerData).where(eq(customers.id, id)).returning();
-    return customer;
+  async updateCustomer(id: string, userId: string, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [customer] = await this.db.update(customers)
+      .set({ ...customerData, updatedAt: new Date() })
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)))
+      .returning();
+    return customer || undefined;
+  }
+
+  async deleteCustomer(id: string, userId: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      try {
+        const deleted = await tx.delete(customers)
+          .where(and(eq(customers.id, id), eq(customers.userId, userId)))
+          .returning({ id: customers.id });
+        if (deleted.length === 0) return false;
+      } catch (error) {
+        if (isForeignKeyViolation(error)) {
+          throw new StorageError("Customer has orders or khata entries and can't be deleted");
+        }
+        throw error;
+      }
+      await tx.insert(syncTombstones).values({ userId, entityType: "customer", entityId: id });
+      return true;
+    });
+  }
+
+  async getCustomerLedger(id: string, userId: string): Promise<CustomerLedger | undefined> {
+    const customer = await this.getCustomer(id, userId);
+    if (!customer) return undefined;
+
+    const ledgerTransactions = await this.db.select().from(transactions)
+      .where(and(
+        eq(transactions.customerId, id),
+        eq(transactions.userId, userId),
+        inArray(transactions.type, LEDGER_TYPES)
+      ))
+      .orderBy(asc(transactions.createdAt));
+
+    return buildCustomerLedger(customer, ledgerTransactions);
+  }
+
+  async recordCreditPayment(id: string, userId: string, payment: CreditPayment): Promise<Transaction | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [customer] = await tx.select().from(customers)
+        .where(and(eq(customers.id, id), eq(customers.userId, userId)))
+        .for("update");
+      if (!customer) return undefined;
+
+      if (payment.amount > parseFloat(customer.outstandingAmount || "0") + 0.005) {
+        throw new StorageError("Payment exceeds the outstanding amount", 400);
+      }
+
+      const [transaction] = await tx.insert(transactions).values({
+        customerId: id,
+        userId,
+        type: "credit_payment",
+        amount: toDecimal(payment.amount, 2),
+        paymentMethod: payment.paymentMethod,
+        upiApp: payment.upiApp,
+        upiTransactionId: payment.upiTransactionId,
+        description: payment.description || `Khata payment from ${customer.name}`,
+      }).returning();
+
+      await tx.update(customers)
+        .set({ outstandingAmount: sql`COALESCE(${customers.outstandingAmount}, 0) - ${payment.amount}`, updatedAt: new Date() })
+        .where(eq(customers.id, id));
+
+      return transaction;
+    });
+  }
+
+  async getSuppliers(userId: string): Promise<Supplier[]> {
+    return await this.db.select().from(suppliers)
+      .where(eq(suppliers.userId, userId))
+      .orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string, userId: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, userId)));
+    return supplier || undefined;
+  }
+
+  async createSupplier(supplier: InsertSupplier & { userId: string }): Promise<Supplier> {
+    const [newSupplier] = await this.db.insert(suppliers).values(supplier).returning();
+    return newSupplier;
+  }
+
+  async updateSupplier(id: string, userId: string, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.update(suppliers)
+      .set({ ...supplierData, updatedAt: new Date() })
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, userId)))
+      .returning();
+    return supplier || undefined;
+  }
+
+  async getSupplierPayments(id: string, userId: string): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(and(
+        eq(transactions.supplierId, id),
+        eq(transactions.userId, userId),
+        eq(transactions.type, "purchase")
+      ))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async recordSupplierPayment(id: string, userId: string, payment: OrderPayment): Promise<Transaction | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [supplier] = await tx.select().from(suppliers)
+        .where(and(eq(suppliers.id, id), eq(suppliers.userId, userId)))
+        .for("update");
+      if (!supplier) return undefined;
+
+      if (payment.amount > parseFloat(supplier.outstandingAmount) + 0.005) {
+        throw new StorageError("Payment exceeds the amount payable", 400);
+      }
+
+      const [transaction] = await tx.insert(transactions).values({
+        supplierId: id,
+        userId,
+        type: "purchase",
+        amount: toDecimal(payment.amount, 2),
+        paymentMethod: payment.paymentMethod,
+        upiApp: payment.upiApp,
+        upiTransactionId: payment.upiTransactionId,
+        description: payment.description || `Payment to ${supplier.name}`,
+      }).returning();
+
+      await tx.update(suppliers)
+        .set({ outstandingAmount: sql`${suppliers.outstandingAmount} - ${payment.amount}`, updatedAt: new Date() })
+        .where(eq(suppliers.id, id));
+
+      return transaction;
+    });
+  }
+
+  async getPurchaseOrders(userId: string, supplierId?: string): Promise<PurchaseOrderWithItems[]> {
+    const rows = await this.db.select({ purchaseOrder: purchaseOrders, supplier: suppliers })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(
+        eq(purchaseOrders.userId, userId),
+        supplierId ? eq(purchaseOrders.supplierId, supplierId) : undefined
+      ))
+      .orderBy(desc(purchaseOrders.createdAt));
+    return await this.withPurchaseOrderItems(rows);
+  }
+
+  async getPurchaseOrder(id: string, userId: string): Promise<PurchaseOrderWithItems | undefined> {
+    const rows = await this.db.select({ purchaseOrder: purchaseOrders, supplier: suppliers })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.userId, userId)));
+    const [purchaseOrder] = await this.withPurchaseOrderItems(rows);
+    return purchaseOrder;
+  }
+
+  async createPurchaseOrder(userId: string, data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    const id = await this.db.transaction(async (tx) => {
+      const [supplier] = await tx.select({ id: suppliers.id }).from(suppliers)
+        .where(and(eq(suppliers.id, data.supplierId), eq(suppliers.userId, userId)));
+      if (!supplier) {
+        throw new StorageError("Supplier not found", 404);
+      }
+
+      const productIds = Array.from(new Set(data.items.map((item) => item.productId)));
+      const found = await tx.select({ id: products.id }).from(products)
+        .where(and(eq(products.userId, userId), inArray(products.id, productIds)));
+      if (found.length !== productIds.length) {
+        throw new StorageError("Product not found", 404);
+      }
+
+      const { lines, totalAmount } = costPurchaseLines(data.items);
+      const poNumber = await this.allocatePurchaseOrderNumber(tx, userId);
+      const [purchaseOrder] = await tx.insert(purchaseOrders).values({
+        poNumber,
+        supplierId: data.supplierId,
+        userId,
+        totalAmount,
+        expectedDate: data.expectedDate,
+        notes: data.notes,
+      }).returning();
+      await tx.insert(purchaseOrderItems).values(lines.map((line) => ({ ...line, purchaseOrderId: purchaseOrder.id })));
+      return purchaseOrder.id;
+    });
+    return (await this.getPurchaseOrder(id, userId))!;
+  }
+
+  // Goods received go into stock and onto what is owed to the supplier
+  async receivePurchaseOrder(id: string, userId: string, delivery: ReceivePurchase): Promise<PurchaseOrderWithItems | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx.select().from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.userId, userId)))
+        .for("update");
+      if (!purchaseOrder) return false;
+
+      const items = await tx.select().from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const { lines, amount, status } = planPurchaseReceipt(purchaseOrder, items, delivery);
+
+      for (const { item, quantity } of lines) {
+        await tx.update(purchaseOrderItems)
+          .set({ receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${quantity}` })
+          .where(eq(purchaseOrderItems.id, item.id));
+
+        await tx.update(products)
+          .set({ stock: sql`${products.stock} + ${quantity}`, updatedAt: new Date() })
+          .where(and(eq(products.id, item.productId), eq(products.userId, userId)));
+
+        await tx.insert(stockMovements).values({
+          productId: item.productId,
+          userId,
+          type: "in",
+          quantity: toDecimal(quantity, 3),
+          reason: "purchase",
+          purchaseOrderId: id,
+          notes: `Received against ${purchaseOrder.poNumber}`,
+        });
+      }
+
+      await tx.update(purchaseOrders)
+        .set({ status, receivedAmount: sql`${purchaseOrders.receivedAmount} + ${amount}`, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+
+      await tx.update(suppliers)
+        .set({ outstandingAmount: sql`${suppliers.outstandingAmount} + ${amount}`, updatedAt: new Date() })
+        .where(eq(suppliers.id, purchaseOrder.supplierId));
+
+      return true;
+    });
+    return found ? await this.getPurchaseOrder(id, userId) : undefined;
+  }
+
+  private async withPurchaseOrderItems(
+    rows: { purchaseOrder: PurchaseOrder; supplier: Supplier }[],
+  ): Promise<PurchaseOrderWithItems[]> {
+    if (rows.length === 0) return [];
+    const items = await this.db.select({ ...getTableColumns(purchaseOrderItems), product: products })
+      .from(purchaseOrderItems)
+      .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(inArray(purchaseOrderItems.purchaseOrderId, rows.map(({ purchaseOrder }) => purchaseOrder.id)));
+
+    return rows.map(({ purchaseOrder, supplier }) => ({
+      ...purchaseOrder,
+      supplier,
+      items: items.filter((item) => item.purchaseOrderId === purchaseOrder.id),
+    }));
   }
 
-  async deleteCustomer(id: string): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+  // PO/26-27/0001; numbering restarts each financial year. Locking the shop's
+  // row keeps two orders created together from taking the same number.
+  private async allocatePurchaseOrderNumber(tx: DbTransaction, userId: string, date: Date = new Date()): Promise<string> {
+    const financialYear = getFinancialYear(date);
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+    const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+      .from(purchaseOrders)
+      .where(and(
+        eq(purchaseOrders.userId, userId),
+        like(purchaseOrders.poNumber, `PO/${financialYear.slice(2)}/%`)
+      ));
+    return formatOrderNumber("PO", financialYear, count + 1);
   }
 
   async getOrders(userId: string, limit: number = 50): Promise<Order[]> {
-    return await db.select().from(orders)
+    return await this.db.select().from(orders)
       .where(eq(orders.userId, userId))
       .orderBy(desc(orders.createdAt))
       .limit(limit);
   }
 
-  async getOrder(id: string): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+  async getOrder(id: string, userId: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders)
+      .where(and(eq(orders.id, id), eq(orders.userId, userId)));
+    return order || undefined;
+  }
+
+  async getOrderByClientId(clientId: string, userId: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders)
+      .where(and(eq(orders.clientId, clientId), eq(orders.userId, userId)));
     return order || undefined;
   }
 
-  async getOrderWithItems(id: string): Promise<{ order: Order; items: (OrderItem & { product: Product })[] } | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+  async getOrderWithItems(id: string, userId: string): Promise<{ order: Order; items: (OrderItem & { product: Product })[] } | undefined> {
+    const order = await this.getOrder(id, userId);
     if (!order) return undefined;
 
-    const items = await db.select({
+    const items = await this.db.select({
       id: orderItems.id,
       orderId: orderItems.orderId,
       productId: orderItems.productId,
@@ -200,6 +1089,9 @@ export class DatabaseStorage implements IStorage {
       unitPrice: orderItems.unitPrice,
       totalPrice: orderItems.totalPrice,
       gstRate: orderItems.gstRate,
+      hsnCode: orderItems.hsnCode,
+      taxableAmount: orderItems.taxableAmount,
+      taxAmount: orderItems.taxAmount,
       product: products,
     })
     .from(orderItems)
@@ -209,17 +1101,64 @@ export class DatabaseStorage implements IStorage {
     return { order, items };
   }
 
-  async createOrder(order: InsertOrder & { userId: string }, items: InsertOrderItem[]): Promise<Order> {
-    return await db.transaction(async (tx) => {
-      const [newOrder] = await tx.insert(orders).values(order).returning();
+  async createOrder(
+    order: InsertOrder & { userId: string; clientId?: string; createdAt?: Date },
+    items: Omit<InsertOrderItem, "orderId">[],
+    requestedTenders?: OrderTender[],
+    offlineStockPolicy?: OfflineStockPolicy,
+  ): Promise<Order> {
+    return await this.db.transaction(async (tx) => {
+      const { tenders, creditAmount, ...payment } = planOrderPayment(order, requestedTenders);
+      if (creditAmount > 0) {
+        // Lock the customer so concurrent credit sales can't both pass the limit
+        const [customer] = await tx.select().from(customers)
+          .where(and(eq(customers.id, order.customerId!), eq(customers.userId, order.userId)))
+          .for("update");
+        if (!customer) {
+          throw new StorageError("Customer not found", 404);
+        }
+        assertWithinCreditLimit(customer, creditAmount);
+      }
+
+      // Lock the products being sold, in a fixed order so concurrent sales
+      // of the same products can't deadlock
+      const productIds = Array.from(new Set(items.map((item) => item.productId))).sort();
+      const orderProducts = productIds.length === 0 ? [] : await tx.select({ id: products.id, stock: products.stock })
+        .from(products)
+        .where(and(inArray(products.id, productIds), eq(products.userId, order.userId)))
+        .orderBy(asc(products.id))
+        .for("update");
+      if (orderProducts.length !== productIds.length) {
+        throw new StorageError("Product not found", 404);
+      }
+
+      const stockById = new Map(orderProducts.map((product) => [product.id, product.stock]));
+      const shortfalls = offlineStockPolicy && order.clientId
+        ? findStockShortfalls(order.clientId, items, (productId) => stockById.get(productId))
+        : [];
+      if (shortfalls.length > 0 && offlineStockPolicy === "hold") {
+        throw new StockShortfallError(shortfalls);
+      }
+
+      const orderNumber = await this.allocateOrderNumber(tx, order.userId, order.createdAt);
+      let newOrder: Order;
+      try {
+        [newOrder] = await tx.insert(orders).values({ ...order, ...payment, orderNumber }).returning();
+      } catch (error) {
+        // Another request created the order for this sale first
+        if (isUniqueViolation(error, "orders_user_id_client_id_unique")) {
+          throw new StorageError("This sale is already recorded");
+        }
+        throw error;
+      }
       
       for (const item of items) {
         await tx.insert(orderItems).values({ ...item, orderId: newOrder.id });
         
         // Update product stock
         await tx.update(products)
-          .set({ stock: sql`${products.stock} - ${item.quantity}` })
-          .where(eq(products.id, item.productId));
+          .set({ stock: sql`${products.stock} - ${item.quantity}`, updatedAt: new Date() })
+          .where(and(eq(products.id, item.productId), eq(products.userId, order.userId)));
 
         // Create stock movement
         await tx.insert(stockMovements).values({
@@ -232,63 +1171,602 @@ export class DatabaseStorage implements IStorage {
         });
       }
 
+      for (const tender of tenders) {
+        await tx.insert(transactions).values(getTenderTransaction(newOrder, tender));
+      }
+
+      if (creditAmount > 0) {
+        await tx.update(customers)
+          .set({ outstandingAmount: sql`COALESCE(${customers.outstandingAmount}, 0) + ${creditAmount}`, updatedAt: new Date() })
+          .where(eq(customers.id, newOrder.customerId!));
+      }
+
+      if (shortfalls.length > 0) {
+        await tx.insert(stockConflicts)
+          .values(shortfalls.map((shortfall) => ({ ...shortfall, userId: order.userId, orderId: newOrder.id })));
+      }
+
       return newOrder;
     });
   }
 
-  async updateOrder(id: string, orderData: Partial<InsertOrder>): Promise<Order> {
-    const [order] = await db.update(orders)
+  async updateOrder(id: string, userId: string, orderData: UpdateOrder): Promise<Order | undefined> {
+    const [order] = await this.db.update(orders)
       .set({ ...orderData, updatedAt: new Date() })
-      .where(eq(orders.id, id))
+      .where(and(eq(orders.id, id), eq(orders.userId, userId)))
       .returning();
-    return order;
-  }
-
-  async deleteOrder(id: string): Promise<void> {
-    await db.delete(orders).where(eq(orders.id, id));
+    return order || undefined;
   }
 
-  async getTransactions(userId: string, limit: number = 50): Promise<Transaction[]> {
-    return await db.select().from(transactions)
-      .where(eq(transactions.userId, userId))
-      .orderBy(desc(transactions.createdAt))
-      .limit(limit);
+  async deleteOrder(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db.delete(orders)
+      .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+      .returning({ id: orders.id });
+    return deleted.length > 0;
   }
 
-  async createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction> {
-    const [newTransaction] = await db.insert(transactions).values(transaction).returning();
-    return newTransaction;
-  }
+  async cancelOrder(id: string, userId: string, reason?: string): Promise<Order | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the order row so two concurrent cancels can't both restock
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) return undefined;
+      assertCancellable(order);
 
-  async getDailySales(userId: string, date: Date): Promise<{ total: number; upiTotal: number; count: number }> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+      // Lines already handled by a sales return were restocked/refunded then
+      const returnedByItem = await this.getReturnedQuantities(tx, id);
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+      for (const item of items) {
+        const remaining = parseFloat(item.quantity) - (returnedByItem.get(item.id) || 0);
+        if (remaining <= 0) continue;
 
-    const results = await db.select({
-      total: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'sale' THEN ${transactions.amount} ELSE 0 END), 0)`,
-      upiTotal: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'sale' AND ${transactions.paymentMethod} = 'upi' THEN ${transactions.amount} ELSE 0 END), 0)`,
-      count: sql<number>`COUNT(CASE WHEN ${transactions.type} = 'sale' THEN 1 ELSE NULL END)`,
-    })
-    .from(transactions)
-    .where(and(
-      eq(transactions.userId, userId),
-      sql`${transactions.createdAt} >= ${startOfDay}`,
-      sql`${transactions.createdAt} <= ${endOfDay}`
-    ));
+        await tx.update(products)
+          .set({ stock: sql`${products.stock} + ${remaining}`, updatedAt: new Date() })
+          .where(and(eq(products.id, item.productId), eq(products.userId, userId)));
 
-    return results[0] || { total: 0, upiTotal: 0, count: 0 };
+        await tx.insert(stockMovements).values({
+          productId: item.productId,
+          userId,
+          type: "in",
+          quantity: toDecimal(remaining, 3),
+          reason: "return",
+          orderId: id,
+          notes: reason || "Order cancelled",
+        });
+      }
+
+      const { refundableCash, creditOwed } = getOrderBalances(order, await this.getOrderSettlements(tx, id));
+      const orderTransactions = await tx.select().from(transactions).where(eq(transactions.orderId, id));
+      for (const refund of allocateRefund(order, orderTransactions, refundableCash)) {
+        await tx.insert(transactions).values({
+          orderId: id,
+          customerId: order.customerId,
+          userId,
+          type: "refund",
+          amount: toDecimal(refund.amount, 2),
+          paymentMethod: refund.paymentMethod,
+          upiApp: refund.upiApp,
+          description: `Refund for cancelled order ${order.orderNumber}`,
+        });
+      }
+
+      // Whatever is still owed on the khata for this order is written off
+      if (creditOwed > 0 && order.customerId) {
+        await tx.insert(transactions).values({
+          orderId: id,
+          customerId: order.customerId,
+          userId,
+          type: "credit_note",
+          amount: toDecimal(creditOwed, 2),
+          paymentMethod: "credit",
+          description: `Credit reversed for cancelled order ${order.orderNumber}`,
+        });
+        await tx.update(customers)
+          .set({ outstandingAmount: sql`COALESCE(${customers.outstandingAmount}, 0) - ${creditOwed}`, updatedAt: new Date() })
+          .where(and(eq(customers.id, order.customerId), eq(customers.userId, userId)));
+      }
+
+      const [cancelledOrder] = await tx.update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      return cancelledOrder;
+    });
+  }
+
+  async assignUpiReference(id: string, userId: string, expiresAt: Date): Promise<Order | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) return undefined;
+      assertAcceptsUpiPayment(order);
+      if (order.paymentStatus === "paid") {
+        throw new StorageError(`Order ${order.orderNumber} is already paid`);
+      }
+
+      try {
+        const [updated] = await tx.update(orders)
+          .set({ upiReference: reuseUpiReference(order), upiReferenceExpiresAt: expiresAt, updatedAt: new Date() })
+          .where(eq(orders.id, id))
+          .returning();
+        return updated;
+      } catch (error) {
+        if (isUniqueViolation(error, "orders_user_id_upi_reference_unique")) {
+          throw new StorageError("That payment reference is already in use, please try again");
+        }
+        throw error;
+      }
+    });
+  }
+
+  async recordUpiPayment(id: string, userId: string, payment: UpiPayment): Promise<Transaction | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) return undefined;
+
+      const transaction = await this.applyUpiPayment(tx, order, payment);
+
+      // A credit imported before the payment was marked is matched to it now
+      if (payment.utr) {
+        await tx.update(upiStatementEntries)
+          .set({ status: "matched", orderId: id, transactionId: transaction.id, matchedAt: new Date() })
+          .where(and(
+            eq(upiStatementEntries.userId, userId),
+            eq(upiStatementEntries.utr, payment.utr),
+            eq(upiStatementEntries.status, "unmatched")
+          ));
+      }
+      return transaction;
+    });
+  }
+
+  async recordOrderPayment(id: string, userId: string, payment: OrderPayment): Promise<{ order: Order; transactions: Transaction[] } | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the order so two collections can't both pay the same balance
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) return undefined;
+
+      const plan = planOrderCollection(order, await this.getOrderSettlements(tx, id), payment.amount);
+      const collected: Transaction[] = [];
+      for (const transaction of getCollectionTransactions(order, payment, plan)) {
+        const [recorded] = await tx.insert(transactions).values(transaction).returning();
+        collected.push(recorded);
+      }
+
+      if (plan.khataAmount > 0 && order.customerId) {
+        await tx.update(customers)
+          .set({ outstandingAmount: sql`COALESCE(${customers.outstandingAmount}, 0) - ${plan.khataAmount}`, updatedAt: new Date() })
+          .where(and(eq(customers.id, order.customerId), eq(customers.userId, userId)));
+      }
+
+      const [updated] = await tx.update(orders)
+        .set({ paidAmount: plan.paidAmount, paymentStatus: plan.paymentStatus, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      return { order: updated, transactions: collected };
+    });
+  }
+
+  // Callers lock the order row first, so two payments can't both settle the
+  // same balance
+  private async applyUpiPayment(tx: DbTransaction, order: Order, payment: UpiPayment): Promise<Transaction> {
+    const orderTransactions = await tx.select().from(transactions).where(eq(transactions.orderId, order.id));
+    const settlement = planUpiSettlement(order, orderTransactions, payment);
+
+    if (payment.utr) {
+      const [recorded] = await tx.select().from(transactions)
+        .where(and(eq(transactions.userId, order.userId), eq(transactions.upiTransactionId, payment.utr)));
+      if (recorded && recorded.orderId !== order.id) {
+        throw new StorageError(`UTR ${payment.utr} is already recorded against another payment`);
+      }
+    }
+
+    // The check above can race another request marking the same UTR; the
+    // unique index settles it
+    try {
+      if ("confirms" in settlement) {
+        const [confirmed] = await tx.update(transactions)
+          .set({ upiTransactionId: payment.utr })
+          .where(eq(transactions.id, settlement.confirms.id))
+          .returning();
+        return confirmed;
+      }
+
+      const [transaction] = await tx.insert(transactions).values({
+        orderId: order.id,
+        customerId: order.customerId,
+        userId: order.userId,
+        type: "sale",
+        amount: settlement.amount,
+        paymentMethod: "upi",
+        upiTransactionId: payment.utr,
+        description: `UPI payment for order ${order.orderNumber}`,
+      }).returning();
+      await tx.update(orders)
+        .set({ paidAmount: settlement.paidAmount, paymentStatus: settlement.paymentStatus, updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+      return transaction;
+    } catch (error) {
+      if (isUniqueViolation(error, "transactions_user_id_upi_transaction_id_unique")) {
+        throw new StorageError(`UTR ${payment.utr} is already recorded against another payment`);
+      }
+      throw error;
+    }
+  }
+
+  private async getReturnedQuantities(tx: DbTransaction, orderId: string): Promise<Map<string, number>> {
+    const rows = await tx.select({
+      orderItemId: salesReturnItems.orderItemId,
+      quantity: sql<string>`SUM(${salesReturnItems.quantity})`,
+    })
+    .from(salesReturnItems)
+    .innerJoin(salesReturns, eq(salesReturnItems.returnId, salesReturns.id))
+    .where(eq(salesReturns.orderId, orderId))
+    .groupBy(salesReturnItems.orderItemId);
+
+    return new Map(rows.map((row) => [row.orderItemId, parseFloat(row.quantity)]));
+  }
+
+  // The counter row stays locked until the order's transaction commits, so
+  // concurrent sales queue up and a rolled-back order gives its number back
+  private async allocateOrderNumber(tx: DbTransaction, userId: string, date: Date = new Date()): Promise<string> {
+    const financialYear = getFinancialYear(date);
+    const [counter] = await tx.insert(invoiceCounters)
+      .values({ userId, financialYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [invoiceCounters.userId, invoiceCounters.financialYear],
+        set: { lastNumber: sql`${invoiceCounters.lastNumber} + 1` },
+      })
+      .returning({ lastNumber: invoiceCounters.lastNumber });
+    const [shop] = await tx.select({ invoicePrefix: users.invoicePrefix }).from(users).where(eq(users.id, userId));
+
+    return formatOrderNumber(shop?.invoicePrefix || "INV", financialYear, counter.lastNumber);
+  }
+
+  private async getOrderSettlements(tx: DbTransaction, orderId: string): Promise<OrderSettlements> {
+    const [row] = await tx.select({
+      creditSales: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'credit_sale' THEN ${transactions.amount} ELSE 0 END), 0)`,
+      refunds: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'refund' THEN ${transactions.amount} ELSE 0 END), 0)`,
+      creditNotes: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'credit_note' THEN ${transactions.amount} ELSE 0 END), 0)`,
+    })
+    .from(transactions)
+    .where(eq(transactions.orderId, orderId));
+
+    return {
+      creditSales: parseFloat(row?.creditSales || "0"),
+      refunds: parseFloat(row?.refunds || "0"),
+      creditNotes: parseFloat(row?.creditNotes || "0"),
+    };
+  }
+
+  async getSalesReturns(orderId: string, userId: string): Promise<SalesReturnWithItems[]> {
+    const returns = await this.db.select().from(salesReturns)
+      .where(and(eq(salesReturns.orderId, orderId), eq(salesReturns.userId, userId)))
+      .orderBy(asc(salesReturns.createdAt));
+    if (returns.length === 0) return [];
+
+    const items = await this.db.select({
+      ...getTableColumns(salesReturnItems),
+      product: products,
+    })
+    .from(salesReturnItems)
+    .innerJoin(products, eq(salesReturnItems.productId, products.id))
+    .where(inArray(salesReturnItems.returnId, returns.map((salesReturn) => salesReturn.id)));
+
+    return returns.map((salesReturn) => ({
+      ...salesReturn,
+      items: items.filter((item) => item.returnId === salesReturn.id),
+    }));
+  }
+
+  async createSalesReturn(orderId: string, userId: string, data: CreateSalesReturn): Promise<SalesReturn | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the order so concurrent returns can't both pass the quantity cap
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) return undefined;
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const { lines, amount } = planSalesReturn(
+        order,
+        items,
+        await this.getReturnedQuantities(tx, orderId),
+        await this.getOrderSettlements(tx, orderId),
+        data,
+      );
+
+      const paymentMethod = data.settlement === "refund"
+        ? data.paymentMethod
+          || getRefundMethod(order, await tx.select().from(transactions).where(eq(transactions.orderId, orderId)))
+        : null;
+      const [salesReturn] = await tx.insert(salesReturns).values({
+        orderId,
+        customerId: order.customerId,
+        userId,
+        settlement: data.settlement,
+        paymentMethod,
+        amount: toDecimal(amount, 2),
+        reason: data.reason,
+      }).returning();
+
+      for (const line of lines) {
+        await tx.insert(salesReturnItems).values({
+          returnId: salesReturn.id,
+          orderItemId: line.item.id,
+          productId: line.item.productId,
+          quantity: toDecimal(line.quantity, 3),
+          amount: toDecimal(line.amount, 2),
+          condition: line.condition,
+        });
+
+        // Damaged goods are recorded but don't go back into sellable stock
+        if (line.condition === "restock") {
+          await tx.update(products)
+            .set({ stock: sql`${products.stock} + ${line.quantity}`, updatedAt: new Date() })
+            .where(and(eq(products.id, line.item.productId), eq(products.userId, userId)));
+        }
+
+        await tx.insert(stockMovements).values({
+          productId: line.item.productId,
+          userId,
+          type: line.condition === "restock" ? "in" : "adjustment",
+          quantity: toDecimal(line.quantity, 3),
+          reason: line.condition === "restock" ? "return" : "damage",
+          orderId,
+          notes: data.reason || `Returned from order ${order.orderNumber}`,
+        });
+      }
+
+      await tx.insert(transactions).values({
+        orderId,
+        customerId: order.customerId,
+        userId,
+        type: data.settlement,
+        amount: toDecimal(amount, 2),
+        paymentMethod: paymentMethod || "credit",
+        description: data.settlement === "refund"
+          ? `Refund for return on order ${order.orderNumber}`
+          : `Credit note for return on order ${order.orderNumber}`,
+      });
+
+      // A credit note is owed to the customer, so it reduces their balance
+      if (data.settlement === "credit_note" && order.customerId) {
+        await tx.update(customers)
+          .set({ outstandingAmount: sql`COALESCE(${customers.outstandingAmount}, 0) - ${amount}`, updatedAt: new Date() })
+          .where(and(eq(customers.id, order.customerId), eq(customers.userId, userId)));
+      }
+
+      return salesReturn;
+    });
+  }
+
+  async getTransactions(userId: string, limit: number = 50): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit);
+  }
+
+  async getTransactionByUtr(utr: string, userId: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions)
+      .where(and(eq(transactions.upiTransactionId, utr), eq(transactions.userId, userId)));
+    return transaction || undefined;
+  }
+
+  async getOrderPayments(orderId: string, userId: string): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(and(
+        eq(transactions.orderId, orderId),
+        eq(transactions.userId, userId),
+        inArray(transactions.type, ORDER_PAYMENT_TYPES)
+      ))
+      .orderBy(asc(transactions.createdAt));
+  }
+
+  async createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction> {
+    const [newTransaction] = await this.db.insert(transactions).values(transaction).returning();
+    return newTransaction;
+  }
+
+  async getDailySales(userId: string, date: Date): Promise<{ total: number; upiTotal: number; count: number }> {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const results = await this.db.select({
+      total: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} IN ('sale', 'credit_sale') THEN ${transactions.amount} WHEN ${transactions.type} IN ('refund', 'credit_note') THEN -${transactions.amount} ELSE 0 END), 0)`,
+      upiTotal: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} IN ('sale', 'credit_payment') AND ${transactions.paymentMethod} = 'upi' THEN ${transactions.amount} WHEN ${transactions.type} = 'refund' AND ${transactions.paymentMethod} = 'upi' THEN -${transactions.amount} ELSE 0 END), 0)`,
+      // A part-paid credit order has both a sale and a credit_sale row
+      count: sql<number>`COUNT(DISTINCT CASE WHEN ${transactions.type} IN ('sale', 'credit_sale') THEN COALESCE(${transactions.orderId}, ${transactions.id}) ELSE NULL END)`,
+    })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      sql`${transactions.createdAt} >= ${startOfDay}`,
+      sql`${transactions.createdAt} <= ${endOfDay}`
+    ));
+
+    return results[0] || { total: 0, upiTotal: 0, count: 0 };
+  }
+
+  async getUpiStatementEntries(userId: string, status?: string): Promise<UpiStatementEntry[]> {
+    return await this.db.select().from(upiStatementEntries)
+      .where(and(
+        eq(upiStatementEntries.userId, userId),
+        status ? eq(upiStatementEntries.status, status) : undefined
+      ))
+      .orderBy(desc(upiStatementEntries.receivedAt));
+  }
+
+  // UTRs that were imported before are skipped, so a statement can be
+  // imported again (or overlap the previous one) without duplicating credits
+  async createUpiStatementEntries(userId: string, entries: InsertUpiStatementEntry[]): Promise<UpiStatementEntry[]> {
+    if (entries.length === 0) return [];
+    return await this.db.insert(upiStatementEntries)
+      .values(entries.map((entry) => ({ ...entry, userId })))
+      .onConflictDoNothing({ target: [upiStatementEntries.userId, upiStatementEntries.utr] })
+      .returning();
+  }
+
+  async getUnreconciledUpiOrders(userId: string): Promise<UnreconciledUpiOrder[]> {
+    const unverifiedSales = await this.db.select().from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.type, "sale"),
+        eq(transactions.paymentMethod, "upi"),
+        isNull(transactions.upiTransactionId)
+      ));
+    const openOrders = await this.db.select().from(orders)
+      .where(and(
+        eq(orders.userId, userId),
+        ne(orders.status, "cancelled"),
+        or(
+          and(
+            or(eq(orders.paymentMethod, "upi"), isNotNull(orders.upiReference)),
+            ne(orders.paymentStatus, "paid")
+          ),
+          inArray(orders.id, unverifiedSales.flatMap((transaction) => transaction.orderId ?? []))
+        )
+      ))
+      .orderBy(desc(orders.createdAt));
+
+    return openOrders.map((order) => summariseUnreconciledOrder(
+      order,
+      unverifiedSales.filter((transaction) => transaction.orderId === order.id),
+    ));
+  }
+
+  async matchUpiStatementEntry(id: string, userId: string, orderId: string): Promise<UpiStatementEntry | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(upiStatementEntries)
+        .where(and(eq(upiStatementEntries.id, id), eq(upiStatementEntries.userId, userId)))
+        .for("update");
+      if (!entry) return undefined;
+      if (entry.status !== "unmatched") {
+        throw new StorageError(`Statement entry is already ${entry.status}`);
+      }
+
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
+        .for("update");
+      if (!order) {
+        throw new StorageError("Order not found", 404);
+      }
+
+      const transaction = await this.applyUpiPayment(tx, order, { utr: entry.utr, amount: parseFloat(entry.amount) });
+      const [matched] = await tx.update(upiStatementEntries)
+        .set({ status: "matched", orderId, transactionId: transaction.id, matchedAt: new Date() })
+        .where(eq(upiStatementEntries.id, id))
+        .returning();
+      return matched;
+    });
+  }
+
+  // Credits that aren't sales (e.g. transfers from the owner) are set aside
+  // so they stop showing up for manual matching
+  async ignoreUpiStatementEntry(id: string, userId: string): Promise<UpiStatementEntry | undefined> {
+    const [entry] = await this.db.update(upiStatementEntries)
+      .set({ status: "ignored" })
+      .where(and(
+        eq(upiStatementEntries.id, id),
+        eq(upiStatementEntries.userId, userId),
+        eq(upiStatementEntries.status, "unmatched")
+      ))
+      .returning();
+    if (entry) return entry;
+
+    const [existing] = await this.db.select().from(upiStatementEntries)
+      .where(and(eq(upiStatementEntries.id, id), eq(upiStatementEntries.userId, userId)));
+    if (existing) {
+      throw new StorageError(`Statement entry is already ${existing.status}`);
+    }
+    return undefined;
+  }
+
+  async getStockConflicts(userId: string, status?: string): Promise<StockConflictWithProduct[]> {
+    return await this.db.select({
+      ...getTableColumns(stockConflicts),
+      product: products,
+    })
+    .from(stockConflicts)
+    .innerJoin(products, eq(stockConflicts.productId, products.id))
+    .where(and(
+      eq(stockConflicts.userId, userId),
+      status ? eq(stockConflicts.status, status) : undefined
+    ))
+    .orderBy(desc(stockConflicts.createdAt));
+  }
+
+  async getStockConflict(id: string, userId: string): Promise<StockConflict | undefined> {
+    const [conflict] = await this.db.select().from(stockConflicts)
+      .where(and(eq(stockConflicts.id, id), eq(stockConflicts.userId, userId)));
+    return conflict || undefined;
+  }
+
+  async getStockConflictsForSale(clientId: string, userId: string): Promise<StockConflict[]> {
+    return await this.db.select().from(stockConflicts)
+      .where(and(eq(stockConflicts.clientId, clientId), eq(stockConflicts.userId, userId)));
+  }
+
+  async createStockConflicts(userId: string, conflicts: InsertStockConflict[]): Promise<StockConflict[]> {
+    if (conflicts.length === 0) return [];
+    return await this.db.insert(stockConflicts)
+      .values(conflicts.map((conflict) => ({ ...conflict, userId })))
+      .returning();
+  }
+
+  // Settles every open conflict of one sale; rows another request resolved
+  // first are left alone, so an empty result means there was nothing to do
+  async resolveStockConflicts(
+    clientId: string,
+    userId: string,
+    resolution: "accepted" | "rejected",
+    orderId?: string,
+  ): Promise<StockConflict[]> {
+    return await this.db.update(stockConflicts)
+      .set({ status: "resolved", resolution, resolvedAt: new Date(), ...(orderId ? { orderId } : {}) })
+      .where(and(
+        eq(stockConflicts.clientId, clientId),
+        eq(stockConflicts.userId, userId),
+        eq(stockConflicts.status, "open")
+      ))
+      .returning();
+  }
+
+  // Records created or updated at or after `since`, plus tombstones for
+  // deletions; without `since`, everything and no tombstones
+  async getCatalogChanges(userId: string, since?: Date): Promise<CatalogChanges> {
+    const [changedProducts, changedCategories, changedCustomers, tombstones] = await Promise.all([
+      this.db.select().from(products)
+        .where(and(eq(products.userId, userId), since ? gte(products.updatedAt, since) : undefined)),
+      this.db.select().from(categories)
+        .where(and(eq(categories.userId, userId), since ? gte(categories.updatedAt, since) : undefined)),
+      this.db.select().from(customers)
+        .where(and(eq(customers.userId, userId), since ? gte(customers.updatedAt, since) : undefined)),
+      since
+        ? this.db.select().from(syncTombstones)
+          .where(and(eq(syncTombstones.userId, userId), gte(syncTombstones.deletedAt, since)))
+        : Promise.resolve([]),
+    ]);
+    return catalogChanges(changedProducts, changedCategories, changedCustomers, tombstones);
   }
 
   async createStockMovement(movement: InsertStockMovement & { userId: string }): Promise<StockMovement> {
-    const [newMovement] = await db.insert(stockMovements).values(movement).returning();
+    const [newMovement] = await this.db.insert(stockMovements).values(movement).returning();
     return newMovement;
   }
 
-  async getStockMovements(productId: string): Promise<StockMovement[]> {
-    return await db.select().from(stockMovements)
-      .where(eq(stockMovements.productId, productId))
+  async getStockMovements(productId: string, userId: string): Promise<StockMovement[]> {
+    return await this.db.select().from(stockMovements)
+      .where(and(eq(stockMovements.productId, productId), eq(stockMovements.userId, userId)))
       .orderBy(desc(stockMovements.createdAt));
   }
 
@@ -312,4 +1790,1157 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private categories = new Map<string, Category>();
+  private products = new Map<string, Product>();
+  private customers = new Map<string, Customer>();
+  private orders = new Map<string, Order>();
+  private orderItems = new Map<string, OrderItem>();
+  private transactions = new Map<string, Transaction>();
+  private stockMovements = new Map<string, StockMovement>();
+  private salesReturns = new Map<string, SalesReturn>();
+  private salesReturnItems = new Map<string, SalesReturnItem>();
+  private invoiceCounters = new Map<string, number>();
+  private upiStatementEntries = new Map<string, UpiStatementEntry>();
+  private stockConflicts = new Map<string, StockConflict>();
+  private syncTombstones = new Map<string, SyncTombstone>();
+  private suppliers = new Map<string, Supplier>();
+  private purchaseOrders = new Map<string, PurchaseOrder>();
+  private purchaseOrderItems = new Map<string, PurchaseOrderItem>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username ${insertUser.username} already exists`);
+    }
+    const user: User = {
+      id: randomUUID(),
+      shopNameHindi: null,
+      upiId: null,
+      address: null,
+      gstNumber: null,
+      state: null,
+      invoicePrefix: "INV",
+      offlineStockPolicy: "allow_negative",
+      language: "en",
+      createdAt: new Date(),
+      ...definedOnly(insertUser),
+    } as User;
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUser(id: string, userData: Partial<InsertUser>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error(`User ${id} not found`);
+    }
+    const user = { ...existing, ...definedOnly(userData) };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getCategories(userId: string): Promise<Category[]> {
+    return Array.from(this.categories.values()).filter((category) => category.userId === userId);
+  }
+
+  async createCategory(category: InsertCategory & { userId: string }): Promise<Category> {
+    const now = new Date();
+    const newCategory: Category = {
+      id: randomUUID(),
+      nameHindi: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedOnly(category),
+    } as Category;
+    this.categories.set(newCategory.id, newCategory);
+    return newCategory;
+  }
+
+  async updateCategory(id: string, userId: string, categoryData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existing = this.categories.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const category = { ...existing, ...definedOnly(categoryData), updatedAt: new Date() };
+    this.categories.set(id, category);
+    return category;
+  }
+
+  async deleteCategory(id: string, userId: string): Promise<boolean> {
+    const existing = this.categories.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    // Rows still pointing at it would break a foreign key in Postgres
+    if (Array.from(this.products.values()).some((product) => product.categoryId === id)) {
+      throw new StorageError("Category still has products");
+    }
+    this.recordDeletion(userId, "category", id);
+    return this.categories.delete(id);
+  }
+
+  async getProducts(userId: string): Promise<Product[]> {
+    return Array.from(this.products.values()).filter((product) => product.userId === userId);
+  }
+
+  async getProduct(id: string, userId: string): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product && product.userId === userId ? product : undefined;
+  }
+
+  async getLowStockProducts(userId: string): Promise<Product[]> {
+    return (await this.getProducts(userId)).filter((product) =>
+      product.minStock !== null && parseFloat(product.stock) <= parseFloat(product.minStock)
+    );
+  }
+
+  async createProduct(product: InsertProduct & { userId: string }): Promise<Product> {
+    const now = new Date();
+    const newProduct: Product = {
+      id: randomUUID(),
+      nameHindi: null,
+      categoryId: null,
+      stock: "0",
+      unit: "pcs",
+      minStock: "0",
+      barcode: null,
+      hsnCode: null,
+      gstRate: "0",
+      priceIncludesTax: false,
+      isPackaged: true,
+      description: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedOnly(product),
+    } as Product;
+    this.products.set(newProduct.id, newProduct);
+    return newProduct;
+  }
+
+  async updateProduct(id: string, userId: string, productData: Partial<InsertProduct>): Promise<Product | undefined> {
+    const existing = await this.getProduct(id, userId);
+    if (!existing) return undefined;
+    const product = { ...existing, ...definedOnly(productData), updatedAt: new Date() };
+    this.products.set(id, product);
+    return product;
+  }
+
+  async updateProductStock(id: string, userId: string, quantity: number): Promise<Product | undefined> {
+    const existing = await this.getProduct(id, userId);
+    if (!existing) return undefined;
+    const product = {
+      ...existing,
+      stock: toDecimal(parseFloat(existing.stock) + Number(quantity), 3),
+      updatedAt: new Date(),
+    };
+    this.products.set(id, product);
+    return product;
+  }
+
+  async deleteProduct(id: string, userId: string): Promise<boolean> {
+    if (!(await this.getProduct(id, userId))) return false;
+    const referencing: Map<string, { productId: string }>[] =
+      [this.orderItems, this.stockMovements, this.salesReturnItems, this.stockConflicts, this.purchaseOrderItems];
+    const referenced = referencing.some((rows) => Array.from(rows.values()).some((row) => row.productId === id));
+    if (referenced) {
+      throw new StorageError("Product has sales or stock history and can't be deleted");
+    }
+    this.recordDeletion(userId, "product", id);
+    return this.products.delete(id);
+  }
+
+  async getCustomers(userId: string): Promise<Customer[]> {
+    return Array.from(this.customers.values()).filter((customer) => customer.userId === userId);
+  }
+
+  async getCustomer(id: string, userId: string): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    return customer && customer.userId === userId ? customer : undefined;
+  }
+
+  async getCustomerByPhone(phone: string, userId: string): Promise<Customer | undefined> {
+    return Array.from(this.customers.values()).find((customer) =>
+      customer.phone === phone && customer.userId === userId
+    );
+  }
+
+  async createCustomer(customer: InsertCustomer & { userId: string }): Promise<Customer> {
+    const now = new Date();
+    const newCustomer: Customer = {
+      id: randomUUID(),
+      address: null,
+      landmark: null,
+      creditLimit: "0",
+      outstandingAmount: "0",
+      whatsappNumber: null,
+      gstNumber: null,
+      state: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedOnly(customer),
+    } as Customer;
+    this.customers.set(newCustomer.id, newCustomer);
+    return newCustomer;
+  }
+
+  async updateCustomer(id: string, userId: string, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const existing = await this.getCustomer(id, userId);
+    if (!existing) return undefined;
+    const customer = { ...existing, ...definedOnly(customerData), updatedAt: new Date() };
+    this.customers.set(id, customer);
+    return customer;
+  }
+
+  async deleteCustomer(id: string, userId: string): Promise<boolean> {
+    if (!(await this.getCustomer(id, userId))) return false;
+    const referencing: Map<string, { customerId: string | null }>[] = [this.orders, this.transactions, this.salesReturns];
+    const referenced = referencing.some((rows) => Array.from(rows.values()).some((row) => row.customerId === id));
+    if (referenced) {
+      throw new StorageError("Customer has orders or khata entries and can't be deleted");
+    }
+    this.recordDeletion(userId, "customer", id);
+    return this.customers.delete(id);
+  }
+
+  async getCustomerLedger(id: string, userId: string): Promise<CustomerLedger | undefined> {
+    const customer = await this.getCustomer(id, userId);
+    if (!customer) return undefined;
+
+    const ledgerTransactions = Array.from(this.transactions.values()).filter((transaction) =>
+      transaction.customerId === id &&
+      transaction.userId === userId &&
+      LEDGER_TYPES.includes(transaction.type)
+    );
+    return buildCustomerLedger(customer, ledgerTransactions);
+  }
+
+  async recordCreditPayment(id: string, userId: string, payment: CreditPayment): Promise<Transaction | undefined> {
+    const customer = await this.getCustomer(id, userId);
+    if (!customer) return undefined;
+
+    if (payment.amount > parseFloat(customer.outstandingAmount || "0") + 0.005) {
+      throw new StorageError("Payment exceeds the outstanding amount", 400);
+    }
+
+    const transaction = await this.createTransaction({
+      customerId: id,
+      userId,
+      type: "credit_payment",
+      amount: toDecimal(payment.amount, 2),
+      paymentMethod: payment.paymentMethod,
+      upiApp: payment.upiApp,
+      upiTransactionId: payment.upiTransactionId,
+      description: payment.description || `Khata payment from ${customer.name}`,
+    });
+    this.adjustOutstanding(id, -payment.amount);
+    return transaction;
+  }
+
+  async getSuppliers(userId: string): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values())
+      .filter((supplier) => supplier.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string, userId: string): Promise<Supplier | undefined> {
+    const supplier = this.suppliers.get(id);
+    return supplier && supplier.userId === userId ? supplier : undefined;
+  }
+
+  async createSupplier(supplier: InsertSupplier & { userId: string }): Promise<Supplier> {
+    const now = new Date();
+    const newSupplier: Supplier = {
+      id: randomUUID(),
+      contactPerson: null,
+      email: null,
+      address: null,
+      gstNumber: null,
+      state: null,
+      outstandingAmount: "0",
+      createdAt: now,
+      updatedAt: now,
+      ...definedOnly(supplier),
+    } as Supplier;
+    this.suppliers.set(newSupplier.id, newSupplier);
+    return newSupplier;
+  }
+
+  async updateSupplier(id: string, userId: string, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const existing = await this.getSupplier(id, userId);
+    if (!existing) return undefined;
+    const supplier = { ...existing, ...definedOnly(supplierData), updatedAt: new Date() };
+    this.suppliers.set(id, supplier);
+    return supplier;
+  }
+
+  async getSupplierPayments(id: string, userId: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((transaction) =>
+        transaction.supplierId === id && transaction.userId === userId && transaction.type === "purchase"
+      )
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async recordSupplierPayment(id: string, userId: string, payment: OrderPayment): Promise<Transaction | undefined> {
+    const supplier = await this.getSupplier(id, userId);
+    if (!supplier) return undefined;
+
+    if (payment.amount > parseFloat(supplier.outstandingAmount) + 0.005) {
+      throw new StorageError("Payment exceeds the amount payable", 400);
+    }
+
+    const transaction = await this.createTransaction({
+      supplierId: id,
+      userId,
+      type: "purchase",
+      amount: toDecimal(payment.amount, 2),
+      paymentMethod: payment.paymentMethod,
+      upiApp: payment.upiApp,
+      upiTransactionId: payment.upiTransactionId,
+      description: payment.description || `Payment to ${supplier.name}`,
+    });
+    this.adjustPayable(id, -payment.amount);
+    return transaction;
+  }
+
+  async getPurchaseOrders(userId: string, supplierId?: string): Promise<PurchaseOrderWithItems[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter((purchaseOrder) =>
+        purchaseOrder.userId === userId && (!supplierId || purchaseOrder.supplierId === supplierId)
+      )
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map((purchaseOrder) => this.withPurchaseOrderItems(purchaseOrder));
+  }
+
+  async getPurchaseOrder(id: string, userId: string): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    if (!purchaseOrder || purchaseOrder.userId !== userId) return undefined;
+    return this.withPurchaseOrderItems(purchaseOrder);
+  }
+
+  async createPurchaseOrder(userId: string, data: CreatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    if (!(await this.getSupplier(data.supplierId, userId))) {
+      throw new StorageError("Supplier not found", 404);
+    }
+    for (const item of data.items) {
+      if (!(await this.getProduct(item.productId, userId))) {
+        throw new StorageError("Product not found", 404);
+      }
+    }
+
+    const { lines, totalAmount } = costPurchaseLines(data.items);
+    const now = new Date();
+    const purchaseOrder: PurchaseOrder = {
+      id: randomUUID(),
+      poNumber: this.allocatePurchaseOrderNumber(userId, now),
+      supplierId: data.supplierId,
+      userId,
+      status: "ordered",
+      totalAmount,
+      receivedAmount: "0",
+      expectedDate: data.expectedDate ?? null,
+      notes: data.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.purchaseOrders.set(purchaseOrder.id, purchaseOrder);
+    for (const line of lines) {
+      const item: PurchaseOrderItem = {
+        id: randomUUID(),
+        purchaseOrderId: purchaseOrder.id,
+        receivedQuantity: "0",
+        ...line,
+      };
+      this.purchaseOrderItems.set(item.id, item);
+    }
+    return this.withPurchaseOrderItems(purchaseOrder);
+  }
+
+  async receivePurchaseOrder(id: string, userId: string, delivery: ReceivePurchase): Promise<PurchaseOrderWithItems | undefined> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    if (!purchaseOrder || purchaseOrder.userId !== userId) return undefined;
+
+    const items = Array.from(this.purchaseOrderItems.values()).filter((item) => item.purchaseOrderId === id);
+    const { lines, amount, status } = planPurchaseReceipt(purchaseOrder, items, delivery);
+
+    for (const { item, quantity } of lines) {
+      this.purchaseOrderItems.set(item.id, {
+        ...item,
+        receivedQuantity: toDecimal(parseFloat(item.receivedQuantity) + quantity, 3),
+      });
+      await this.updateProductStock(item.productId, userId, quantity);
+      await this.createStockMovement({
+        productId: item.productId,
+        userId,
+        type: "in",
+        quantity: toDecimal(quantity, 3),
+        reason: "purchase",
+        purchaseOrderId: id,
+        notes: `Received against ${purchaseOrder.poNumber}`,
+      });
+    }
+
+    this.purchaseOrders.set(id, {
+      ...purchaseOrder,
+      status,
+      receivedAmount: toDecimal(parseFloat(purchaseOrder.receivedAmount) + amount, 2),
+      updatedAt: new Date(),
+    });
+    this.adjustPayable(purchaseOrder.supplierId, amount);
+    return this.getPurchaseOrder(id, userId);
+  }
+
+  private withPurchaseOrderItems(purchaseOrder: PurchaseOrder): PurchaseOrderWithItems {
+    const items = Array.from(this.purchaseOrderItems.values())
+      .filter((item) => item.purchaseOrderId === purchaseOrder.id)
+      .map((item) => ({ ...item, product: this.products.get(item.productId)! }));
+    return { ...purchaseOrder, supplier: this.suppliers.get(purchaseOrder.supplierId)!, items };
+  }
+
+  private allocatePurchaseOrderNumber(userId: string, date: Date): string {
+    const financialYear = getFinancialYear(date);
+    const prefix = `PO/${financialYear.slice(2)}/`;
+    const issued = Array.from(this.purchaseOrders.values())
+      .filter((purchaseOrder) => purchaseOrder.userId === userId && purchaseOrder.poNumber.startsWith(prefix))
+      .length;
+    return formatOrderNumber("PO", financialYear, issued + 1);
+  }
+
+  private adjustPayable(supplierId: string, amount: number) {
+    const supplier = this.suppliers.get(supplierId);
+    if (!supplier) return;
+    this.suppliers.set(supplierId, {
+      ...supplier,
+      outstandingAmount: toDecimal(parseFloat(supplier.outstandingAmount) + amount, 2),
+      updatedAt: new Date(),
+    });
+  }
+
+  async getOrders(userId: string, limit: number = 50): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getOrder(id: string, userId: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    return order && order.userId === userId ? order : undefined;
+  }
+
+  async getOrderByClientId(clientId: string, userId: string): Promise<Order | undefined> {
+    return Array.from(this.orders.values()).find((order) =>
+      order.clientId === clientId && order.userId === userId
+    );
+  }
+
+  async getOrderWithItems(id: string, userId: string): Promise<{ order: Order; items: (OrderItem & { product: Product })[] } | undefined> {
+    const order = await this.getOrder(id, userId);
+    if (!order) return undefined;
+
+    const items = Array.from(this.orderItems.values())
+      .filter((item) => item.orderId === id)
+      .flatMap((item) => {
+        const product = this.products.get(item.productId);
+        return product ? [{ ...item, product }] : [];
+      });
+
+    return { order, items };
+  }
+
+  async createOrder(
+    order: InsertOrder & { userId: string; clientId?: string; createdAt?: Date },
+    items: Omit<InsertOrderItem, "orderId">[],
+    requestedTenders?: OrderTender[],
+    offlineStockPolicy?: OfflineStockPolicy,
+  ): Promise<Order> {
+    // Validate everything up front so a bad line leaves no partial writes,
+    // matching the rollback behaviour of the database transaction
+    const orderProducts = items.map((item) => {
+      const product = this.products.get(item.productId);
+      if (!product || product.userId !== order.userId) {
+        throw new StorageError("Product not found", 404);
+      }
+      return product;
+    });
+
+    const { tenders, creditAmount, ...payment } = planOrderPayment(order, requestedTenders);
+    if (creditAmount > 0) {
+      const customer = await this.getCustomer(order.customerId!, order.userId);
+      if (!customer) {
+        throw new StorageError("Customer not found", 404);
+      }
+      assertWithinCreditLimit(customer, creditAmount);
+    }
+
+    // Checked after the last await, so no other sale can take the stock
+    // between the check and the decrement below
+    const shortfalls = offlineStockPolicy && order.clientId
+      ? findStockShortfalls(order.clientId, items, (productId) => this.products.get(productId)?.stock)
+      : [];
+    if (shortfalls.length > 0 && offlineStockPolicy === "hold") {
+      throw new StockShortfallError(shortfalls);
+    }
+    // As the unique (userId, clientId) index does in Postgres
+    if (order.clientId && Array.from(this.orders.values()).some((existing) =>
+      existing.clientId === order.clientId && existing.userId === order.userId
+    )) {
+      throw new StorageError("This sale is already recorded");
+    }
+
+    const now = new Date();
+    const newOrder: Order = {
+      id: randomUUID(),
+      customerId: null,
+      status: "pending",
+      upiApp: null,
+      upiReference: null,
+      upiReferenceExpiresAt: null,
+      discountAmount: "0",
+      gstAmount: "0",
+      cgstAmount: "0",
+      sgstAmount: "0",
+      igstAmount: "0",
+      placeOfSupply: null,
+      deliveryAddress: null,
+      deliveryLandmark: null,
+      notes: null,
+      isOfflineOrder: false,
+      clientId: null,
+      syncedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedOnly(order),
+      ...payment,
+      orderNumber: this.allocateOrderNumber(order.userId, order.createdAt),
+    } as Order;
+    this.orders.set(newOrder.id, newOrder);
+
+    items.forEach((item, index) => {
+      const orderItem: OrderItem = {
+        id: randomUUID(),
+        gstRate: "0",
+        hsnCode: null,
+        taxableAmount: "0",
+        taxAmount: "0",
+        ...definedOnly(item),
+        orderId: newOrder.id,
+      } as OrderItem;
+      this.orderItems.set(orderItem.id, orderItem);
+
+      const product = orderProducts[index];
+      const current = this.products.get(product.id)!;
+      this.products.set(product.id, {
+        ...current,
+        stock: toDecimal(parseFloat(current.stock) - parseFloat(item.quantity), 3),
+        updatedAt: new Date(),
+      });
+
+      const movement: StockMovement = {
+        id: randomUUID(),
+        productId: item.productId,
+        userId: order.userId,
+        type: "out",
+        quantity: `-${item.quantity}`,
+        reason: "sale",
+        orderId: newOrder.id,
+        purchaseOrderId: null,
+        notes: null,
+        createdAt: now,
+      };
+      this.stockMovements.set(movement.id, movement);
+    });
+
+    for (const tender of tenders) {
+      await this.createTransaction(getTenderTransaction(newOrder, tender));
+    }
+    if (creditAmount > 0) {
+      this.adjustOutstanding(newOrder.customerId!, creditAmount);
+    }
+    await this.createStockConflicts(order.userId, shortfalls.map((shortfall) => ({ ...shortfall, orderId: newOrder.id })));
+
+    return newOrder;
+  }
+
+  async updateOrder(id: string, userId: string, orderData: UpdateOrder): Promise<Order | undefined> {
+    const existing = await this.getOrder(id, userId);
+    if (!existing) return undefined;
+    const order = { ...existing, ...definedOnly(orderData), updatedAt: new Date() };
+    this.orders.set(id, order);
+    return order;
+  }
+
+  async deleteOrder(id: string, userId: string): Promise<boolean> {
+    if (!(await this.getOrder(id, userId))) return false;
+    return this.orders.delete(id);
+  }
+
+  async cancelOrder(id: string, userId: string, reason?: string): Promise<Order | undefined> {
+    const order = await this.getOrder(id, userId);
+    if (!order) return undefined;
+    assertCancellable(order);
+
+    // Lines already handled by a sales return were restocked/refunded then
+    const returnedByItem = this.getReturnedQuantities(id);
+    const items = Array.from(this.orderItems.values()).filter((item) => item.orderId === id);
+    for (const item of items) {
+      const remaining = parseFloat(item.quantity) - (returnedByItem.get(item.id) || 0);
+      if (remaining <= 0) continue;
+
+      await this.updateProductStock(item.productId, userId, remaining);
+      await this.createStockMovement({
+        productId: item.productId,
+        userId,
+        type: "in",
+        quantity: toDecimal(remaining, 3),
+        reason: "return",
+        orderId: id,
+        notes: reason || "Order cancelled",
+      });
+    }
+
+    const { refundableCash, creditOwed } = getOrderBalances(order, this.getOrderSettlements(id));
+    const orderTransactions = Array.from(this.transactions.values())
+      .filter((transaction) => transaction.orderId === id);
+    for (const refund of allocateRefund(order, orderTransactions, refundableCash)) {
+      await this.createTransaction({
+        orderId: id,
+        customerId: order.customerId,
+        userId,
+        type: "refund",
+        amount: toDecimal(refund.amount, 2),
+        paymentMethod: refund.paymentMethod,
+        upiApp: refund.upiApp,
+        description: `Refund for cancelled order ${order.orderNumber}`,
+      });
+    }
+
+    // Whatever is still owed on the khata for this order is written off
+    if (creditOwed > 0 && order.customerId) {
+      await this.createTransaction({
+        orderId: id,
+        customerId: order.customerId,
+        userId,
+        type: "credit_note",
+        amount: toDecimal(creditOwed, 2),
+        paymentMethod: "credit",
+        description: `Credit reversed for cancelled order ${order.orderNumber}`,
+      });
+      this.adjustOutstanding(order.customerId, -creditOwed);
+    }
+
+    const cancelledOrder = { ...order, status: "cancelled", updatedAt: new Date() };
+    this.orders.set(id, cancelledOrder);
+    return cancelledOrder;
+  }
+
+  async assignUpiReference(id: string, userId: string, expiresAt: Date): Promise<Order | undefined> {
+    const order = await this.getOrder(id, userId);
+    if (!order) return undefined;
+    assertAcceptsUpiPayment(order);
+    if (order.paymentStatus === "paid") {
+      throw new StorageError(`Order ${order.orderNumber} is already paid`);
+    }
+
+    const updated = { ...order, upiReference: reuseUpiReference(order), upiReferenceExpiresAt: expiresAt, updatedAt: new Date() };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async recordUpiPayment(id: string, userId: string, payment: UpiPayment): Promise<Transaction | undefined> {
+    const order = await this.getOrder(id, userId);
+    if (!order) return undefined;
+
+    const transaction = await this.applyUpiPayment(order, payment);
+
+    // A credit imported before the payment was marked is matched to it now
+    const entry = Array.from(this.upiStatementEntries.values()).find((existing) =>
+      existing.userId === userId && existing.utr === payment.utr && existing.status === "unmatched"
+    );
+    if (entry) {
+      this.upiStatementEntries.set(entry.id, {
+        ...entry,
+        status: "matched",
+        orderId: id,
+        transactionId: transaction.id,
+        matchedAt: new Date(),
+      });
+    }
+    return transaction;
+  }
+
+  async recordOrderPayment(id: string, userId: string, payment: OrderPayment): Promise<{ order: Order; transactions: Transaction[] } | undefined> {
+    const order = await this.getOrder(id, userId);
+    if (!order) return undefined;
+
+    const plan = planOrderCollection(order, this.getOrderSettlements(id), payment.amount);
+    const collected: Transaction[] = [];
+    for (const transaction of getCollectionTransactions(order, payment, plan)) {
+      collected.push(await this.createTransaction(transaction));
+    }
+    if (plan.khataAmount > 0 && order.customerId) {
+      this.adjustOutstanding(order.customerId, -plan.khataAmount);
+    }
+
+    const updated = { ...order, paidAmount: plan.paidAmount, paymentStatus: plan.paymentStatus, updatedAt: new Date() };
+    this.orders.set(id, updated);
+    return { order: updated, transactions: collected };
+  }
+
+  private async applyUpiPayment(order: Order, payment: UpiPayment): Promise<Transaction> {
+    const orderTransactions = Array.from(this.transactions.values())
+      .filter((transaction) => transaction.orderId === order.id);
+    const settlement = planUpiSettlement(order, orderTransactions, payment);
+
+    // Looked up without awaiting, so no other payment can slip in between the
+    // check and the write, as the unique index ensures in Postgres
+    if (payment.utr) {
+      const recorded = this.findTransactionByUtr(payment.utr, order.userId);
+      if (recorded && recorded.orderId !== order.id) {
+        throw new StorageError(`UTR ${payment.utr} is already recorded against another payment`);
+      }
+    }
+
+    if ("confirms" in settlement) {
+      const confirmed = { ...settlement.confirms, upiTransactionId: payment.utr ?? null };
+      this.transactions.set(confirmed.id, confirmed);
+      return confirmed;
+    }
+
+    const transaction = await this.createTransaction({
+      orderId: order.id,
+      customerId: order.customerId,
+      userId: order.userId,
+      type: "sale",
+      amount: settlement.amount,
+      paymentMethod: "upi",
+      upiTransactionId: payment.utr,
+      description: `UPI payment for order ${order.orderNumber}`,
+    });
+    this.orders.set(order.id, {
+      ...order,
+      paidAmount: settlement.paidAmount,
+      paymentStatus: settlement.paymentStatus,
+      updatedAt: new Date(),
+    });
+    return transaction;
+  }
+
+  private getReturnedQuantities(orderId: string): Map<string, number> {
+    const returned = new Map<string, number>();
+    for (const item of Array.from(this.salesReturnItems.values())) {
+      if (this.salesReturns.get(item.returnId)?.orderId !== orderId) continue;
+      returned.set(item.orderItemId, (returned.get(item.orderItemId) || 0) + parseFloat(item.quantity));
+    }
+    return returned;
+  }
+
+  private allocateOrderNumber(userId: string, date: Date = new Date()): string {
+    const financialYear = getFinancialYear(date);
+    const key = `${userId}:${financialYear}`;
+    const sequence = (this.invoiceCounters.get(key) ?? 0) + 1;
+    this.invoiceCounters.set(key, sequence);
+    return formatOrderNumber(this.users.get(userId)?.invoicePrefix || "INV", financialYear, sequence);
+  }
+
+  private getOrderSettlements(orderId: string): OrderSettlements {
+    const orderTransactions = Array.from(this.transactions.values())
+      .filter((transaction) => transaction.orderId === orderId);
+    const sumOf = (type: string) => orderTransactions
+      .filter((transaction) => transaction.type === type)
+      .reduce((sum, transaction) => sum + parseFloat(transaction.amount), 0);
+
+    return { creditSales: sumOf("credit_sale"), refunds: sumOf("refund"), creditNotes: sumOf("credit_note") };
+  }
+
+  private adjustOutstanding(customerId: string, amount: number) {
+    const customer = this.customers.get(customerId);
+    if (!customer) return;
+    this.customers.set(customerId, {
+      ...customer,
+      outstandingAmount: toDecimal(parseFloat(customer.outstandingAmount || "0") + amount, 2),
+      updatedAt: new Date(),
+    });
+  }
+
+  async getSalesReturns(orderId: string, userId: string): Promise<SalesReturnWithItems[]> {
+    return Array.from(this.salesReturns.values())
+      .filter((salesReturn) => salesReturn.orderId === orderId && salesReturn.userId === userId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      .map((salesReturn) => ({
+        ...salesReturn,
+        items: Array.from(this.salesReturnItems.values())
+          .filter((item) => item.returnId === salesReturn.id)
+          .map((item) => ({ ...item, product: this.products.get(item.productId)! })),
+      }));
+  }
+
+  async createSalesReturn(orderId: string, userId: string, data: CreateSalesReturn): Promise<SalesReturn | undefined> {
+    const order = await this.getOrder(orderId, userId);
+    if (!order) return undefined;
+
+    const items = Array.from(this.orderItems.values()).filter((item) => item.orderId === orderId);
+    const { lines, amount } = planSalesReturn(
+      order,
+      items,
+      this.getReturnedQuantities(orderId),
+      this.getOrderSettlements(orderId),
+      data,
+    );
+
+    const orderTransactions = Array.from(this.transactions.values())
+      .filter((transaction) => transaction.orderId === orderId);
+    const paymentMethod = data.settlement === "refund"
+      ? data.paymentMethod || getRefundMethod(order, orderTransactions)
+      : null;
+    const salesReturn: SalesReturn = {
+      id: randomUUID(),
+      orderId,
+      customerId: order.customerId,
+      userId,
+      settlement: data.settlement,
+      paymentMethod,
+      amount: toDecimal(amount, 2),
+      reason: data.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.salesReturns.set(salesReturn.id, salesReturn);
+
+    for (const line of lines) {
+      const returnItem: SalesReturnItem = {
+        id: randomUUID(),
+        returnId: salesReturn.id,
+        orderItemId: line.item.id,
+        productId: line.item.productId,
+        quantity: toDecimal(line.quantity, 3),
+        amount: toDecimal(line.amount, 2),
+        condition: line.condition,
+      };
+      this.salesReturnItems.set(returnItem.id, returnItem);
+
+      // Damaged goods are recorded but don't go back into sellable stock
+      if (line.condition === "restock") {
+        await this.updateProductStock(line.item.productId, userId, line.quantity);
+      }
+
+      await this.createStockMovement({
+        productId: line.item.productId,
+        userId,
+        type: line.condition === "restock" ? "in" : "adjustment",
+        quantity: toDecimal(line.quantity, 3),
+        reason: line.condition === "restock" ? "return" : "damage",
+        orderId,
+        notes: data.reason || `Returned from order ${order.orderNumber}`,
+      });
+    }
+
+    await this.createTransaction({
+      orderId,
+      customerId: order.customerId,
+      userId,
+      type: data.settlement,
+      amount: toDecimal(amount, 2),
+      paymentMethod: paymentMethod || "credit",
+      description: data.settlement === "refund"
+        ? `Refund for return on order ${order.orderNumber}`
+        : `Credit note for return on order ${order.orderNumber}`,
+    });
+
+    // A credit note is owed to the customer, so it reduces their balance
+    if (data.settlement === "credit_note" && order.customerId) {
+      this.adjustOutstanding(order.customerId, -amount);
+    }
+
+    return salesReturn;
+  }
+
+  async getTransactions(userId: string, limit: number = 50): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((transaction) => transaction.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getTransactionByUtr(utr: string, userId: string): Promise<Transaction | undefined> {
+    return this.findTransactionByUtr(utr, userId);
+  }
+
+  private findTransactionByUtr(utr: string, userId: string): Transaction | undefined {
+    return Array.from(this.transactions.values()).find((transaction) =>
+      transaction.upiTransactionId === utr && transaction.userId === userId
+    );
+  }
+
+  async getOrderPayments(orderId: string, userId: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((transaction) =>
+        transaction.orderId === orderId &&
+        transaction.userId === userId &&
+        ORDER_PAYMENT_TYPES.includes(transaction.type)
+      )
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction> {
+    const newTransaction: Transaction = {
+      id: randomUUID(),
+      orderId: null,
+      customerId: null,
+      supplierId: null,
+      upiApp: null,
+      upiTransactionId: null,
+      description: null,
+      isOfflineTransaction: false,
+      syncedAt: null,
+      createdAt: new Date(),
+      ...definedOnly(transaction),
+    } as Transaction;
+    this.transactions.set(newTransaction.id, newTransaction);
+    return newTransaction;
+  }
+
+  async getDailySales(userId: string, date: Date): Promise<{ total: number; upiTotal: number; count: number }> {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const dayTransactions = Array.from(this.transactions.values()).filter((transaction) =>
+      transaction.userId === userId &&
+      transaction.createdAt !== null &&
+      transaction.createdAt >= startOfDay &&
+      transaction.createdAt <= endOfDay
+    );
+
+    // Refunds and credit notes are netted off against the day's sales
+    const signedAmount = (transaction: Transaction) => {
+      if (transaction.type === "sale" || transaction.type === "credit_sale") return parseFloat(transaction.amount);
+      if (transaction.type === "refund" || transaction.type === "credit_note") return -parseFloat(transaction.amount);
+      return 0;
+    };
+
+    return {
+      total: dayTransactions.reduce((sum, transaction) => sum + signedAmount(transaction), 0),
+      // Khata payments received over UPI count towards the day's UPI collection
+      upiTotal: dayTransactions
+        .filter((transaction) => transaction.paymentMethod === "upi")
+        .reduce((sum, transaction) => sum + (transaction.type === "credit_payment"
+          ? parseFloat(transaction.amount)
+          : signedAmount(transaction)), 0),
+      // A part-paid credit order has both a sale and a credit_sale row
+      count: new Set(dayTransactions
+        .filter((transaction) => transaction.type === "sale" || transaction.type === "credit_sale")
+        .map((transaction) => transaction.orderId ?? transaction.id)).size,
+    };
+  }
+
+  async getUpiStatementEntries(userId: string, status?: string): Promise<UpiStatementEntry[]> {
+    return Array.from(this.upiStatementEntries.values())
+      .filter((entry) => entry.userId === userId && (!status || entry.status === status))
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+  }
+
+  async createUpiStatementEntries(userId: string, entries: InsertUpiStatementEntry[]): Promise<UpiStatementEntry[]> {
+    const imported: UpiStatementEntry[] = [];
+    for (const entry of entries) {
+      const duplicate = Array.from(this.upiStatementEntries.values()).some((existing) =>
+        existing.userId === userId && existing.utr === entry.utr
+      );
+      if (duplicate) continue;
+
+      const newEntry: UpiStatementEntry = {
+        id: randomUUID(),
+        payerVpa: null,
+        reference: null,
+        status: "unmatched",
+        orderId: null,
+        transactionId: null,
+        matchedAt: null,
+        createdAt: new Date(),
+        ...definedOnly(entry),
+        userId,
+      } as UpiStatementEntry;
+      this.upiStatementEntries.set(newEntry.id, newEntry);
+      imported.push(newEntry);
+    }
+    return imported;
+  }
+
+  async getUnreconciledUpiOrders(userId: string): Promise<UnreconciledUpiOrder[]> {
+    const unverifiedSales = Array.from(this.transactions.values()).filter((transaction) =>
+      transaction.userId === userId && isUnverifiedUpiSale(transaction)
+    );
+    return Array.from(this.orders.values())
+      .filter((order) =>
+        order.userId === userId &&
+        order.status !== "cancelled" &&
+        (((order.paymentMethod === "upi" || order.upiReference !== null) && order.paymentStatus !== "paid") ||
+          unverifiedSales.some((transaction) => transaction.orderId === order.id))
+      )
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map((order) => summariseUnreconciledOrder(
+        order,
+        unverifiedSales.filter((transaction) => transaction.orderId === order.id),
+      ));
+  }
+
+  async matchUpiStatementEntry(id: string, userId: string, orderId: string): Promise<UpiStatementEntry | undefined> {
+    const entry = this.upiStatementEntries.get(id);
+    if (!entry || entry.userId !== userId) return undefined;
+    if (entry.status !== "unmatched") {
+      throw new StorageError(`Statement entry is already ${entry.status}`);
+    }
+
+    const order = await this.getOrder(orderId, userId);
+    if (!order) {
+      throw new StorageError("Order not found", 404);
+    }
+
+    const transaction = await this.applyUpiPayment(order, { utr: entry.utr, amount: parseFloat(entry.amount) });
+    const matched = { ...entry, status: "matched", orderId, transactionId: transaction.id, matchedAt: new Date() };
+    this.upiStatementEntries.set(id, matched);
+    return matched;
+  }
+
+  async ignoreUpiStatementEntry(id: string, userId: string): Promise<UpiStatementEntry | undefined> {
+    const entry = this.upiStatementEntries.get(id);
+    if (!entry || entry.userId !== userId) return undefined;
+    if (entry.status !== "unmatched") {
+      throw new StorageError(`Statement entry is already ${entry.status}`);
+    }
+    const ignored = { ...entry, status: "ignored" };
+    this.upiStatementEntries.set(id, ignored);
+    return ignored;
+  }
+
+  async getStockConflicts(userId: string, status?: string): Promise<StockConflictWithProduct[]> {
+    return Array.from(this.stockConflicts.values())
+      .filter((conflict) => conflict.userId === userId && (!status || conflict.status === status))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .flatMap((conflict) => {
+        const product = this.products.get(conflict.productId);
+        return product ? [{ ...conflict, product }] : [];
+      });
+  }
+
+  async getStockConflict(id: string, userId: string): Promise<StockConflict | undefined> {
+    const conflict = this.stockConflicts.get(id);
+    return conflict && conflict.userId === userId ? conflict : undefined;
+  }
+
+  async getStockConflictsForSale(clientId: string, userId: string): Promise<StockConflict[]> {
+    return Array.from(this.stockConflicts.values()).filter((conflict) =>
+      conflict.clientId === clientId && conflict.userId === userId
+    );
+  }
+
+  async createStockConflicts(userId: string, conflicts: InsertStockConflict[]): Promise<StockConflict[]> {
+    return conflicts.map((conflict) => {
+      const newConflict: StockConflict = {
+        id: randomUUID(),
+        orderId: null,
+        reason: "stock",
+        unitPrice: null,
+        catalogPrice: null,
+        status: "open",
+        resolution: null,
+        heldOrder: null,
+        resolvedAt: null,
+        createdAt: new Date(),
+        ...definedOnly(conflict),
+        userId,
+      } as StockConflict;
+      this.stockConflicts.set(newConflict.id, newConflict);
+      return newConflict;
+    });
+  }
+
+  async resolveStockConflicts(
+    clientId: string,
+    userId: string,
+    resolution: "accepted" | "rejected",
+    orderId?: string,
+  ): Promise<StockConflict[]> {
+    const open = (await this.getStockConflictsForSale(clientId, userId))
+      .filter((conflict) => conflict.status === "open");
+    return open.map((conflict) => {
+      const resolved: StockConflict = {
+        ...conflict,
+        status: "resolved",
+        resolution,
+        resolvedAt: new Date(),
+        orderId: orderId ?? conflict.orderId,
+      };
+      this.stockConflicts.set(conflict.id, resolved);
+      return resolved;
+    });
+  }
+
+  async getCatalogChanges(userId: string, since?: Date): Promise<CatalogChanges> {
+    const changed = (updatedAt: Date | null) => !since || (updatedAt !== null && updatedAt >= since);
+    const tombstones = since
+      ? Array.from(this.syncTombstones.values()).filter((tombstone) =>
+        tombstone.userId === userId && tombstone.deletedAt !== null && tombstone.deletedAt >= since
+      )
+      : [];
+    return catalogChanges(
+      (await this.getProducts(userId)).filter((product) => changed(product.updatedAt)),
+      (await this.getCategories(userId)).filter((category) => changed(category.updatedAt)),
+      (await this.getCustomers(userId)).filter((customer) => changed(customer.updatedAt)),
+      tombstones,
+    );
+  }
+
+  private recordDeletion(userId: string, entityType: SyncEntityType, entityId: string) {
+    const tombstone: SyncTombstone = { id: randomUUID(), userId, entityType, entityId, deletedAt: new Date() };
+    this.syncTombstones.set(tombstone.id, tombstone);
+  }
+
+  async createStockMovement(movement: InsertStockMovement & { userId: string }): Promise<StockMovement> {
+    const newMovement: StockMovement = {
+      id: randomUUID(),
+      reason: null,
+      orderId: null,
+      purchaseOrderId: null,
+      notes: null,
+      createdAt: new Date(),
+      ...definedOnly(movement),
+    } as StockMovement;
+    this.stockMovements.set(newMovement.id, newMovement);
+    return newMovement;
+  }
+
+  async getStockMovements(productId: string, userId: string): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter((movement) => movement.productId === productId && movement.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getDashboardStats(userId: string): Promise<{
+    todaySales: number;
+    ordersCount: number;
+    lowStockCount: number;
+    upiCollection: number;
+  }> {
+    const dailySales = await this.getDailySales(userId, new Date());
+    const lowStockProducts = await this.getLowStockProducts(userId);
+
+    return {
+      todaySales: dailySales.total,
+      ordersCount: dailySales.count,
+      lowStockCount: lowStockProducts.length,
+      upiCollection: dailySales.upiTotal,
+    };
+  }
+}
+
+// STORAGE_DRIVER=memory runs the API without a database (local development
+// and tests); data lives only as long as the process
+export const storage: IStorage = process.env.STORAGE_DRIVER === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createCashSale, createProduct, createTestApp, signUpShop, type TestAgent } from "./test-app";
+
+// Every id-addressed route answers 404 for rows owned by another shop, and
+// leaves those rows untouched
+let app: Express;
+let owner: TestAgent;
+let intruder: TestAgent;
+let ownerId: string;
+let intruderId: string;
+let product: { id: string; stock: string; price: string };
+let customerId: string;
+let orderId: string;
+
+beforeAll(async () => {
+  app = await createTestApp();
+  owner = await signUpShop(app);
+  intruder = await signUpShop(app);
+  ownerId = (await owner.get("/api/user").expect(200)).body.id;
+  intruderId = (await intruder.get("/api/user").expect(200)).body.id;
+
+  product = await createProduct(owner, { stock: "10" });
+  const customer = await owner.post("/api/customers")
+    .send({ name: "Ramesh", phone: "9123456780", creditLimit: "1000" })
+    .expect(200);
+  customerId = customer.body.id;
+  const sale = await createCashSale(owner, [{ productId: product.id, quantity: 1 }]);
+  orderId = sale.body.id;
+});
+
+describe("products", () => {
+  it("hides another shop's products from lists", async () => {
+    const list = await intruder.get("/api/products").expect(200);
+    expect(list.body.map((p: { id: string }) => p.id)).not.toContain(product.id);
+  });
+
+  it("refuses to update another shop's product", async () => {
+    await intruder.put(`/api/products/${product.id}`).send({ price: "1" }).expect(404);
+    await intruder.put(`/api/products/${product.id}/stock`).send({ quantity: 100 }).expect(404);
+
+    const stored = await storage.getProduct(product.id, ownerId);
+    expect(parseFloat(stored!.price)).toBe(50);
+    expect(parseFloat(stored!.stock)).toBe(9);
+  });
+
+  it("refuses to sell or quote another shop's product", async () => {
+    await intruder.post("/api/orders/quote").send({ items: [{ productId: product.id, quantity: 1 }] }).expect(404);
+    await intruder.post("/api/orders").send({
+      order: { totalAmount: "50.00", paymentMethod: "cash" },
+      items: [{ productId: product.id, quantity: 1 }],
+    }).expect(404);
+  });
+
+  it("refuses to delete another shop's product", async () => {
+    expect(await storage.deleteProduct(product.id, intruderId)).toBe(false);
+    expect(await storage.getProduct(product.id, ownerId)).toBeDefined();
+  });
+});
+
+describe("customers", () => {
+  it("hides another shop's customers", async () => {
+    const list = await intruder.get("/api/customers").expect(200);
+    expect(list.body.map((c: { id: string }) => c.id)).not.toContain(customerId);
+    await intruder.get(`/api/customers/${customerId}/ledger`).expect(404);
+    await intruder.get("/api/customers/phone/9123456780").expect(404);
+  });
+
+  it("refuses payments against another shop's customer", async () => {
+    await intruder.post(`/api/customers/${customerId}/payments`)
+      .send({ amount: 10, paymentMethod: "cash" })
+      .expect(404);
+  });
+
+  it("refuses to update or delete another shop's customer", async () => {
+    expect(await storage.updateCustomer(customerId, intruderId, { name: "Changed" })).toBeUndefined();
+    expect(await storage.deleteCustomer(customerId, intruderId)).toBe(false);
+    expect((await storage.getCustomer(customerId, ownerId))?.name).toBe("Ramesh");
+  });
+});
+
+describe("orders", () => {
+  it("hides another shop's orders", async () => {
+    const list = await intruder.get("/api/orders").expect(200);
+    expect(list.body.map((o: { id: string }) => o.id)).not.toContain(orderId);
+    await intruder.get(`/api/orders/${orderId}`).expect(404);
+    await intruder.get(`/api/orders/${orderId}/invoice`).expect(404);
+    await intruder.get(`/api/orders/${orderId}/receipt`).expect(404);
+  });
+
+  it("refuses to update, cancel, collect on or return another shop's order", async () => {
+    await intruder.put(`/api/orders/${orderId}`).send({ notes: "changed" }).expect(404);
+    await intruder.post(`/api/orders/${orderId}/cancel`).send({}).expect(404);
+    await intruder.post(`/api/orders/${orderId}/payments`).send({ amount: 10, paymentMethod: "cash" }).expect(404);
+
+    const order = await owner.get(`/api/orders/${orderId}`).expect(200);
+    await intruder.post(`/api/orders/${orderId}/returns`).send({
+      items: [{ orderItemId: order.body.items[0].id, quantity: 1 }],
+      settlement: "refund",
+      paymentMethod: "cash",
+    }).expect(404);
+
+    const after = await owner.get(`/api/orders/${orderId}`).expect(200);
+    expect(after.body.order.status).toBe("completed");
+    expect(after.body.order.notes).toBeNull();
+    expect(after.body.returns).toHaveLength(0);
+    expect(after.body.payments).toHaveLength(1);
+    expect(parseFloat((await storage.getProduct(product.id, ownerId))!.stock)).toBe(9);
+  });
+
+  it("refuses to delete another shop's order", async () => {
+    expect(await storage.deleteOrder(orderId, intruderId)).toBe(false);
+    expect(await storage.getOrder(orderId, ownerId)).toBeDefined();
+  });
+});
@@ -0,0 +1,54 @@
+import express from "express";
+import request from "supertest";
+import { registerRoutes } from "./routes";
+
+export type TestAgent = ReturnType<typeof request.agent>;
+
+// The API as server/index.ts mounts it, minus Vite and the request log.
+// Run with STORAGE_DRIVER=memory; every test file gets its own MemStorage.
+export async function createTestApp() {
+  const app = express();
+  app.use(express.json({ limit: "5mb" }));
+  await registerRoutes(app);
+  return app;
+}
+
+let shopCount = 0;
+
+// Registers a new shop and returns an agent that stays signed in as it
+export async function signUpShop(app: express.Express, shop: Record<string, unknown> = {}): Promise<TestAgent> {
+  const agent = request.agent(app);
+  shopCount += 1;
+  await agent.post("/api/register").send({
+    username: `shop${shopCount}`,
+    password: "secret1",
+    shopName: `Shop ${shopCount}`,
+    ownerName: "Owner",
+    phone: "9876543210",
+    state: "27",
+    ...shop,
+  }).expect(201);
+  return agent;
+}
+
+export async function createProduct(agent: TestAgent, product: Record<string, unknown> = {}) {
+  const response = await agent.post("/api/products").send({
+    name: "Rice",
+    price: "50",
+    stock: "10",
+    minStock: "2",
+    ...product,
+  }).expect(200);
+  return response.body as { id: string; stock: string; price: string };
+}
+
+// A cash sale priced the way the server prices it
+export async function createCashSale(agent: TestAgent, items: { productId: string; quantity: number }[]) {
+  const quote = await agent.post("/api/orders/quote").send({ items }).expect(200);
+  const response = await agent.post("/api/orders").send({
+    order: { totalAmount: quote.body.totalAmount, paymentMethod: "cash" },
+    items,
+    tenders: [{ paymentMethod: "cash", amount: parseFloat(quote.body.totalAmount) }],
+  });
+  return response;
+}
@@ -0,0 +1,210 @@
+import * as fontkit from "fontkit";
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+
+// Thermal printers only carry Latin code pages, so Hindi text is drawn into a
+// 1-bit bitmap from the same Noto font the invoices use and printed as raster
+
+const require = createRequire(import.meta.url);
+
+// Curves are flattened into this many straight segments before filling
+const CURVE_STEPS = 8;
+
+export interface Bitmap {
+  width: number;
+  height: number;
+  // Packed rows, most significant bit leftmost, a set bit prints black
+  data: Buffer;
+}
+
+interface Fonts {
+  devanagari: fontkit.Font;
+  latin: fontkit.Font;
+}
+
+let fonts: Fonts | undefined;
+
+function loadFont(subset: "devanagari" | "latin"): fontkit.Font {
+  const file = require.resolve(`@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-${subset}-400-normal.woff`);
+  return fontkit.create(readFileSync(file)) as fontkit.Font;
+}
+
+function getFonts(): Fonts {
+  fonts ??= { devanagari: loadFont("devanagari"), latin: loadFont("latin") };
+  return fonts;
+}
+
+function isDevanagari(codePoint: number): boolean {
+  return (codePoint >= 0x0900 && codePoint <= 0x097f)
+    || (codePoint >= 0x1cd0 && codePoint <= 0x1cff)
+    || (codePoint >= 0xa8e0 && codePoint <= 0xa8ff);
+}
+
+// Spaces and joiners stay with the run they sit in, so words shape together
+function isNeutral(codePoint: number): boolean {
+  return codePoint === 0x20 || codePoint === 0x200c || codePoint === 0x200d;
+}
+
+// Each font subset only has glyphs for its own script, so the text is split
+// into runs that are shaped separately
+function splitRuns(text: string): { text: string; font: fontkit.Font }[] {
+  const { devanagari, latin } = getFonts();
+  const runs: { text: string; font: fontkit.Font }[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    const last = runs[runs.length - 1];
+    const font = isDevanagari(codePoint) ? devanagari : latin;
+    if (last && (last.font === font || isNeutral(codePoint))) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, font });
+    }
+  }
+  return runs;
+}
+
+type Edge = [x0: number, y0: number, x1: number, y1: number];
+
+interface PlacedGlyph {
+  glyph: fontkit.Glyph;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+function layoutText(text: string, fontSize: number): { glyphs: PlacedGlyph[]; width: number } {
+  const glyphs: PlacedGlyph[] = [];
+  let penX = 0;
+  for (const run of splitRuns(text)) {
+    const scale = fontSize / run.font.unitsPerEm;
+    const layout = run.font.layout(run.text);
+    layout.glyphs.forEach((glyph, index) => {
+      const position = layout.positions[index];
+      glyphs.push({
+        glyph,
+        x: penX + position.xOffset * scale,
+        y: position.yOffset * scale,
+        scale,
+      });
+      penX += position.xAdvance * scale;
+    });
+  }
+  return { glyphs, width: penX };
+}
+
+// Converts glyph outlines into straight edges in bitmap coordinates (y down)
+function collectEdges(glyphs: PlacedGlyph[], offsetX: number, baseline: number, shrink: number): Edge[] {
+  const edges: Edge[] = [];
+  for (const { glyph, x, y, scale } of glyphs) {
+    const toPoint = (px: number, py: number): [number, number] => [
+      offsetX + (x + px * scale) * shrink,
+      baseline - (y + py * scale) * shrink,
+    ];
+    let start: [number, number] = [0, 0];
+    let current: [number, number] = [0, 0];
+    const lineTo = (point: [number, number]) => {
+      edges.push([current[0], current[1], point[0], point[1]]);
+      current = point;
+    };
+
+    for (const { command, args } of glyph.path.commands) {
+      switch (command) {
+        case "moveTo":
+          if (current[0] !== start[0] || current[1] !== start[1]) lineTo(start);
+          start = current = toPoint(args[0], args[1]);
+          break;
+        case "lineTo":
+          lineTo(toPoint(args[0], args[1]));
+          break;
+        case "quadraticCurveTo": {
+          const [x0, y0] = current;
+          const [cx, cy] = toPoint(args[0], args[1]);
+          const [x1, y1] = toPoint(args[2], args[3]);
+          for (let step = 1; step <= CURVE_STEPS; step++) {
+            const t = step / CURVE_STEPS;
+            const u = 1 - t;
+            lineTo([u * u * x0 + 2 * u * t * cx + t * t * x1, u * u * y0 + 2 * u * t * cy + t * t * y1]);
+          }
+          break;
+        }
+        case "bezierCurveTo": {
+          const [x0, y0] = current;
+          const [c1x, c1y] = toPoint(args[0], args[1]);
+          const [c2x, c2y] = toPoint(args[2], args[3]);
+          const [x1, y1] = toPoint(args[4], args[5]);
+          for (let step = 1; step <= CURVE_STEPS; step++) {
+            const t = step / CURVE_STEPS;
+            const u = 1 - t;
+            lineTo([
+              u * u * u * x0 + 3 * u * u * t * c1x + 3 * u * t * t * c2x + t * t * t * x1,
+              u * u * u * y0 + 3 * u * u * t * c1y + 3 * u * t * t * c2y + t * t * t * y1,
+            ]);
+          }
+          break;
+        }
+        case "closePath":
+          lineTo(start);
+          break;
+      }
+    }
+    if (current[0] !== start[0] || current[1] !== start[1]) lineTo(start);
+  }
+  return edges;
+}
+
+// Non-zero winding scanline fill, sampling each pixel at its centre
+function fillEdges(edges: Edge[], width: number, height: number): Buffer {
+  const bytesPerRow = width / 8;
+  const data = Buffer.alloc(bytesPerRow * height);
+  for (let row = 0; row < height; row++) {
+    const sampleY = row + 0.5;
+    const crossings: { x: number; direction: number }[] = [];
+    for (const [x0, y0, x1, y1] of edges) {
+      if ((y0 <= sampleY && y1 > sampleY) || (y1 <= sampleY && y0 > sampleY)) {
+        crossings.push({ x: x0 + (sampleY - y0) * (x1 - x0) / (y1 - y0), direction: y1 > y0 ? 1 : -1 });
+      }
+    }
+    crossings.sort((a, b) => a.x - b.x);
+
+    let winding = 0;
+    crossings.forEach((crossing, index) => {
+      winding += crossing.direction;
+      const next = crossings[index + 1];
+      if (winding === 0 || !next) return;
+      const from = Math.max(0, Math.ceil(crossing.x - 0.5));
+      const to = Math.min(width - 1, Math.ceil(next.x - 0.5) - 1);
+      for (let x = from; x <= to; x++) {
+        data[row * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    });
+  }
+  return data;
+}
+
+// Draws a single line of text, shrinking it if it is wider than the paper.
+// The bitmap is cropped to the height of the inked glyphs.
+export function renderTextBitmap(
+  text: string,
+  { width, fontSize, align = "left" }: { width: number; fontSize: number; align?: "left" | "center" | "right" },
+): Bitmap {
+  const bitmapWidth = Math.ceil(width / 8) * 8;
+  const { glyphs, width: textWidth } = layoutText(text, fontSize);
+  const shrink = textWidth > bitmapWidth ? bitmapWidth / textWidth : 1;
+
+  let top = 0;
+  let bottom = 0;
+  for (const { glyph, y, scale } of glyphs) {
+    const box = glyph.bbox;
+    if (box.width === 0 && box.height === 0) continue;
+    top = Math.max(top, (y + box.maxY * scale) * shrink);
+    bottom = Math.min(bottom, (y + box.minY * scale) * shrink);
+  }
+  const height = Math.max(1, Math.ceil(top - bottom) + 2);
+  const baseline = Math.ceil(top) + 1;
+
+  const free = bitmapWidth - textWidth * shrink;
+  const offsetX = align === "center" ? free / 2 : align === "right" ? free : 0;
+  const edges = collectEdges(glyphs, offsetX, baseline, shrink);
+
+  return { width: bitmapWidth, height, data: fillEdges(edges, bitmapWidth, height) };
+}
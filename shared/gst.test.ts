@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { allocateDiscount, calculateLineTax, calculateOrderTax, priceOrderLines, splitTax, type TaxableLine } from "./gst";
+import { insertProductSchema } from "./schema";
+
+const line = (unitPrice: number, gstRate: number, { quantity = 1, priceIncludesTax = false } = {}): TaxableLine =>
+  ({ quantity, unitPrice, gstRate, priceIncludesTax });
+
+const inMaharashtra = { shopState: "27", customerState: "27" };
+
+describe("splitTax", () => {
+  it("splits intra-state tax evenly, giving the odd paisa to SGST", () => {
+    expect(splitTax(0.95, false)).toEqual({ cgstAmount: 0.47, sgstAmount: 0.48, igstAmount: 0 });
+    expect(splitTax(18, false)).toEqual({ cgstAmount: 9, sgstAmount: 9, igstAmount: 0 });
+  });
+
+  it("charges inter-state tax as IGST", () => {
+    expect(splitTax(0.95, true)).toEqual({ cgstAmount: 0, sgstAmount: 0, igstAmount: 0.95 });
+  });
+});
+
+describe("calculateOrderTax", () => {
+  it("keeps CGST and SGST adding up to the tax on an odd paisa", () => {
+    const tax = calculateOrderTax([line(19, 5)], inMaharashtra);
+    expect(tax).toMatchObject({ gstAmount: 0.95, cgstAmount: 0.47, sgstAmount: 0.48, igstAmount: 0, totalAmount: 19.95 });
+  });
+
+  it("charges IGST when the customer is registered in another state", () => {
+    const tax = calculateOrderTax([line(100, 18)], { shopState: "27", customerState: "29" });
+    expect(tax).toMatchObject({ isInterState: true, gstAmount: 18, cgstAmount: 0, sgstAmount: 0, igstAmount: 18 });
+  });
+
+  it("treats a customer with no known state as intra-state", () => {
+    const tax = calculateOrderTax([line(100, 18)], { shopState: "27", customerState: null });
+    expect(tax).toMatchObject({ isInterState: false, cgstAmount: 9, sgstAmount: 9, igstAmount: 0 });
+  });
+
+  it("takes the tax out of tax-inclusive prices", () => {
+    const tax = calculateOrderTax(
+      [line(118, 18, { priceIncludesTax: true }), line(100, 5, { priceIncludesTax: true })],
+      inMaharashtra,
+    );
+    expect(tax.lines).toEqual([
+      { discountAmount: 0, taxableAmount: 100, taxAmount: 18, totalPrice: 118 },
+      { discountAmount: 0, taxableAmount: 95.24, taxAmount: 4.76, totalPrice: 100 },
+    ]);
+    expect(tax).toMatchObject({ subtotal: 218, taxableAmount: 195.24, gstAmount: 22.76, totalAmount: 218 });
+  });
+
+  it("spreads an order discount over the lines before tax", () => {
+    const tax = calculateOrderTax([line(100, 18, { quantity: 3 }), line(100, 18)], { ...inMaharashtra, discountAmount: 40 });
+    expect(tax.lines.map((lineTax) => lineTax.discountAmount)).toEqual([30, 10]);
+    expect(tax.lines.map((lineTax) => lineTax.taxableAmount)).toEqual([270, 90]);
+    expect(tax).toMatchObject({ subtotal: 400, discountAmount: 40, taxableAmount: 360, gstAmount: 64.8, totalAmount: 424.8 });
+  });
+});
+
+describe("allocateDiscount", () => {
+  it("puts the rounding leftover on the last line", () => {
+    expect(allocateDiscount([100, 100, 100], 10)).toEqual([3.33, 3.33, 3.34]);
+  });
+
+  it("never discounts more than the lines are worth", () => {
+    expect(allocateDiscount([20, 30], 80)).toEqual([20, 30]);
+  });
+});
+
+describe("calculateLineTax", () => {
+  it("discounts a tax-inclusive line before taking the tax out", () => {
+    expect(calculateLineTax(line(118, 18, { priceIncludesTax: true }), 18))
+      .toEqual({ discountAmount: 18, taxableAmount: 84.75, taxAmount: 15.25, totalPrice: 100 });
+  });
+});
+
+describe("priceOrderLines", () => {
+  it("returns the amounts as they are stored on the order", () => {
+    const pricing = priceOrderLines(
+      [{ productId: "p1", quantity: 1, unitPrice: 19, gstRate: "5.00", hsnCode: "1006", priceIncludesTax: false }],
+      inMaharashtra,
+    );
+    expect(pricing).toMatchObject({
+      items: [{ productId: "p1", quantity: "1", unitPrice: "19.00", hsnCode: "1006", taxAmount: "0.95", totalPrice: "19.95" }],
+      cgstAmount: "0.47",
+      sgstAmount: "0.48",
+      igstAmount: "0.00",
+      totalAmount: "19.95",
+      placeOfSupply: "27",
+    });
+  });
+});
+
+describe("insertProductSchema", () => {
+  const product = { name: "Rice", price: "50" };
+
+  it.each(["0", "0.25", "3", "5", "12", "18", "28", "18.00"])("accepts a GST rate of %s%%", (gstRate) => {
+    expect(insertProductSchema.safeParse({ ...product, gstRate }).success).toBe(true);
+  });
+
+  it.each(["", "7", "-5", "100", "eighteen"])("refuses a GST rate of %j", (gstRate) => {
+    expect(insertProductSchema.safeParse({ ...product, gstRate }).success).toBe(false);
+  });
+
+  it.each(["1006", "100630", "10063010"])("accepts HSN code %s", (hsnCode) => {
+    expect(insertProductSchema.parse({ ...product, hsnCode }).hsnCode).toBe(hsnCode);
+  });
+
+  it.each(["10", "10063", "1006A", "1006 30 10"])("refuses HSN code %j", (hsnCode) => {
+    expect(insertProductSchema.safeParse({ ...product, hsnCode }).success).toBe(false);
+  });
+
+  it("stores a blank HSN code as none", () => {
+    expect(insertProductSchema.parse({ ...product, hsnCode: " " }).hsnCode).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+// GST calculation shared by the server (authoritative order totals) and the
+// client (cart preview). Amounts are plain numbers rounded to paise.
+
+import type { OrderPricing } from "./schema";
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28] as const;
+
+// GST state codes, as used in the first two digits of a GSTIN
+export const INDIAN_STATES = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+] as const;
+
+export interface TaxableLine {
+  quantity: number;
+  unitPrice: number;
+  gstRate: number;
+  priceIncludesTax: boolean;
+}
+
+export interface LineTax {
+  discountAmount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  totalPrice: number;
+}
+
+export interface TaxSplit {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface OrderTax extends TaxSplit {
+  lines: LineTax[];
+  subtotal: number;
+  discountAmount: number;
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+  isInterState: boolean;
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+// The state a party is registered in: an explicit state code wins, otherwise
+// it is taken from the GSTIN
+export function resolveStateCode(state?: string | null, gstNumber?: string | null): string | null {
+  if (state) return state;
+  if (gstNumber && /^\d{2}/.test(gstNumber)) return gstNumber.slice(0, 2);
+  return null;
+}
+
+// 15 characters: state code, PAN, entity number, "Z", check character
+export function isValidGstin(gstNumber: string): boolean {
+  return /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstNumber);
+}
+
+// Supplies are intra-state unless both states are known and differ
+export function isInterStateSupply(shopState: string | null, customerState: string | null): boolean {
+  return !!shopState && !!customerState && shopState !== customerState;
+}
+
+// A discount reduces the line's value before tax, so the customer is never
+// charged GST on the discounted part
+export function calculateLineTax(line: TaxableLine, discountAmount = 0): LineTax {
+  const gross = roundCurrency(line.quantity * line.unitPrice - discountAmount);
+  if (line.priceIncludesTax) {
+    const taxableAmount = roundCurrency(gross * 100 / (100 + line.gstRate));
+    return { discountAmount, taxableAmount, taxAmount: roundCurrency(gross - taxableAmount), totalPrice: gross };
+  }
+
+  const taxAmount = roundCurrency(gross * line.gstRate / 100);
+  return { discountAmount, taxableAmount: gross, taxAmount, totalPrice: roundCurrency(gross + taxAmount) };
+}
+
+// Spreads an order-level discount over the lines in proportion to their
+// value; rounding leftovers land on the last line
+export function allocateDiscount(lineValues: number[], discountAmount: number): number[] {
+  const subtotal = lineValues.reduce((sum, value) => sum + value, 0);
+  if (discountAmount <= 0 || subtotal <= 0) return lineValues.map(() => 0);
+
+  const total = roundCurrency(Math.min(discountAmount, subtotal));
+  let remaining = total;
+  return lineValues.map((value, index) => {
+    const share = index === lineValues.length - 1
+      ? remaining
+      : Math.min(remaining, roundCurrency(total * value / subtotal));
+    remaining = roundCurrency(remaining - share);
+    return share;
+  });
+}
+
+// Intra-state tax is split evenly between CGST and SGST; any odd paisa goes to SGST
+export function splitTax(taxAmount: number, isInterState: boolean): TaxSplit {
+  if (isInterState) {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: taxAmount };
+  }
+  const paise = Math.round(taxAmount * 100);
+  const cgstAmount = Math.floor(paise / 2) / 100;
+  return { cgstAmount, sgstAmount: (paise - Math.floor(paise / 2)) / 100, igstAmount: 0 };
+}
+
+export function calculateOrderTax(
+  lines: TaxableLine[],
+  { shopState, customerState, discountAmount = 0 }: {
+    shopState: string | null;
+    customerState: string | null;
+    discountAmount?: number;
+  },
+): OrderTax {
+  const lineValues = lines.map((line) => roundCurrency(line.quantity * line.unitPrice));
+  const discounts = allocateDiscount(lineValues, discountAmount);
+  const lineTaxes = lines.map((line, index) => calculateLineTax(line, discounts[index]));
+  const taxableAmount = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.taxableAmount, 0));
+  const gstAmount = roundCurrency(lineTaxes.reduce((sum, line) => sum + line.taxAmount, 0));
+  const isInterState = isInterStateSupply(shopState, customerState);
+
+  return {
+    lines: lineTaxes,
+    subtotal: roundCurrency(lineValues.reduce((sum, value) => sum + value, 0)),
+    discountAmount: roundCurrency(discounts.reduce((sum, value) => sum + value, 0)),
+    taxableAmount,
+    gstAmount,
+    totalAmount: roundCurrency(taxableAmount + gstAmount),
+    isInterState,
+    ...splitTax(gstAmount, isInterState),
+  };
+}
+
+export interface PricingLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  gstRate: string;
+  hsnCode: string | null;
+  priceIncludesTax: boolean;
+}
+
+// An order priced line by line, with amounts as the decimal strings stored on
+// orders. The server prices every order this way; the client uses it to total
+// a cart it can't get quoted while offline.
+export function priceOrderLines(
+  lines: PricingLine[],
+  { shopState, customerState, discountAmount = 0 }: {
+    shopState: string | null;
+    customerState: string | null;
+    discountAmount?: number;
+  },
+): OrderPricing {
+  const tax = calculateOrderTax(
+    lines.map((line) => ({
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      gstRate: parseFloat(line.gstRate),
+      priceIncludesTax: line.priceIncludesTax,
+    })),
+    { shopState, customerState, discountAmount },
+  );
+
+  return {
+    items: lines.map((line, index) => ({
+      productId: line.productId,
+      quantity: line.quantity.toString(),
+      unitPrice: line.unitPrice.toFixed(2),
+      gstRate: line.gstRate,
+      hsnCode: line.hsnCode,
+      discountAmount: tax.lines[index].discountAmount.toFixed(2),
+      taxableAmount: tax.lines[index].taxableAmount.toFixed(2),
+      taxAmount: tax.lines[index].taxAmount.toFixed(2),
+      totalPrice: tax.lines[index].totalPrice.toFixed(2),
+    })),
+    subtotal: tax.subtotal.toFixed(2),
+    discountAmount: tax.discountAmount.toFixed(2),
+    taxableAmount: tax.taxableAmount.toFixed(2),
+    gstAmount: tax.gstAmount.toFixed(2),
+    cgstAmount: tax.cgstAmount.toFixed(2),
+    sgstAmount: tax.sgstAmount.toFixed(2),
+    igstAmount: tax.igstAmount.toFixed(2),
+    totalAmount: tax.totalAmount.toFixed(2),
+    placeOfSupply: customerState ?? shopState,
+    isInterState: tax.isInterState,
+  };
+}
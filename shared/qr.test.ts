@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { inflateSync } from "zlib";
+import jsQR from "jsqr";
+import { encodeQr, qrToPng, qrToSvg, type ErrorCorrectionLevel, type QrCode } from "./qr";
+import { buildUpiIntent } from "./upi";
+
+const UPI_LINK = buildUpiIntent({
+  payeeAddress: "shop.name@okhdfcbank",
+  payeeName: "Sharma General Store",
+  amount: 1234.5,
+  transactionRef: "RS20261018ABCDEF",
+  transactionNote: "Order INV/26-27/0042",
+});
+
+// Rasterises dark/light pixels into the RGBA buffer jsQR reads
+function decodePixels(width: number, isDark: (x: number, y: number) => boolean): string | undefined {
+  const rgba = new Uint8ClampedArray(width * width * 4);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = isDark(x, y) ? 0 : 255;
+      rgba.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return jsQR(rgba, width, width)?.data;
+}
+
+function decodeModules(qr: QrCode, scale = 4, margin = 4): string | undefined {
+  const width = (qr.size + margin * 2) * scale;
+  return decodePixels(width, (px, py) => {
+    const x = Math.floor(px / scale) - margin;
+    const y = Math.floor(py / scale) - margin;
+    return x >= 0 && y >= 0 && x < qr.size && y < qr.size && qr.modules[y][x];
+  });
+}
+
+// Reads back the 1-bit greyscale PNG qrToPng writes
+function decodePng(png: Uint8Array): string | undefined {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = 8;
+  let width = 0;
+  const idat: Uint8Array[] = [];
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = Buffer.from(png.subarray(offset + 4, offset + 8)).toString("ascii");
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") width = new DataView(data.buffer, data.byteOffset).getUint32(0);
+    if (type === "IDAT") idat.push(data);
+    offset += length + 12;
+  }
+
+  const pixels = inflateSync(Buffer.concat(idat));
+  const bytesPerRow = Math.ceil(width / 8);
+  return decodePixels(width, (x, y) => (pixels[y * (bytesPerRow + 1) + 1 + (x >> 3)] & (0x80 >> (x & 7))) === 0);
+}
+
+// Reads the dark modules back out of the `M{x},{y}h1v1h-1z` path qrToSvg writes
+function decodeSvg(svg: string): string | undefined {
+  const dimension = parseInt(svg.match(/viewBox="0 0 (\d+) /)![1], 10);
+  const dark = new Set(Array.from(svg.matchAll(/M(\d+),(\d+)h1v1h-1z/g), ([, x, y]) => `${x},${y}`));
+  const scale = 4;
+  return decodePixels(dimension * scale, (px, py) => dark.has(`${Math.floor(px / scale)},${Math.floor(py / scale)}`));
+}
+
+describe("encodeQr", () => {
+  it.each<ErrorCorrectionLevel>(["L", "M", "Q", "H"])("decodes back to the UPI link at level %s", (errorCorrection) => {
+    expect(decodeModules(encodeQr(UPI_LINK, { errorCorrection }))).toBe(UPI_LINK);
+  });
+
+  it("picks larger versions for longer text and still decodes", () => {
+    const versions = new Set<number>();
+    for (const length of [10, 60, 150, 300, 600]) {
+      const text = `upi://pay?pa=shop@upi&tn=${"x".repeat(length)}`;
+      const qr = encodeQr(text, { errorCorrection: "M" });
+      versions.add(qr.version);
+      expect(qr.size).toBe(qr.version * 4 + 17);
+      expect(decodeModules(qr)).toBe(text);
+    }
+    expect(versions.size).toBe(5);
+  });
+
+  it("encodes non-ASCII text as UTF-8", () => {
+    const text = buildUpiIntent({ payeeAddress: "kirana@upi", payeeName: "शर्मा किराना", amount: 99 });
+    expect(decodeModules(encodeQr(text))).toBe(text);
+  });
+
+  it("refuses text that doesn't fit in any version", () => {
+    expect(() => encodeQr("x".repeat(3000), { errorCorrection: "H" })).toThrow("Text is too long for a QR code");
+  });
+});
+
+describe("QR images", () => {
+  it("renders a PNG that decodes back to the UPI link", () => {
+    expect(decodePng(qrToPng(encodeQr(UPI_LINK), { scale: 4 }))).toBe(UPI_LINK);
+  });
+
+  it("renders an SVG that decodes back to the UPI link", () => {
+    expect(decodeSvg(qrToSvg(encodeQr(UPI_LINK)))).toBe(UPI_LINK);
+  });
+});
@@ -1,7 +1,9 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidVpa } from "./upi";
+import { GST_RATES, isValidGstin } from "./gst";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -14,16 +16,30 @@ export const users = pgTable("users", {
   upiId: text("upi_id"),
   address: text("address"),
   gstNumber: text("gst_number"),
+  state: text("state"), // GST state code, e.g. "27" for Maharashtra
+  invoicePrefix: text("invoice_prefix").notNull().default("INV"),
+  offlineStockPolicy: text("offline_stock_policy").notNull().default("allow_negative"), // allow_negative, hold
   language: text("language").default("en"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Last invoice number handed out per shop and financial year (April to March)
+export const invoiceCounters = pgTable("invoice_counters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  financialYear: text("financial_year").notNull(), // e.g. "2026-27"
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => [
+  unique("invoice_counters_user_id_financial_year_unique").on(table.userId, table.financialYear),
+]);
+
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   nameHindi: text("name_hindi"),
   userId: varchar("user_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const products = pgTable("products", {
@@ -37,6 +53,9 @@ export const products = pgTable("products", {
   unit: text("unit").notNull().default("pcs"), // pcs, kg, L, etc.
   minStock: decimal("min_stock", { precision: 10, scale: 3 }).default("0"),
   barcode: text("barcode"),
+  hsnCode: text("hsn_code"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  priceIncludesTax: boolean("price_includes_tax").notNull().default(false),
   isPackaged: boolean("is_packaged").default(true),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -53,7 +72,51 @@ export const customers = pgTable("customers", {
   creditLimit: decimal("credit_limit", { precision: 10, scale: 2 }).default("0"),
   outstandingAmount: decimal("outstanding_amount", { precision: 10, scale: 2 }).default("0"),
   whatsappNumber: text("whatsapp_number"),
+  gstNumber: text("gst_number"),
+  state: text("state"), // GST state code; inter-state sales are charged IGST
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  contactPerson: text("contact_person"),
+  phone: text("phone").notNull(),
+  email: text("email"),
+  address: text("address"),
+  gstNumber: text("gst_number"),
+  state: text("state"), // GST state code
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  outstandingAmount: decimal("outstanding_amount", { precision: 10, scale: 2 }).notNull().default("0"), // owed for goods received
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: text("po_number").notNull(), // e.g. PO/26-27/0001
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull().default("ordered"), // ordered, partially_received, received
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // everything ordered
+  receivedAmount: decimal("received_amount", { precision: 10, scale: 2 }).notNull().default("0"), // value received so far
+  expectedDate: timestamp("expected_date"),
+  notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("purchase_orders_user_id_po_number_unique").on(table.userId, table.poNumber),
+]);
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  receivedQuantity: decimal("received_quantity", { precision: 10, scale: 3 }).notNull().default("0"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
 });
 
 export const orders = pgTable("orders", {
@@ -65,18 +128,29 @@ export const orders = pgTable("orders", {
   paymentStatus: text("payment_status").notNull().default("pending"), // pending, paid, partial
   paymentMethod: text("payment_method"), // cash, upi, card, credit
   upiApp: text("upi_app"), // phonepe, googlepay, paytm, bhim
+  upiReference: text("upi_reference"), // tr sent in the order's UPI payment link
+  upiReferenceExpiresAt: timestamp("upi_reference_expires_at"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).default("0"),
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0"),
   gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }).default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).default("0"),
+  placeOfSupply: text("place_of_supply"), // GST state code
   deliveryAddress: text("delivery_address"),
   deliveryLandmark: text("delivery_landmark"),
   notes: text("notes"),
   isOfflineOrder: boolean("is_offline_order").default(false),
+  clientId: text("client_id"), // generated on the device that captured an offline sale
   syncedAt: timestamp("synced_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique("orders_user_id_order_number_unique").on(table.userId, table.orderNumber),
+  unique("orders_user_id_upi_reference_unique").on(table.userId, table.upiReference),
+  unique("orders_user_id_client_id_unique").on(table.userId, table.clientId),
+]);
 
 export const orderItems = pgTable("order_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -86,14 +160,18 @@ export const orderItems = pgTable("order_items", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).default("0"),
+  hsnCode: text("hsn_code"),
+  taxableAmount: decimal("taxable_amount", { precision: 10, scale: 2 }).default("0"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default("0"),
 });
 
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id),
   customerId: varchar("customer_id").references(() => customers.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // purchase payments
   userId: varchar("user_id").references(() => users.id).notNull(),
-  type: text("type").notNull(), // sale, purchase, credit_payment, expense
+  type: text("type").notNull(), // sale, refund, credit_sale, credit_note, purchase, credit_payment, expense
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   paymentMethod: text("payment_method").notNull(),
   upiApp: text("upi_app"),
@@ -102,7 +180,12 @@ export const transactions = pgTable("transactions", {
   isOfflineTransaction: boolean("is_offline_transaction").default(false),
   syncedAt: timestamp("synced_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // A UTR is one credit to the shop's account, so it can pay for one sale
+  uniqueIndex("transactions_user_id_upi_transaction_id_unique")
+    .on(table.userId, table.upiTransactionId)
+    .where(sql`${table.type} = 'sale'`),
+]);
 
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -112,10 +195,86 @@ export const stockMovements = pgTable("stock_movements", {
   quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
   reason: text("reason"), // sale, purchase, return, damage, adjustment
   orderId: varchar("order_id").references(() => orders.id),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const salesReturns = pgTable("sales_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  customerId: varchar("customer_id").references(() => customers.id),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  settlement: text("settlement").notNull(), // refund, credit_note
+  paymentMethod: text("payment_method"), // cash, upi, card (refunds only)
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const salesReturnItems = pgTable("sales_return_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").references(() => salesReturns.id).notNull(),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  condition: text("condition").notNull().default("restock"), // restock, damage
+});
+
+// Credits from an imported bank/PSP statement, one row per UTR. Entries
+// start unmatched and are linked to the order and transaction they paid.
+export const upiStatementEntries = pgTable("upi_statement_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  utr: text("utr").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  receivedAt: timestamp("received_at").notNull(),
+  payerVpa: text("payer_vpa"),
+  reference: text("reference"), // tr or remarks as printed on the statement
+  status: text("status").notNull().default("unmatched"), // unmatched, matched, ignored
+  orderId: varchar("order_id").references(() => orders.id),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  matchedAt: timestamp("matched_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("upi_statement_entries_user_id_utr_unique").on(table.userId, table.utr),
+]);
+
+// A product that an offline sale sold more of than was in stock when the
+// sale synced, one row per product. Under the allow_negative policy the order
+// is created and the row only flags it; under hold the sale itself waits in
+// heldOrder until the owner accepts or rejects it. A line charged at a price
+// other than the catalogue's is a price conflict and is always held.
+export const stockConflicts = pgTable("stock_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  clientId: text("client_id").notNull(), // the offline sale's clientId
+  orderId: varchar("order_id").references(() => orders.id),
+  reason: text("reason").notNull().default("stock"), // stock, price
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // sold offline
+  availableStock: decimal("available_stock", { precision: 10, scale: 3 }).notNull(), // in stock at sync
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // charged offline, for price conflicts
+  catalogPrice: decimal("catalog_price", { precision: 10, scale: 2 }), // in the catalogue at sync
+  policy: text("policy").notNull(), // allow_negative, hold
+  status: text("status").notNull().default("open"), // open, resolved
+  resolution: text("resolution"), // accepted, rejected
+  heldOrder: jsonb("held_order"), // the offline sale while it is held
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Left behind when a synced record is deleted, so devices holding a cached
+// copy learn to drop it
+export const syncTombstones = pgTable("sync_tombstones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  entityType: text("entity_type").notNull(), // product, category, customer
+  entityId: varchar("entity_id").notNull(),
+  deletedAt: timestamp("deleted_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   products: many(products),
@@ -124,6 +283,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   orders: many(orders),
   transactions: many(transactions),
   stockMovements: many(stockMovements),
+  salesReturns: many(salesReturns),
+  upiStatementEntries: many(upiStatementEntries),
+  stockConflicts: many(stockConflicts),
+  syncTombstones: many(syncTombstones),
+  suppliers: many(suppliers),
+  purchaseOrders: many(purchaseOrders),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
@@ -136,6 +301,7 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   category: one(categories, { fields: [products.categoryId], references: [categories.id] }),
   orderItems: many(orderItems),
   stockMovements: many(stockMovements),
+  purchaseOrderItems: many(purchaseOrderItems),
 }));
 
 export const customersRelations = relations(customers, ({ one, many }) => ({
@@ -144,22 +310,43 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
   transactions: many(transactions),
 }));
 
+export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
+  user: one(users, { fields: [suppliers.userId], references: [users.id] }),
+  purchaseOrders: many(purchaseOrders),
+  transactions: many(transactions),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  user: one(users, { fields: [purchaseOrders.userId], references: [users.id] }),
+  supplier: one(suppliers, { fields: [purchaseOrders.supplierId], references: [suppliers.id] }),
+  items: many(purchaseOrderItems),
+  stockMovements: many(stockMovements),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, { fields: [purchaseOrderItems.purchaseOrderId], references: [purchaseOrders.id] }),
+  product: one(products, { fields: [purchaseOrderItems.productId], references: [products.id] }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, { fields: [orders.userId], references: [users.id] }),
   customer: one(customers, { fields: [orders.customerId], references: [customers.id] }),
   orderItems: many(orderItems),
   transactions: many(transactions),
   stockMovements: many(stockMovements),
+  salesReturns: many(salesReturns),
 }));
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
   order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
   product: one(products, { fields: [orderItems.productId], references: [products.id] }),
+  returnItems: many(salesReturnItems),
 }));
 
 export const transactionsRelations = relations(transactions, ({ one }) => ({
   user: one(users, { fields: [transactions.userId], references: [users.id] }),
   customer: one(customers, { fields: [transactions.customerId], references: [customers.id] }),
+  supplier: one(suppliers, { fields: [transactions.supplierId], references: [suppliers.id] }),
   order: one(orders, { fields: [transactions.orderId], references: [orders.id] }),
 }));
 
@@ -167,6 +354,36 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
   user: one(users, { fields: [stockMovements.userId], references: [users.id] }),
   product: one(products, { fields: [stockMovements.productId], references: [products.id] }),
   order: one(orders, { fields: [stockMovements.orderId], references: [orders.id] }),
+  purchaseOrder: one(purchaseOrders, { fields: [stockMovements.purchaseOrderId], references: [purchaseOrders.id] }),
+}));
+
+export const salesReturnsRelations = relations(salesReturns, ({ one, many }) => ({
+  user: one(users, { fields: [salesReturns.userId], references: [users.id] }),
+  order: one(orders, { fields: [salesReturns.orderId], references: [orders.id] }),
+  customer: one(customers, { fields: [salesReturns.customerId], references: [customers.id] }),
+  items: many(salesReturnItems),
+}));
+
+export const salesReturnItemsRelations = relations(salesReturnItems, ({ one }) => ({
+  salesReturn: one(salesReturns, { fields: [salesReturnItems.returnId], references: [salesReturns.id] }),
+  orderItem: one(orderItems, { fields: [salesReturnItems.orderItemId], references: [orderItems.id] }),
+  product: one(products, { fields: [salesReturnItems.productId], references: [products.id] }),
+}));
+
+export const upiStatementEntriesRelations = relations(upiStatementEntries, ({ one }) => ({
+  user: one(users, { fields: [upiStatementEntries.userId], references: [users.id] }),
+  order: one(orders, { fields: [upiStatementEntries.orderId], references: [orders.id] }),
+  transaction: one(transactions, { fields: [upiStatementEntries.transactionId], references: [transactions.id] }),
+}));
+
+export const stockConflictsRelations = relations(stockConflicts, ({ one }) => ({
+  user: one(users, { fields: [stockConflicts.userId], references: [users.id] }),
+  product: one(products, { fields: [stockConflicts.productId], references: [products.id] }),
+  order: one(orders, { fields: [stockConflicts.orderId], references: [orders.id] }),
+}));
+
+export const syncTombstonesRelations = relations(syncTombstones, ({ one }) => ({
+  user: one(users, { fields: [syncTombstones.userId], references: [users.id] }),
 }));
 
 // Insert schemas
@@ -178,48 +395,276 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
   userId: true,
 });
 
+// GST only comes in the notified slabs, and HSN codes are 4, 6 or 8 digits;
+// a blank HSN code is stored as none
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   userId: true,
+}).extend({
+  gstRate: z.string().trim()
+    .refine(
+      (rate) => rate !== "" && (GST_RATES as readonly number[]).includes(Number(rate)),
+      `GST rate must be one of ${GST_RATES.join(", ")}%`,
+    )
+    .optional(),
+  hsnCode: z.string().trim()
+    .regex(/^(\d{4}|\d{6}|\d{8})?$/, "HSN code must be 4, 6 or 8 digits")
+    .transform((code) => code || null)
+    .nullable()
+    .optional(),
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
   userId: true,
 });
 
+// Order numbers are allocated by the server when the order is created.
+// Orders only become cancelled through the cancel endpoint.
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  orderNumber: true,
+  clientId: true,
   createdAt: true,
   updatedAt: true,
   userId: true,
+}).extend({
+  status: z.enum(["pending", "completed"]).optional(),
+});
+
+// What a client sends to create an order. The server prices the order and
+// sets its amounts and status; totalAmount and gstAmount are only checked
+// against that pricing. What was paid comes from the order's tenders.
+export const createOrderSchema = insertOrderSchema.pick({
+  customerId: true,
+  paymentMethod: true,
+  upiApp: true,
+  totalAmount: true,
+  gstAmount: true,
+  discountAmount: true,
+  deliveryAddress: true,
+  deliveryLandmark: true,
+  notes: true,
 });
 
+// Editing an order only touches who it is for and where it goes. Amounts,
+// payments and status change through their own endpoints; cancelling is final.
+export const updateOrderSchema = insertOrderSchema.pick({
+  customerId: true,
+  deliveryAddress: true,
+  deliveryLandmark: true,
+  notes: true,
+}).partial();
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+  outstandingAmount: true,
+}).extend({
+  gstNumber: z.string().toUpperCase().refine(isValidGstin, "Enter a valid 15 character GSTIN").nullable().optional(),
+  email: z.string().email().nullable().optional(),
+});
+
+// Lines are costed as entered; the total is worked out by the server
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string(),
+  expectedDate: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: z.coerce.number().positive(),
+    unitCost: z.coerce.number().min(0),
+  })).min(1),
+});
+
+// Receives a delivery against a purchase order. Lines left out aren't part
+// of this delivery; without any lines, everything still due is received.
+export const receivePurchaseSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string(),
+    quantity: z.coerce.number().positive(),
+  })).min(1).optional(),
+});
+
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   createdAt: true,
   userId: true,
 });
 
+// What POST /api/transactions may record by hand. Khata rows and refunds move
+// a customer's outstanding, so they only come from the order, payment and
+// return endpoints that update it alongside; the same goes for supplier
+// payments and what is owed to the supplier.
+export const createTransactionSchema = insertTransactionSchema.extend({
+  type: z.enum(["sale", "purchase", "expense"]),
+});
+
 export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
   id: true,
   createdAt: true,
   userId: true,
 });
 
+// Request body for returning lines of an existing order; amounts and
+// product ids are derived server-side from the original order items
+export const createSalesReturnSchema = z.object({
+  settlement: z.enum(["refund", "credit_note"]),
+  paymentMethod: z.string().optional(),
+  reason: z.string().optional(),
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    quantity: z.coerce.number().positive(),
+    condition: z.enum(["restock", "damage"]).default("restock"),
+  })).min(1),
+});
+
+export const insertUpiStatementEntrySchema = createInsertSchema(upiStatementEntries).omit({
+  id: true,
+  userId: true,
+  status: true,
+  orderId: true,
+  transactionId: true,
+  matchedAt: true,
+  createdAt: true,
+});
+
+// Request body for importing a bank/PSP statement; the CSV is parsed server-side
+export const upiStatementImportSchema = z.object({
+  csv: z.string().min(1, "Statement file is empty"),
+});
+
+// Request body for matching a statement credit to an order by hand
+export const upiStatementMatchSchema = z.object({
+  orderId: z.string().min(1),
+});
+
+// Request body for a per-order UPI payment link
+export const upiIntentRequestSchema = z.object({
+  expiresInMinutes: z.coerce.number().int().min(1).max(1440).default(15),
+});
+
+// Request body for marking an order paid over UPI. Without a UTR the payment
+// is recorded as unverified until a bank statement import confirms it.
+export const upiPaymentSchema = z.object({
+  utr: z.string().trim().regex(/^[A-Za-z0-9]{6,35}$/, "Enter the UTR (UPI reference number) of the payment").optional(),
+  amount: z.coerce.number().positive().optional(),
+});
+
+// One part of how an order is paid, e.g. ₹200 cash + ₹300 UPI + the rest on
+// khata. A "credit" tender puts its amount on the customer's balance.
+export const orderTenderSchema = z.object({
+  paymentMethod: z.string().min(1),
+  amount: z.coerce.number().positive(),
+  upiApp: z.string().optional(),
+  upiTransactionId: z.string().optional(),
+});
+
+// Request body for a customer settling part of their khata (credit) balance
+export const creditPaymentSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paymentMethod: z.string().min(1),
+  upiApp: z.string().optional(),
+  upiTransactionId: z.string().optional(),
+  description: z.string().optional(),
+});
+
+// Request body for collecting what is still due on an order after the sale.
+// Whatever part of it was on the khata comes off the customer's balance.
+export const orderPaymentSchema = creditPaymentSchema.extend({
+  paymentMethod: z.string().min(1).refine((method) => method !== "credit", "Choose how the payment was made"),
+});
+
+// Shop profile fields the owner can change after registering. GST caps
+// invoice numbers at 16 characters, so the prefix is kept short.
+export const updateShopSchema = insertUserSchema.pick({
+  shopName: true,
+  shopNameHindi: true,
+  ownerName: true,
+  phone: true,
+  upiId: true,
+  address: true,
+  gstNumber: true,
+  state: true,
+  language: true,
+}).partial().extend({
+  upiId: z.string().refine(isValidVpa, "Enter a valid UPI ID, e.g. shopname@upi").nullable().optional(),
+  invoicePrefix: z.string().regex(/^[A-Za-z0-9-]{1,5}$/, "Prefix must be 1-5 letters, digits or hyphens").optional(),
+  offlineStockPolicy: z.enum(["allow_negative", "hold"]).optional(),
+});
+
+// Cart contents priced by the server; prices, tax and totals are never
+// taken from the client
+export const orderQuoteSchema = z.object({
+  customerId: z.string().optional(),
+  discountAmount: z.coerce.number().min(0).default(0),
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: z.coerce.number().positive(),
+  })).min(1),
+});
+
+// One sale captured on a device while offline. The device generates
+// clientId, which is also the idempotency key: syncing the same sale again
+// returns the order created the first time. Lines keep the price charged.
+export const offlineOrderSchema = z.object({
+  clientId: z.string().trim().min(8).max(64),
+  capturedAt: z.coerce.date(),
+  order: createOrderSchema,
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: z.coerce.number().positive(),
+    unitPrice: z.coerce.number().min(0),
+  })).min(1),
+  tenders: z.array(orderTenderSchema).min(1).optional(),
+});
+
+// Request body for syncing queued offline sales; records are validated one
+// by one so a bad record doesn't hold back the rest
+export const offlineSyncSchema = z.object({
+  orders: z.array(z.unknown()).min(1).max(50),
+});
+
+export const insertStockConflictSchema = createInsertSchema(stockConflicts).omit({
+  id: true,
+  userId: true,
+  status: true,
+  resolution: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
+// Accepting a flagged sale keeps its order; rejecting cancels it. Accepting a
+// held sale creates the order now; rejecting discards it.
+export const resolveStockConflictSchema = z.object({
+  action: z.enum(["accept", "reject"]),
+});
+
+// Query for GET /api/sync/changes; without a cursor the whole catalogue is sent
+export const syncChangesQuerySchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UpdateShop = z.infer<typeof updateShopSchema>;
+export type OfflineStockPolicy = NonNullable<UpdateShop["offlineStockPolicy"]>;
+export type InvoiceCounter = typeof invoiceCounters.$inferSelect;
 
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
@@ -230,9 +675,25 @@ export type Product = typeof products.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
 
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+export type CreatePurchaseOrder = z.infer<typeof createPurchaseOrderSchema>;
+export type ReceivePurchase = z.infer<typeof receivePurchaseSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  supplier: Supplier;
+  items: (PurchaseOrderItem & { product: Product })[];
+};
+
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type CreateOrder = z.infer<typeof createOrderSchema>;
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+export type OrderTender = z.infer<typeof orderTenderSchema>;
+
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 
@@ -241,3 +702,116 @@ export type Transaction = typeof transactions.$inferSelect;
 
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
+
+export type CreateSalesReturn = z.infer<typeof createSalesReturnSchema>;
+export type SalesReturn = typeof salesReturns.$inferSelect;
+export type SalesReturnItem = typeof salesReturnItems.$inferSelect;
+export type SalesReturnWithItems = SalesReturn & { items: (SalesReturnItem & { product: Product })[] };
+
+export type CreditPayment = z.infer<typeof creditPaymentSchema>;
+export type OrderPayment = z.infer<typeof orderPaymentSchema>;
+export type OfflineOrder = z.infer<typeof offlineOrderSchema>;
+
+export type InsertStockConflict = z.infer<typeof insertStockConflictSchema>;
+export type StockConflict = typeof stockConflicts.$inferSelect;
+export type StockConflictWithProduct = StockConflict & { product: Product };
+export type StockConflictAction = z.infer<typeof resolveStockConflictSchema>["action"];
+
+export type SyncTombstone = typeof syncTombstones.$inferSelect;
+export type SyncEntityType = "product" | "category" | "customer";
+
+export interface EntityChanges<T> {
+  updated: T[];
+  deleted: string[];
+}
+
+export interface CatalogChanges {
+  products: EntityChanges<Product>;
+  categories: EntityChanges<Category>;
+  customers: EntityChanges<Customer>;
+}
+
+// full: the changes are the whole catalogue and replace what the device has.
+// cursor goes back as ?since= on the next request.
+export interface SyncChanges extends CatalogChanges {
+  cursor: string;
+  full: boolean;
+}
+
+// synced and duplicate both mean the order exists on the server; held sales
+// wait for the owner to review a stock conflict; rejected records will fail
+// the same way again, failed ones can be retried
+export interface OfflineSyncResult {
+  clientId: string;
+  status: "synced" | "duplicate" | "held" | "rejected" | "failed";
+  orderId?: string;
+  orderNumber?: string;
+  error?: string;
+}
+
+export interface CustomerLedgerEntry {
+  id: string;
+  type: string;
+  orderId: string | null;
+  description: string | null;
+  createdAt: Date | null;
+  debit: string;
+  credit: string;
+  balance: string;
+}
+
+export interface CustomerLedger {
+  customer: Customer;
+  openingBalance: string;
+  entries: CustomerLedgerEntry[];
+  balance: string;
+}
+
+export type UpiPayment = z.infer<typeof upiPaymentSchema>;
+
+export type InsertUpiStatementEntry = z.infer<typeof insertUpiStatementEntrySchema>;
+export type UpiStatementEntry = typeof upiStatementEntries.$inferSelect;
+
+// A UPI order whose money hasn't been tied to a bank credit yet: either an
+// unpaid balance, or sales recorded as paid at the counter without a UTR
+export interface UnreconciledUpiOrder {
+  order: Order;
+  balanceDue: string;
+  unverifiedSales: string[];
+}
+
+export interface UpiStatementImportResult {
+  imported: number;
+  duplicates: number;
+  matched: UpiStatementEntry[];
+  unmatched: UpiStatementEntry[];
+  errors: string[];
+}
+
+export type OrderQuote = z.infer<typeof orderQuoteSchema>;
+
+export interface PricedOrderLine {
+  productId: string;
+  quantity: string;
+  unitPrice: string;
+  gstRate: string;
+  hsnCode: string | null;
+  discountAmount: string;
+  taxableAmount: string;
+  taxAmount: string;
+  totalPrice: string;
+}
+
+export interface OrderPricing {
+  items: PricedOrderLine[];
+  subtotal: string;
+  discountAmount: string;
+  taxableAmount: string;
+  gstAmount: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  totalAmount: string;
+  placeOfSupply: string | null;
+  isInterState: boolean;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { buildUpiIntent, parseUpiIntent, UpiIntentError, type UpiIntent } from "./upi";
+
+const roundTrip = (intent: UpiIntent) => parseUpiIntent(buildUpiIntent(intent));
+
+describe("buildUpiIntent → parseUpiIntent", () => {
+  it("returns every field it was given", () => {
+    const intent: UpiIntent = {
+      payeeAddress: "shop.name-1_a@okhdfcbank",
+      payeeName: "Sharma General Store",
+      amount: 1234.5,
+      transactionRef: "RS20261018ABCDEF",
+      transactionNote: "Order INV/26-27/0042",
+      merchantCode: "5411",
+      mode: "01",
+      url: "https://example.com/orders/42?view=receipt&lang=hi",
+    };
+    expect(roundTrip(intent)).toEqual(intent);
+  });
+
+  it("leaves optional fields out when they aren't given", () => {
+    const uri = buildUpiIntent({ payeeAddress: "kirana@upi", payeeName: "" });
+    expect(uri).toBe("upi://pay?pa=kirana@upi&cu=INR");
+    expect(parseUpiIntent(uri)).toEqual({ payeeAddress: "kirana@upi", payeeName: "" });
+  });
+
+  it.each([
+    "Ram & Sons",
+    "A=B; C?D",
+    "50% off + free delivery",
+    "Plot #12, Sector 5/B",
+    "name@example.com",
+    "शर्मा किराना स्टोर",
+    "Café ☕ 'Chai' \"Point\"",
+  ])("keeps special characters in %j", (text) => {
+    const parsed = roundTrip({ payeeAddress: "kirana@upi", payeeName: text, transactionNote: text });
+    expect(parsed.payeeName).toBe(text);
+    expect(parsed.transactionNote).toBe(text);
+  });
+
+  it("doesn't let a value inject extra parameters", () => {
+    const parsed = roundTrip({ payeeAddress: "kirana@upi", payeeName: "Shop&pa=thief@upi&am=1" });
+    expect(parsed.payeeAddress).toBe("kirana@upi");
+    expect(parsed.payeeName).toBe("Shop&pa=thief@upi&am=1");
+    expect(parsed.amount).toBeUndefined();
+  });
+
+  it.each([
+    [1, "1.00", 1],
+    [0.5, "0.50", 0.5],
+    [0.01, "0.01", 0.01],
+    [99.999, "100.00", 100],
+    [1234.567, "1234.57", 1234.57],
+    [100000, "100000.00", 100000],
+  ])("sends amount %d as am=%s", (amount, am, parsed) => {
+    const uri = buildUpiIntent({ payeeAddress: "kirana@upi", payeeName: "Shop", amount });
+    expect(uri).toContain(`&am=${am}&`);
+    expect(parseUpiIntent(uri).amount).toBe(parsed);
+  });
+
+  it("truncates notes to 80 characters", () => {
+    const parsed = roundTrip({ payeeAddress: "kirana@upi", payeeName: "Shop", transactionNote: "x".repeat(100) });
+    expect(parsed.transactionNote).toBe("x".repeat(80));
+  });
+});
+
+describe("buildUpiIntent", () => {
+  it.each<[string, UpiIntent]>([
+    ["Invalid UPI ID: not-a-vpa", { payeeAddress: "not-a-vpa", payeeName: "Shop" }],
+    ["UPI amount must be greater than zero", { payeeAddress: "kirana@upi", payeeName: "Shop", amount: 0 }],
+    ["UPI amount must be greater than zero", { payeeAddress: "kirana@upi", payeeName: "Shop", amount: NaN }],
+    ["UPI transaction reference must be 1-35 letters or digits", { payeeAddress: "kirana@upi", payeeName: "Shop", transactionRef: "INV/26-27/1" }],
+    ["UPI merchant code must be 4 digits", { payeeAddress: "kirana@upi", payeeName: "Shop", merchantCode: "54" }],
+  ])("refuses with %j", (message, intent) => {
+    expect(() => buildUpiIntent(intent)).toThrow(new UpiIntentError(message));
+  });
+});
+
+describe("parseUpiIntent", () => {
+  it("reads links written by other apps", () => {
+    expect(parseUpiIntent("UPI://pay?PA=kirana%40upi&pn=Ram+Stores&AM=10&cu=inr")).toEqual({
+      payeeAddress: "kirana@upi",
+      payeeName: "Ram Stores",
+      amount: 10,
+    });
+  });
+
+  it.each([
+    ["Not a UPI payment link", "https://pay?pa=kirana@upi"],
+    ["UPI payment link has no valid payee address", "upi://pay?pn=Shop"],
+    ["Unsupported UPI currency: USD", "upi://pay?pa=kirana@upi&cu=USD"],
+    ["UPI payment link has an invalid amount", "upi://pay?pa=kirana@upi&am=-5"],
+    ["Malformed UPI parameter: pn", "upi://pay?pa=kirana@upi&pn=%E0%A4"],
+  ])("refuses with %j", (message, uri) => {
+    expect(() => parseUpiIntent(uri)).toThrow(new UpiIntentError(message));
+  });
+});
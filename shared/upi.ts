@@ -0,0 +1,125 @@
+// UPI intent URIs (upi://pay?...) as described in NPCI's UPI linking
+// specification. Both the server (payment requests, invoices, receipts) and
+// the client build and read payment links through this module.
+
+export interface UpiIntent {
+  payeeAddress: string; // pa: the payee's VPA, e.g. shopname@ybl
+  payeeName: string; // pn
+  amount?: number; // am, in rupees
+  transactionRef?: string; // tr: the payee's reference, echoed back by the payer's bank
+  transactionNote?: string; // tn
+  merchantCode?: string; // mc: merchant category code
+  mode?: string; // mode: how the payment was initiated, e.g. 01 for a QR code
+  url?: string; // url: link to details of the transaction
+}
+
+const UPI_SCHEME = "upi://pay";
+const CURRENCY = "INR";
+
+// handle@psp; the PSP handle is letters and digits only
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+const TRANSACTION_REF_PATTERN = /^[a-zA-Z0-9]{1,35}$/;
+const MERCHANT_CODE_PATTERN = /^\d{4}$/;
+const MAX_NOTE_LENGTH = 80;
+
+export class UpiIntentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UpiIntentError";
+  }
+}
+
+export function isValidVpa(vpa: string): boolean {
+  return VPA_PATTERN.test(vpa);
+}
+
+export function formatUpiAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+// Short alphanumeric reference that fits the 35 character limit on tr
+export function generateTransactionRef(prefix = "RS"): string {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `${prefix}${time}${random}`;
+}
+
+// Values are percent-encoded, except that the @ in a VPA is left as is
+// because several UPI apps don't decode it
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/%40/g, "@");
+}
+
+export function buildUpiIntent(intent: UpiIntent): string {
+  if (!isValidVpa(intent.payeeAddress)) {
+    throw new UpiIntentError(`Invalid UPI ID: ${intent.payeeAddress}`);
+  }
+  if (intent.amount !== undefined && !(Number.isFinite(intent.amount) && intent.amount > 0)) {
+    throw new UpiIntentError("UPI amount must be greater than zero");
+  }
+  if (intent.transactionRef !== undefined && !TRANSACTION_REF_PATTERN.test(intent.transactionRef)) {
+    throw new UpiIntentError("UPI transaction reference must be 1-35 letters or digits");
+  }
+  if (intent.merchantCode !== undefined && !MERCHANT_CODE_PATTERN.test(intent.merchantCode)) {
+    throw new UpiIntentError("UPI merchant code must be 4 digits");
+  }
+
+  const params: [string, string | undefined][] = [
+    ["pa", intent.payeeAddress],
+    ["pn", intent.payeeName],
+    ["mc", intent.merchantCode],
+    ["tr", intent.transactionRef],
+    ["tn", intent.transactionNote?.slice(0, MAX_NOTE_LENGTH)],
+    ["am", intent.amount !== undefined ? formatUpiAmount(intent.amount) : undefined],
+    ["cu", CURRENCY],
+    ["mode", intent.mode],
+    ["url", intent.url],
+  ];
+  const query = params
+    .filter((param): param is [string, string] => param[1] !== undefined && param[1] !== "")
+    .map(([key, value]) => `${key}=${encodeValue(value)}`)
+    .join("&");
+  return `${UPI_SCHEME}?${query}`;
+}
+
+export function parseUpiIntent(uri: string): UpiIntent {
+  const separator = uri.indexOf("?");
+  if (separator === -1 || uri.slice(0, separator).toLowerCase() !== UPI_SCHEME) {
+    throw new UpiIntentError("Not a UPI payment link");
+  }
+
+  const params = new Map<string, string>();
+  for (const pair of uri.slice(separator + 1).split("&")) {
+    if (!pair) continue;
+    const [key, ...rest] = pair.split("=");
+    try {
+      params.set(key.toLowerCase(), decodeURIComponent(rest.join("=").replace(/\+/g, " ")));
+    } catch {
+      throw new UpiIntentError(`Malformed UPI parameter: ${key}`);
+    }
+  }
+
+  const payeeAddress = params.get("pa");
+  if (!payeeAddress || !isValidVpa(payeeAddress)) {
+    throw new UpiIntentError("UPI payment link has no valid payee address");
+  }
+  const currency = params.get("cu");
+  if (currency && currency.toUpperCase() !== CURRENCY) {
+    throw new UpiIntentError(`Unsupported UPI currency: ${currency}`);
+  }
+  const amount = params.has("am") ? parseFloat(params.get("am")!) : undefined;
+  if (amount !== undefined && !(Number.isFinite(amount) && amount > 0)) {
+    throw new UpiIntentError("UPI payment link has an invalid amount");
+  }
+
+  return {
+    payeeAddress,
+    payeeName: params.get("pn") ?? "",
+    amount,
+    transactionRef: params.get("tr"),
+    transactionNote: params.get("tn"),
+    merchantCode: params.get("mc"),
+    mode: params.get("mode"),
+    url: params.get("url"),
+  };
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests run against MemStorage, so the suite needs no database or network
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{server,shared,client/src}/**/*.test.ts"],
+    environment: "node",
+    env: {
+      STORAGE_DRIVER: "memory",
+    },
+  },
+});